@@ -1,12 +1,43 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import * as XLSX from 'xlsx';
-import { ServerItem, LaborItem, Category, Role, Project, TaskStatus, Priority, JournalEntry, JournalEntryType } from './types';
-import { INITIAL_SERVERS, INITIAL_LABOR_ITEMS, INITIAL_UNIT_PRICES, INITIAL_LABOR_PRICES, INITIAL_JOURNAL } from './constants';
-import { calculateItemCost, calculateLaborCost, formatCurrency, saveProjectToCloud, fetchProjectsFromCloud, deleteProjectFromCloud, exportProjectToExcel, mapStringToRole, downloadImportTemplate } from './utils';
+import { ServerItem, LaborItem, Category, Role, Project, TaskStatus, Priority, JournalEntry, JournalEntryType, ActionItem, JournalAttachment, JournalFilters, MarkdownInline, ConfigDiagnostic, StorageVolume, StorageType, BillingCycle, UnitPrices, QuotationSettings, Discount, DiscountKind, PriceBook, PriceBookVersion, TieredRate, TierMode, ScenarioComparison, LintFinding, LintSettings, LintSeverity, LintMetric, LintOperator, CustomLintRule, ServerTemplate, ServerStack, OverheadRule, OverheadMode, QuotePercentile, ThreePointEstimate, ScheduleSettings, TeamMember, RoleDefinition, ActualEntry, BurnUpPoint, Risk, RiskStatus, Swimlane, TaskHistoryEntry, BoardSettings, ViewFilters, SavedView, SortOrder, TaskSortKey, ServerSortKey, CalendarEvent, StorageConfig, SyncConflict, SyncOutcome, SyncState, MergeChoice } from './types';
+import { INITIAL_SERVERS, INITIAL_LABOR_ITEMS, INITIAL_UNIT_PRICES, INITIAL_LABOR_PRICES, INITIAL_JOURNAL, STORAGE_TYPE_LABELS, UNIT_PRICE_LABELS, BILLING_CYCLE_LABELS, INITIAL_BILLING_CYCLES, INITIAL_QUOTATION_SETTINGS, PRICE_UNITS, TIER_MODE_LABELS, SERVER_STACKS, OVERHEAD_PRESETS, WEEKDAY_LABELS, QUOTATION_SECTION_LABELS, RISK_STATUS_STYLES, SWIMLANE_LABELS, TASK_HISTORY_LABELS, EMPTY_VIEW_FILTERS, CALENDAR_EVENT_LABELS, EMPTY_JOURNAL_FILTERS, STORAGE_PROVIDER_LABELS, SYNC_STATE_LABELS, MERGE_SECTION_LABELS } from './constants';
+import { calculateProjectItemCost, getProjectPricing, describeAppliedTier, calculateLaborCost, calculateContractSummary, findAssignee, formatCurrency, hasExchangeRate, mapStringToRole, downloadImportTemplate } from './utils';
+import { hasConfigErrors } from './configParser';
+import { copyStorageData, createStorageProvider, deleteServerTemplateFromStorage, getStorageConfig, getStorageProvider, isRemoteProvider, savePriceBookToStorage, saveServerTemplateToStorage, saveStorageConfig } from './storage';
+import { clearSyncState, errorMessage, flushSyncQueue, getLoadError, getSyncState, loadPriceBooks, loadProjects, loadServerTemplates, queueProjectDelete, queueProjectSave, readSyncQueue, resolveConflict, resolveDeletedConflict } from './sync';
+import { applyMerge, diffProjects, summarizeMergeValue } from './merge';
+import { buildQuotation, formatQuoteAmount, getQuotationSettings } from './quotation';
+import { exportProjectToExcel } from './excelExport';
+import { QUOTE_PERCENTILE_LABELS, hasThreePointEstimates, normalizeEstimate, pertStdDev, runMonteCarlo, withEstimate } from './estimation';
+import { calculateOverhead, calculateOverheadCost, describeOverheadRule, getOverheadMandays, getOverheadRules } from './overhead';
+import { buildWbsTree, flattenWbs, getAncestorIds, getDescendantIds, getLeafLabors, indentLabor, insertLaborChild, outdentLabor, removeLaborSubtree } from './wbs';
+import { addDays, calendarDaysBetween, formatScheduleDate, getPredecessorCandidates, getScheduleSettings, scheduleProject } from './schedule';
+import { assignTask, calculateUtilisation, createTeamMember, renameTeamMember } from './capacity';
+import { createRoleCode, getRoleName, getRoles, getUsedRoleCodes, renameRoleCode } from './roles';
+import { buildBurnUp, calculateEarnedValue, getActualMandays, getMandayVariance, getPercentComplete, getWeightedProgress } from './earnedValue';
+import { applyLane, getBoardSettings, getLaneKey, getSwimlanes, moveTask, recordTaskHistory, sortBoardColumn } from './kanban';
+import { buildCalendarEvents, exportCalendarToIcs, getMonthGrid, getWeekDates, shiftMonth } from './calendar';
+import { buildUrlSearch, getAssigneeKey, getServerSortValue, getTaskSortValue, hasJournalFilters, hasServerFilters, hasTaskFilters, matchesJournalFilters, matchesServerFilters, matchesTaskFilters, readUrlState, sortItems, toggleSort } from './filters';
+import { calculateRiskReserve, createRisk, getRiskExposure, isRiskOpen } from './risks';
+import { actionToTask, createActionItem, getActionTask, getJournalBacklinks, getMinutesProgress, setActionOwner } from './minutes';
+import { parseMarkdown } from './markdown';
+import { MAX_ATTACHMENT_BYTES, addAttachment, formatFileSize, getAttachmentUrl, isLocalAttachment, pushLocalAttachment, removeAttachment } from './attachments';
+import { getAllServerTemplates, instantiateStack, instantiateTemplate, templateFromServer } from './serverTemplates';
+import { BUILT_IN_LINT_RULES, LINT_METRIC_LABELS, LINT_OPERATOR_LABELS, LINT_SEVERITY_LABELS, SEVERITY_ORDER, getServerFindings, lintServers } from './infraLint';
+import { addScenario, compareScenarios, deleteScenario, getActiveScenarioId, getScenarioProject, getScenarios, switchScenario, updateScenario } from './scenarios';
+import { addPriceBookVersion, applyPriceBookVersion, createPriceBook, diffRepricing, findPriceBookVersion, getEffectiveVersion, hasLocalPriceOverrides } from './priceBooks';
 import { analyzeArchitecture, predictTaskMandays } from './geminiService';
 
-type Tab = 'overview' | 'mandays' | 'board' | 'infra' | 'journal' | 'settings';
+type Tab = 'overview' | 'mandays' | 'board' | 'gantt' | 'calendar' | 'team' | 'tracking' | 'risks' | 'infra' | 'scenarios' | 'journal' | 'settings';
+const TABS: Tab[] = ['overview', 'mandays', 'board', 'gantt', 'calendar', 'team', 'tracking', 'risks', 'infra', 'scenarios', 'journal', 'settings'];
+
+type FacetKey = 'roles' | 'statuses' | 'priorities' | 'assignees' | 'categories' | 'os' | 'storageTypes';
+interface Facet { key: FacetKey, label: string, options: { value: string, label: string }[] }
+
+const TASK_SORT_LABELS: { [key in TaskSortKey]: string } = { taskName: 'Tên', role: 'Vai trò', mandays: 'Số công', cost: 'Chi phí', status: 'Trạng thái', priority: 'Độ ưu tiên', dueDate: 'Hạn hoàn thành' };
+const SERVER_SORT_LABELS: { [key in ServerSortKey]: string } = { content: 'Tên VM', category: 'Loại', os: 'Hệ điều hành', quantity: 'Số lượng', monthlyCost: 'Chi phí/tháng' };
 
 const PriorityBadge: React.FC<{ priority: Priority }> = ({ priority }) => {
   const colors = {
@@ -18,6 +49,175 @@ const PriorityBadge: React.FC<{ priority: Priority }> = ({ priority }) => {
   return <span className={`px-2 py-0.5 rounded-full text-[9px] font-black uppercase ${colors[priority]}`}>{priority}</span>;
 };
 
+const STATUS_DOT_COLORS: { [key in TaskStatus]: string } = {
+  [TaskStatus.Todo]: 'bg-slate-300',
+  [TaskStatus.Doing]: 'bg-indigo-500',
+  [TaskStatus.Review]: 'bg-amber-400',
+  [TaskStatus.Done]: 'bg-emerald-500'
+};
+
+const SYNC_STATE_DOTS: { [key in SyncState]: string } = {
+  local: 'bg-slate-500',
+  synced: 'bg-emerald-400',
+  pending: 'bg-amber-400',
+  syncing: 'bg-indigo-400 animate-pulse',
+  offline: 'bg-slate-400',
+  error: 'bg-red-400',
+  conflict: 'bg-red-500 animate-pulse',
+  localCopy: 'bg-amber-500'
+};
+
+// Price books and server templates are not queued: the local copy keeps them, the user has to retry.
+const alertRemoteSaveError = (e: unknown) => alert(`Đã cập nhật trên máy nhưng chưa lưu được lên máy chủ: ${errorMessage(e)}`);
+
+const KanbanCard: React.FC<{ task: LaborItem, dragging: boolean, onOpen: () => void, onDragStart: () => void, onDragEnd: () => void, onDrop: () => void }> = ({ task, dragging, onOpen, onDragStart, onDragEnd, onDrop }) => (
+  <div
+    draggable
+    onClick={onOpen}
+    onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; onDragStart(); }}
+    onDragEnd={onDragEnd}
+    onDragOver={(e) => e.preventDefault()}
+    onDrop={(e) => { e.preventDefault(); e.stopPropagation(); onDrop(); }}
+    className={`bg-white p-5 rounded-2xl shadow-sm border border-slate-100 hover:shadow-md transition-all cursor-grab active:cursor-grabbing ${dragging ? 'opacity-40' : ''}`}
+  >
+    <div className="flex justify-between items-start mb-3">
+      <PriorityBadge priority={task.priority} />
+      {task.dueDate && <span className="text-[9px] font-bold text-slate-400">{task.dueDate.split('-').reverse().join('/')}</span>}
+    </div>
+    <h5 className="font-bold text-xs text-slate-800 mb-2 leading-snug">{task.taskName}</h5>
+    <p className="text-[10px] text-slate-400 line-clamp-2">{task.description || "Không có mô tả."}</p>
+    <div className="flex items-center justify-between mt-4">
+      <span className="text-[10px] text-slate-400 font-bold truncate">{task.assignee || 'Chưa giao'}</span>
+      <span className="text-[10px] font-black text-indigo-400">{task.mandays} MD</span>
+    </div>
+  </div>
+);
+
+const SortHeader: React.FC<{ label: string, active?: SortOrder<string>, sortKey: string, onClick: () => void, className?: string }> = ({ label, active, sortKey, onClick, className }) => (
+  <th className={className}>
+    <button onClick={onClick} className={`uppercase font-black hover:text-indigo-600 ${active?.key === sortKey ? 'text-indigo-600' : ''}`}>{label}{active?.key === sortKey ? (active.desc ? ' ↓' : ' ↑') : ''}</button>
+  </th>
+);
+
+const FilterBar: React.FC<{
+  filters: ViewFilters,
+  onChange: (updates: Partial<ViewFilters>) => void,
+  facets: Facet[],
+  showOverdue?: boolean,
+  sortLabels: { [key: string]: string },
+  sort?: SortOrder<string>,
+  onSortChange: (sort?: SortOrder<string>) => void,
+  shown: number,
+  total: number,
+  views: SavedView[],
+  activeViewId: string | null,
+  onSelectView: (id: string | null) => void,
+  onSaveView: () => void,
+  onDeleteView: (id: string) => void,
+  onCopyLink: () => void
+}> = ({ filters, onChange, facets, showOverdue, sortLabels, sort, onSortChange, shown, total, views, activeViewId, onSelectView, onSaveView, onDeleteView, onCopyLink }) => (
+  <div className="bg-white rounded-3xl border border-slate-200 shadow-sm p-4 space-y-3">
+    <div className="flex flex-wrap items-center gap-2">
+      <input className="flex-1 min-w-[180px] bg-slate-50 rounded-xl px-4 py-2 text-xs font-bold outline-none focus:ring-1 focus:ring-indigo-200" placeholder="Tìm kiếm..." value={filters.query} onChange={(e) => onChange({ query: e.target.value })} />
+      <select className="text-xs font-bold bg-slate-50 rounded-xl px-3 py-2 outline-none" value={activeViewId || ''} onChange={(e) => onSelectView(e.target.value || null)}>
+        <option value="">— View đã lưu —</option>
+        {views.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+      </select>
+      {activeViewId && <button onClick={() => onDeleteView(activeViewId)} className="text-[10px] font-black text-red-300 hover:text-red-500">Xóa view</button>}
+      <button onClick={onSaveView} className="text-[10px] font-black text-indigo-600 hover:text-indigo-500">Lưu view</button>
+      <button onClick={onCopyLink} className="text-[10px] font-black text-slate-400 hover:text-indigo-600">Sao chép liên kết</button>
+    </div>
+    <div className="flex flex-wrap items-center gap-2 text-[10px]">
+      {facets.map(facet => (
+        <React.Fragment key={facet.key}>
+          {(filters[facet.key] as string[]).map(value => (
+            <span key={value} className="bg-indigo-50 text-indigo-600 font-bold rounded-full px-2 py-0.5">
+              {facet.label}: {facet.options.find(o => o.value === value)?.label ?? value}
+              <button onClick={() => onChange({ [facet.key]: (filters[facet.key] as string[]).filter(v => v !== value) })} className="ml-1 text-indigo-300 hover:text-red-500">×</button>
+            </span>
+          ))}
+          <select className="font-bold text-slate-400 bg-transparent outline-none" value="" onChange={(e) => onChange({ [facet.key]: [...(filters[facet.key] as string[]), e.target.value] })}>
+            <option value="">{facet.label}...</option>
+            {facet.options.filter(o => !(filters[facet.key] as string[]).includes(o.value)).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </React.Fragment>
+      ))}
+      {showOverdue && (
+        <button onClick={() => onChange({ overdueOnly: !filters.overdueOnly })} className={`font-bold rounded-full px-2 py-0.5 ${filters.overdueOnly ? 'bg-red-100 text-red-600' : 'text-slate-400 hover:text-red-500'}`}>Quá hạn</button>
+      )}
+      <span className="ml-auto" />
+      {Object.keys(sortLabels).length > 0 && <span className="flex items-center gap-1 text-slate-400 font-bold">
+        Sắp xếp
+        <select className="bg-transparent outline-none text-slate-600" value={sort?.key || ''} onChange={(e) => onSortChange(e.target.value ? { key: e.target.value, desc: sort?.desc || false } : undefined)}>
+          <option value="">Mặc định</option>
+          {Object.entries(sortLabels).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+        </select>
+        {sort && <button onClick={() => onSortChange({ ...sort, desc: !sort.desc })} className="text-slate-600">{sort.desc ? '↓' : '↑'}</button>}
+      </span>}
+      <span className="text-slate-400 font-bold">{shown}/{total}</span>
+      <button onClick={() => { onChange({ ...EMPTY_VIEW_FILTERS, taskSort: undefined, serverSort: undefined }); onSelectView(null); }} className="font-black text-slate-400 hover:text-slate-700">Xóa lọc</button>
+    </div>
+  </div>
+);
+
+const CALENDAR_EVENT_STYLES: { [key in CalendarEvent['kind']]: string } = {
+  task: 'bg-indigo-50 text-indigo-700',
+  milestone: 'bg-amber-100 text-amber-700',
+  meeting: 'bg-emerald-50 text-emerald-700'
+};
+
+const CalendarChip: React.FC<{ event: CalendarEvent, onClick?: () => void }> = ({ event, onClick }) => (
+  <button onClick={onClick} title={`${CALENDAR_EVENT_LABELS[event.kind]}: ${event.title}${event.overdue ? ' (quá hạn)' : ''}`} className={`block w-full text-left truncate rounded-md px-1.5 py-0.5 text-[10px] font-bold ${event.overdue ? 'bg-red-100 text-red-700 ring-1 ring-red-300' : CALENDAR_EVENT_STYLES[event.kind]} ${onClick ? 'hover:opacity-80' : 'cursor-default'}`}>
+    {event.kind === 'milestone' ? '◆ ' : event.kind === 'meeting' ? '● ' : ''}{event.title}
+  </button>
+);
+
+const MarkdownInlines: React.FC<{ nodes: MarkdownInline[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((n, i) => {
+      if (n.type === 'text') return <React.Fragment key={i}>{n.text}</React.Fragment>;
+      if (n.type === 'code') return <code key={i} className="bg-slate-100 text-pink-600 rounded px-1 font-mono text-[11px]">{n.text}</code>;
+      if (n.type === 'strong') return <strong key={i} className="font-black text-slate-800"><MarkdownInlines nodes={n.children} /></strong>;
+      if (n.type === 'em') return <em key={i}><MarkdownInlines nodes={n.children} /></em>;
+      if (n.type === 'image') return <img key={i} src={n.src} alt={n.alt} className="max-w-full rounded-xl border border-slate-100 my-1" />;
+      return <a key={i} href={n.href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 font-bold hover:underline"><MarkdownInlines nodes={n.children} /></a>;
+    })}
+  </>
+);
+
+const MARKDOWN_HEADING_STYLES = ['text-base font-black', 'text-sm font-black', 'text-xs font-black uppercase tracking-wide'];
+
+const MarkdownView: React.FC<{ source: string }> = ({ source }) => (
+  <div className="space-y-2 text-xs text-slate-600 leading-relaxed">
+    {parseMarkdown(source).map((b, i) => {
+      if (b.type === 'heading') return <p key={i} className={`${MARKDOWN_HEADING_STYLES[Math.min(b.level, 3) - 1]} text-slate-800`}><MarkdownInlines nodes={b.children} /></p>;
+      if (b.type === 'paragraph') return <p key={i} className="whitespace-pre-line"><MarkdownInlines nodes={b.children} /></p>;
+      if (b.type === 'quote') return <blockquote key={i} className="border-l-4 border-indigo-100 pl-3 italic text-slate-500 whitespace-pre-line"><MarkdownInlines nodes={b.children} /></blockquote>;
+      if (b.type === 'code') return <pre key={i} className="bg-slate-900 text-slate-100 rounded-xl p-3 overflow-x-auto font-mono text-[11px]">{b.text}</pre>;
+      if (b.type === 'hr') return <hr key={i} className="border-slate-100" />;
+      const ListTag = b.ordered ? 'ol' : 'ul';
+      return (
+        <ListTag key={i} className={`${b.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-0.5`}>
+          {b.items.map((item, k) => (
+            <li key={k} className={item.checked !== undefined ? 'list-none -ml-5' : ''}>
+              {item.checked !== undefined && <input type="checkbox" checked={item.checked} readOnly className="mr-1.5 align-middle accent-indigo-600" />}
+              <MarkdownInlines nodes={item.children} />
+            </li>
+          ))}
+        </ListTag>
+      );
+    })}
+  </div>
+);
+
+const JournalLinks: React.FC<{ entries: JournalEntry[], onOpen: (id: string) => void }> = ({ entries, onOpen }) => entries.length === 0 ? null : (
+  <div className="flex flex-wrap gap-1 mt-1">
+    {entries.map(j => (
+      <button key={j.id} onClick={() => onOpen(j.id)} title={`${j.type} · ${j.date}`} className="text-[9px] font-bold bg-violet-50 text-violet-600 rounded-full px-2 py-0.5 hover:bg-violet-100 max-w-[12rem] truncate">✎ {j.title}</button>
+    ))}
+  </div>
+);
+
 const NavItem: React.FC<{ id: Tab, label: string, icon: React.ReactNode, activeTab: Tab, onClick: (id: Tab) => void }> = ({ id, label, icon, activeTab, onClick }) => (
   <button
     onClick={() => onClick(id)}
@@ -38,56 +238,265 @@ const PriceRow: React.FC<{ label: string, value: number, onChange: (val: number)
   </div>
 );
 
+const RoleRow: React.FC<{ role: RoleDefinition, rate: number, inUse: boolean, onChange: (updates: Partial<RoleDefinition>) => void, onRename: (code: string) => void, onRateChange: (rate: number) => void, onDelete: () => void }> = ({ role, rate, inUse, onChange, onRename, onRateChange, onDelete }) => (
+  <div className="py-2 border-b border-slate-100 last:border-0 group">
+    <div className="flex items-center justify-between gap-2">
+      <input className="flex-1 min-w-0 bg-transparent text-[11px] font-semibold text-slate-600 outline-none focus:text-indigo-600" value={role.name} onChange={(e) => onChange({ name: e.target.value })} />
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <input type="number" className="w-24 md:w-32 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-black text-right focus:bg-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" value={rate || 0} onChange={(e) => onRateChange(parseFloat(e.target.value) || 0)} />
+        <span className="text-[9px] text-slate-400 font-bold w-10 uppercase">VND</span>
+        <button onClick={onDelete} disabled={inUse} className="text-red-300 hover:text-red-500 disabled:text-slate-200 text-xs" title={inUse ? 'Vai trò đang được dùng trong dự án' : 'Xóa vai trò'}>×</button>
+      </div>
+    </div>
+    <div className="flex items-center gap-2 mt-1 text-[9px] text-slate-400">
+      <span className="font-bold">Mã</span>
+      <input key={role.code} className="w-28 bg-transparent font-mono outline-none focus:text-indigo-600" defaultValue={role.code} onBlur={(e) => { const code = e.target.value.trim(); if (code && code !== role.code) onRename(code); else e.target.value = role.code; }} />
+      <span className="font-bold">Tên khác khi nhập</span>
+      <input key={role.aliases.join(',')} className="flex-1 min-w-0 bg-transparent outline-none focus:text-indigo-600" placeholder="vd: devops, sre" defaultValue={role.aliases.join(', ')} onBlur={(e) => onChange({ aliases: e.target.value.split(',').map(a => a.trim()).filter(Boolean) })} />
+    </div>
+  </div>
+);
+
+const DiscountInput: React.FC<{ discount?: Discount, onChange: (discount?: Discount) => void }> = ({ discount, onChange }) => (
+  <div className="flex items-center gap-1 flex-shrink-0">
+    <input type="number" min={0} className="w-20 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-black text-right outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500" value={discount?.value || 0} onChange={(e) => { const value = parseFloat(e.target.value) || 0; onChange(value > 0 ? { kind: discount?.kind || 'percent', value } : undefined); }} />
+    <select className="text-[10px] font-bold bg-slate-50 border border-slate-200 rounded-lg px-1 py-1 outline-none" value={discount?.kind || 'percent'} onChange={(e) => onChange({ kind: e.target.value as DiscountKind, value: discount?.value || 0 })}>
+      <option value="percent">%</option>
+      <option value="fixed">VNĐ</option>
+    </select>
+  </div>
+);
+
+const TierEditor: React.FC<{ tiered?: TieredRate, unit: string, onChange: (tiered?: TieredRate) => void }> = ({ tiered, unit, onChange }) => {
+  const tiers = tiered?.tiers || [];
+  const mode = tiered?.mode || 'graduated';
+  const update = (next: TieredRate['tiers']) => onChange(next.length > 0 ? { mode, tiers: next } : undefined);
+  return (
+    <div className="space-y-1">
+      {tiers.map((t, idx) => (
+        <div key={idx} className="flex items-center gap-1 text-[10px]">
+          <span className="text-slate-400">từ</span>
+          <input type="number" min={0} className="w-20 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 font-black text-right outline-none" value={t.from} onChange={(e) => update(tiers.map((x, i) => i === idx ? { ...x, from: parseFloat(e.target.value) || 0 } : x))} />
+          <span className="text-slate-400">{unit} →</span>
+          <input type="number" min={0} className="w-24 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 font-black text-right outline-none" value={t.rate} onChange={(e) => update(tiers.map((x, i) => i === idx ? { ...x, rate: parseFloat(e.target.value) || 0 } : x))} />
+          <button onClick={() => update(tiers.filter((_, i) => i !== idx))} className="text-red-300 hover:text-red-500 px-1">×</button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <button onClick={() => update([...tiers, { from: tiers.length > 0 ? tiers[tiers.length - 1].from * 2 || 100 : 100, rate: tiers.length > 0 ? tiers[tiers.length - 1].rate : 0 }])} className="text-[10px] font-black text-indigo-600 hover:underline">+ Thêm bậc</button>
+        {tiers.length > 0 && (
+          <select className="text-[10px] font-bold bg-slate-50 border border-slate-200 rounded-lg px-1 py-0.5 outline-none" value={mode} onChange={(e) => onChange({ mode: e.target.value as TierMode, tiers })}>
+            {(Object.keys(TIER_MODE_LABELS) as TierMode[]).map(m => <option key={m} value={m}>{TIER_MODE_LABELS[m]}</option>)}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const DeltaBadge: React.FC<{ value: number }> = ({ value }) => {
+  if (Math.abs(value) < 0.5) return null;
+  return <span className={`block text-[9px] font-black ${value > 0 ? 'text-red-500' : 'text-emerald-600'}`}>{value > 0 ? '+' : '-'}{formatCurrency(Math.abs(value))}</span>;
+};
+
+const SEVERITY_STYLES: { [key in LintSeverity]: string } = {
+  error: 'bg-red-100 text-red-600',
+  warning: 'bg-amber-100 text-amber-700',
+  info: 'bg-sky-100 text-sky-700'
+};
+
+const LintBadge: React.FC<{ findings: LintFinding[] }> = ({ findings }) => {
+  if (findings.length === 0) return null;
+  const worst = [...findings].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])[0].severity;
+  return <span title={findings.map(f => `${LINT_SEVERITY_LABELS[f.severity]}: ${f.message}`).join('\n')} className={`inline-block text-[9px] font-black px-1.5 py-0.5 rounded-md cursor-help ${SEVERITY_STYLES[worst]}`}>{findings.length} {LINT_SEVERITY_LABELS[worst].toLowerCase()}</span>;
+};
+
+const QuotePercentileSelect: React.FC<{ value?: QuotePercentile, onChange: (value?: QuotePercentile) => void, className?: string }> = ({ value, onChange, className }) => (
+  <select className={className || 'text-[11px] font-black bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none'} value={value || ''} onChange={(e) => onChange((e.target.value || undefined) as QuotePercentile | undefined)}>
+    <option value="">Ước lượng điểm</option>
+    {(Object.keys(QUOTE_PERCENTILE_LABELS) as QuotePercentile[]).map(p => <option key={p} value={p}>{QUOTE_PERCENTILE_LABELS[p]}</option>)}
+  </select>
+);
+
+const BurnUpChart: React.FC<{ points: BurnUpPoint[], asOf: string }> = ({ points, asOf }) => {
+  if (points.length < 2) return <p className="text-xs text-slate-400 italic">Chưa đủ dữ liệu để vẽ biểu đồ.</p>;
+  const width = 600, height = 200, pad = 24;
+  const max = Math.max(1, ...points.map(p => Math.max(p.scope, p.planned, p.actual || 0)));
+  const start = new Date(points[0].date).getTime();
+  const span = Math.max(1, new Date(points[points.length - 1].date).getTime() - start);
+  const x = (date: string) => pad + (new Date(date).getTime() - start) / span * (width - 2 * pad);
+  const y = (value: number) => height - pad - value / max * (height - 2 * pad);
+  const line = (values: { date: string, value: number }[]) => values.map(v => `${x(v.date)},${y(v.value)}`).join(' ');
+  const actual = points.filter(p => p.actual !== null).map(p => ({ date: p.date, value: p.actual! }));
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      <line x1={pad} x2={width - pad} y1={y(points[0].scope)} y2={y(points[0].scope)} stroke="#cbd5e1" strokeDasharray="4 4" />
+      <polyline fill="none" stroke="#818cf8" strokeWidth="2" strokeDasharray="6 3" points={line(points.map(p => ({ date: p.date, value: p.planned })))} />
+      {actual.length > 0 && <polyline fill="none" stroke="#10b981" strokeWidth="2.5" points={line(actual)} />}
+      {asOf >= points[0].date && asOf <= points[points.length - 1].date && <line x1={x(asOf)} x2={x(asOf)} y1={pad / 2} y2={height - pad} stroke="#f59e0b" strokeWidth="1" />}
+      <text x={pad} y={height - 6} fontSize="9" fill="#94a3b8">{points[0].date.split('-').reverse().join('/')}</text>
+      <text x={width - pad} y={height - 6} fontSize="9" fill="#94a3b8" textAnchor="end">{points[points.length - 1].date.split('-').reverse().join('/')}</text>
+      <text x={pad} y={y(points[0].scope) - 4} fontSize="9" fill="#94a3b8">{points[0].scope.toFixed(1)} MD</text>
+    </svg>
+  );
+};
+
+const ConfigDiagnostics: React.FC<{ raw: string, diagnostics: ConfigDiagnostic[] }> = ({ raw, diagnostics }) => {
+  if (diagnostics.length === 0) return null;
+  const spans = diagnostics.filter(d => d.end > d.start && d.end - d.start < raw.length).sort((a, b) => a.start - b.start);
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((d, idx) => {
+    if (d.start < cursor) return;
+    if (d.start > cursor) segments.push(<span key={`t${idx}`}>{raw.slice(cursor, d.start)}</span>);
+    segments.push(<mark key={`m${idx}`} title={d.message} className={`rounded px-0.5 ${d.severity === 'error' ? 'bg-red-100 text-red-600' : 'bg-amber-100 text-amber-700'}`}>{raw.slice(d.start, d.end)}</mark>);
+    cursor = d.end;
+  });
+  if (cursor < raw.length) segments.push(<span key="rest">{raw.slice(cursor)}</span>);
+  return (
+    <div className="mt-1.5 space-y-0.5">
+      {spans.length > 0 && <p className="text-[10px] font-mono text-slate-400 whitespace-pre-wrap">{segments}</p>}
+      {diagnostics.map((d, idx) => (
+        <p key={idx} className={`text-[9px] font-bold ${d.severity === 'error' ? 'text-red-500' : 'text-amber-600'}`}>{d.severity === 'error' ? 'Lỗi' : 'Cảnh báo'}: {d.message}</p>
+      ))}
+    </div>
+  );
+};
+
+const VolumeList: React.FC<{ volumes: StorageVolume[], onChange: (volumes: StorageVolume[]) => void }> = ({ volumes, onChange }) => (
+  <div className="space-y-1">
+    {volumes.map(v => (
+      <div key={v.id} className="flex items-center gap-1 group/vol">
+        <input className="w-14 bg-transparent text-[10px] font-bold text-slate-500 outline-none focus:text-indigo-600" value={v.label} onChange={(e) => onChange(volumes.map(x => x.id === v.id ? {...x, label: e.target.value} : x))} />
+        <input type="number" className="w-16 bg-slate-100 rounded-lg px-1 py-0.5 text-[10px] font-bold text-right outline-none" value={v.sizeGb} onChange={(e) => onChange(volumes.map(x => x.id === v.id ? {...x, sizeGb: parseFloat(e.target.value) || 0} : x))} />
+        <span className="text-[9px] text-slate-400 font-bold">GB</span>
+        <select className="text-[9px] font-bold text-slate-500 bg-transparent outline-none" value={v.storageType} onChange={(e) => onChange(volumes.map(x => x.id === v.id ? {...x, storageType: e.target.value as StorageType} : x))}>
+          {(Object.keys(STORAGE_TYPE_LABELS) as StorageType[]).map(t => <option key={t} value={t}>{STORAGE_TYPE_LABELS[t]}</option>)}
+        </select>
+        <button onClick={() => onChange(volumes.filter(x => x.id !== v.id))} className="text-red-300 hover:text-red-500 opacity-0 group-hover/vol:opacity-100 text-[10px]">×</button>
+      </div>
+    ))}
+    <button onClick={() => onChange([...volumes, { id: 'v' + Date.now(), label: volumes.length === 0 ? 'OS' : 'Data', sizeGb: 100, storageType: 'diskSanAllFlash' }])} className="text-[9px] font-black text-indigo-400 hover:text-indigo-600">+ Volume</button>
+  </div>
+);
+
+const getDefaultPricing = (books: PriceBook[]): Partial<Project> => {
+  const book = books[0];
+  const version = book ? getEffectiveVersion(book) : null;
+  return book && version ? applyPriceBookVersion(book, version) : {};
+};
+
 const App: React.FC = () => {
+  const [initialUrl] = useState(() => readUrlState(window.location.search));
   const [projects, setProjects] = useState<Project[]>([]);
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<Tab>('overview');
+  const [activeTab, setActiveTab] = useState<Tab>(TABS.includes(initialUrl.tab as Tab) ? initialUrl.tab as Tab : 'overview');
+  const [filters, setFilters] = useState<ViewFilters>(initialUrl.filters);
+  const [activeViewId, setActiveViewId] = useState<string | null>(initialUrl.viewId);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isEstimatingAll, setIsEstimatingAll] = useState(false);
   const [analysis, setAnalysis] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [isPushing, setIsPushing] = useState(false);
+  const [, setSyncTick] = useState(0);
+  const [mergeConflict, setMergeConflict] = useState<SyncConflict | null>(null);
+  const [mergeChoices, setMergeChoices] = useState<Record<string, MergeChoice>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [showQuotation, setShowQuotation] = useState(false);
+  const [expandedServerIds, setExpandedServerIds] = useState<string[]>([]);
+  const [collapsedLaborIds, setCollapsedLaborIds] = useState<string[]>([]);
+  const [dragTaskId, setDragTaskId] = useState<string | null>(null);
+  const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
+  const [calendarMode, setCalendarMode] = useState<'month' | 'week'>('month');
+  const [calendarAnchor, setCalendarAnchor] = useState(new Date().toISOString().split('T')[0]);
+  const [calendarAssignee, setCalendarAssignee] = useState<string | null>(null);
+  const [storageDraft, setStorageDraft] = useState<StorageConfig>(getStorageConfig);
+  const [copyOnStorageSwitch, setCopyOnStorageSwitch] = useState(true);
+  const [storageStatus, setStorageStatus] = useState<{ ok: boolean, message: string } | null>(null);
+  const [journalFilters, setJournalFilters] = useState<JournalFilters>(EMPTY_JOURNAL_FILTERS);
+  const [editingEntryIds, setEditingEntryIds] = useState<string[]>([]);
+  const [focusEntryId, setFocusEntryId] = useState<string | null>(null);
+  const [uploadingEntryId, setUploadingEntryId] = useState<string | null>(null);
+  const [actualDraft, setActualDraft] = useState<(Omit<ActualEntry, 'id'> & { taskId: string }) | null>(null);
+  const [priceBooks, setPriceBooks] = useState<PriceBook[]>([]);
+  const [repriceTarget, setRepriceTarget] = useState<{ book: PriceBook, version: PriceBookVersion } | null>(null);
+  const [newVersionDate, setNewVersionDate] = useState(new Date().toISOString().split('T')[0]);
+  const [serverTemplates, setServerTemplates] = useState<ServerTemplate[]>([]);
+  const [showTemplateLibrary, setShowTemplateLibrary] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const init = async () => {
       try {
         setIsLoading(true);
-        const data = await fetchProjectsFromCloud();
+        let books = await loadPriceBooks();
+        if (books.length === 0) {
+          const defaultBook = createPriceBook('Bảng giá chuẩn');
+          books = [defaultBook];
+          await savePriceBookToStorage(defaultBook).catch(alertRemoteSaveError);
+        }
+        setPriceBooks(books);
+        setServerTemplates(await loadServerTemplates());
+        const data = await loadProjects();
         if (data && data.length > 0) {
           setProjects(data);
-          setCurrentProjectId(data[0].id);
+          setCurrentProjectId(data.find(p => p.id === initialUrl.projectId)?.id || data[0].id);
         } else {
-          const first: Project = { id: 'p1', name: 'Dự án Mẫu', servers: INITIAL_SERVERS, labors: INITIAL_LABOR_ITEMS, journal: INITIAL_JOURNAL, infraPrices: INITIAL_UNIT_PRICES, laborPrices: INITIAL_LABOR_PRICES, createdAt: Date.now(), lastModified: Date.now() };
+          const first: Project = { id: 'p1', name: 'Dự án Mẫu', servers: INITIAL_SERVERS, labors: INITIAL_LABOR_ITEMS, journal: INITIAL_JOURNAL, infraPrices: INITIAL_UNIT_PRICES, billingCycles: INITIAL_BILLING_CYCLES, laborPrices: INITIAL_LABOR_PRICES, quotationSettings: INITIAL_QUOTATION_SETTINGS, createdAt: Date.now(), lastModified: Date.now(), ...getDefaultPricing(books) };
           setProjects([first]);
           setCurrentProjectId('p1');
-          await saveProjectToCloud(first);
+          await queueProjectSave(first);
         }
       } catch (error) { console.error(error); } finally { setIsLoading(false); }
+      runSync();
     };
     init();
   }, []);
 
+  useEffect(() => {
+    const retry = window.setInterval(() => { if (readSyncQueue().some(e => !e.conflict && e.nextAttemptAt <= Date.now())) runSync(); }, 15000);
+    const onOnline = () => runSync(true);
+    const onOffline = () => setSyncTick(t => t + 1);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.clearInterval(retry);
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }, []);
+
   const currentProject = useMemo(() => projects.find(p => p.id === currentProjectId) || null, [projects, currentProjectId]);
 
+  useEffect(() => {
+    if (isLoading) return;
+    const search = buildUrlSearch({ projectId: currentProjectId, tab: activeTab, viewId: activeViewId, filters });
+    if (search !== window.location.search) window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`);
+  }, [isLoading, currentProjectId, activeTab, activeViewId, filters]);
+
+  useEffect(() => {
+    if (activeTab === 'journal' && focusEntryId) document.getElementById(`journal-${focusEntryId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeTab, focusEntryId]);
+
   const updateProject = (updates: Partial<Project>) => {
     if (!currentProjectId || !currentProject) return;
-    const updated = { ...currentProject, ...updates, lastModified: Date.now() };
+    // Scenario switches swap in another copy of the tasks; that is not an edit to them.
+    const labors = updates.labors && !('activeScenarioId' in updates) ? recordTaskHistory(currentProject.labors, updates.labors) : updates.labors;
+    const updated = { ...currentProject, ...updates, ...(labors ? { labors } : {}), lastModified: Date.now() };
     setProjects(prev => prev.map(p => p.id === currentProjectId ? updated : p));
   };
 
   const projectStats = useMemo(() => {
     if (!currentProject) return { progress: 0, todo: 0, doing: 0, review: 0, done: 0, total: 0 };
-    const tasks = currentProject.labors;
+    const tasks = getLeafLabors(currentProject.labors);
     const total = tasks.length;
     if (total === 0) return { progress: 0, todo: 0, doing: 0, review: 0, done: 0, total: 0 };
     const done = tasks.filter(t => t.status === TaskStatus.Done).length;
     const review = tasks.filter(t => t.status === TaskStatus.Review).length;
     const doing = tasks.filter(t => t.status === TaskStatus.Doing).length;
     const todo = tasks.filter(t => t.status === TaskStatus.Todo).length;
-    return { progress: Math.round((done / total) * 100), todo, doing, review, done, total };
+    return { progress: Math.round(getWeightedProgress(currentProject.labors)), todo, doing, review, done, total };
   }, [currentProject]);
 
   const milestones = useMemo(() => {
@@ -97,48 +506,364 @@ const App: React.FC = () => {
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
   }, [currentProject]);
 
-  const infraTotal = useMemo(() => currentProject ? (currentProject.servers || []).reduce((sum, s) => sum + calculateItemCost(s, currentProject.infraPrices).totalPrice, 0) : 0, [currentProject]);
-  const manualLaborTotal = useMemo(() => currentProject ? (currentProject.labors || []).reduce((sum, l) => sum + calculateLaborCost(l, currentProject.laborPrices), 0) : 0, [currentProject]);
-  
-  // Logic 1:3: 3 Dev thì 1 PM, 1 QC, 1 BA
-  const autoLaborStats = useMemo(() => {
-    if (!currentProject) return { pm: 0, ba: 0, qc: 0, devTotal: 0 };
-    const devMandays = currentProject.labors
-      .filter(l => l.role === Role.SeniorDev || l.role === Role.JuniorDev)
-      .reduce((sum, l) => sum + (l.mandays || 0), 0);
-    const ratio = 1 / 3;
-    return { 
-      devTotal: devMandays, 
-      pm: devMandays * ratio, 
-      ba: devMandays * ratio, 
-      qc: devMandays * ratio 
-    };
-  }, [currentProject]);
+  const journalEntries = useMemo(() => (currentProject?.journal || []).filter(j => matchesJournalFilters(j, journalFilters)), [currentProject, journalFilters]);
+
+  const roles = useMemo(() => getRoles(currentProject || undefined), [currentProject]);
+  const usedRoleCodes = useMemo(() => currentProject ? getUsedRoleCodes(currentProject) : new Set<string>(), [currentProject]);
+  const updateRole = (code: string, updates: Partial<RoleDefinition>) => updateProject({ roles: roles.map(r => r.code === code ? { ...r, ...updates } : r) });
+  const renameRole = (from: string, to: string) => {
+    if (roles.some(r => r.code === to)) { alert(`Mã vai trò "${to}" đã tồn tại.`); return; }
+    updateProject(renameRoleCode(currentProject!, from, to));
+  };
+
+  const scenarios = useMemo(() => currentProject ? getScenarios(currentProject) : [], [currentProject]);
+  const activeScenarioId = currentProject ? getActiveScenarioId(currentProject, scenarios) : null;
+  const scenarioProject = useMemo(() => currentProject ? getScenarioProject(currentProject) : null, [currentProject]);
+  const scenarioComparison = useMemo(() => currentProject && scenarios.length > 1 ? compareScenarios(currentProject) : [], [currentProject, scenarios]);
+  const quoteOptions = useMemo(() => currentProject && (currentProject.quotationScenarioIds || []).length > 1 ? compareScenarios(currentProject, currentProject.quotationScenarioIds) : [], [currentProject]);
+
+  const lintFindings = useMemo(() => currentProject ? lintServers(currentProject.servers, currentProject.lintSettings) : [], [currentProject]);
+  const lintSettings: LintSettings = currentProject?.lintSettings || { disabledRules: [], customRules: [] };
+  const updateLintSettings = (updates: Partial<LintSettings>) => updateProject({ lintSettings: { ...lintSettings, ...updates } });
+  const updateCustomLintRule = (id: string, updates: Partial<CustomLintRule>) => updateLintSettings({ customRules: lintSettings.customRules.map(r => r.id === id ? { ...r, ...updates } : r) });
+
+  const pricing = useMemo(() => scenarioProject ? getProjectPricing(scenarioProject) : null, [scenarioProject]);
+  const contractSummary = useMemo(() => scenarioProject ? calculateContractSummary(scenarioProject) : { months: null, monthlyRunRate: 0, oneTimeTotal: 0, contractTotal: 0 }, [scenarioProject]);
+  const infraTotal = contractSummary.contractTotal;
+  const manualLaborTotal = useMemo(() => scenarioProject ? getLeafLabors(scenarioProject.labors || []).reduce((sum, l) => sum + calculateLaborCost(l, scenarioProject.laborPrices, scenarioProject.team), 0) : 0, [scenarioProject]);
   
-  const autoLaborTotal = useMemo(() => {
-    if (!currentProject) return 0;
-    const lp = currentProject.laborPrices;
-    return (autoLaborStats.pm * (lp[Role.PM] || 0)) + 
-           (autoLaborStats.ba * (lp[Role.BA] || 0)) + 
-           (autoLaborStats.qc * (lp[Role.QC] || 0));
-  }, [currentProject, autoLaborStats]);
+  const overheadRules = currentProject ? getOverheadRules(currentProject) : [];
+  const overheadLines = useMemo(() => scenarioProject ? calculateOverhead(scenarioProject.labors || [], getOverheadRules(scenarioProject), getRoles(scenarioProject)) : [], [scenarioProject]);
+  const autoLaborTotal = useMemo(() => scenarioProject ? calculateOverheadCost(overheadLines, scenarioProject.laborPrices) : 0, [scenarioProject, overheadLines]);
+  const updateOverheadRule = (id: string, updates: Partial<OverheadRule>) => updateProject({ overheadRules: overheadRules.map(r => r.id === id ? { ...r, ...updates } : r) });
   
-  const grandTotal = infraTotal + manualLaborTotal + autoLaborTotal;
+  const monteCarlo = useMemo(() => scenarioProject && hasThreePointEstimates(scenarioProject.labors || []) ? runMonteCarlo(scenarioProject) : null, [scenarioProject]);
+  const updateLaborEstimate = (id: string, estimate?: ThreePointEstimate) => updateProject({ labors: currentProject!.labors.map(item => item.id === id ? withEstimate(item, estimate) : item) });
+
+  const leafLabors = useMemo(() => currentProject ? getLeafLabors(currentProject.labors) : [], [currentProject]);
+  const laborMandays = leafLabors.reduce((sum, l) => sum + l.mandays, 0) + getOverheadMandays(overheadLines);
+  const wbsTree = useMemo(() => currentProject ? buildWbsTree(currentProject.labors, currentProject.laborPrices, currentProject.team) : [], [currentProject]);
+  const wbsRows = useMemo(() => flattenWbs(wbsTree, collapsedLaborIds), [wbsTree, collapsedLaborIds]);
+  const wbsCodes = useMemo(() => Object.fromEntries(flattenWbs(wbsTree).map(n => [n.item.id, n.code])), [wbsTree]);
+  const addLaborChild = (parentId: string) => {
+    updateProject({ labors: insertLaborChild(currentProject!.labors, parentId, { id: 'l'+Date.now(), taskName: 'Task mới', role: Role.JuniorDev, mandays: 1, description: '', status: TaskStatus.Todo, priority: Priority.Medium, assignee: '', dueDate: '' }) });
+    setCollapsedLaborIds(prev => prev.filter(id => id !== parentId));
+  };
+
+  const schedule = useMemo(() => currentProject ? scheduleProject(currentProject) : null, [currentProject]);
+  const scheduleSettings = currentProject ? getScheduleSettings(currentProject) : null;
+  const updateScheduleSettings = (updates: Partial<ScheduleSettings>) => updateProject({ scheduleSettings: { ...scheduleSettings!, ...updates } });
+  const updateLabor = (id: string, updates: Partial<LaborItem>) => updateProject({ labors: currentProject!.labors.map(item => item.id === id ? { ...item, ...updates } : item) });
+
+  const team = currentProject?.team || [];
+  const utilisation = useMemo(() => currentProject && schedule ? calculateUtilisation(currentProject, schedule) : [], [currentProject, schedule]);
+  const updateTeamMember = (id: string, updates: Partial<TeamMember>) => {
+    const member = team.find(m => m.id === id)!;
+    updateProject({
+      team: team.map(m => m.id === id ? { ...m, ...updates } : m),
+      ...(updates.name !== undefined ? { labors: renameTeamMember(currentProject!.labors, member, updates.name) } : {})
+    });
+  };
+  const earnedValue = useMemo(() => currentProject && schedule ? calculateEarnedValue(currentProject, schedule) : null, [currentProject, schedule]);
+  const burnUp = useMemo(() => currentProject && schedule ? buildBurnUp(currentProject, schedule) : [], [currentProject, schedule]);
+  const today = new Date().toISOString().split('T')[0];
+
+  const calendarEvents = useMemo(() => currentProject ? buildCalendarEvents(currentProject, today) : [], [currentProject, today]);
+  // The assignee filter narrows tasks only; milestones and meetings concern the whole team.
+  const shownCalendarEvents = calendarAssignee === null ? calendarEvents : calendarEvents.filter(e => e.kind !== 'task' || e.assigneeKey === calendarAssignee);
+  const calendarDates = calendarMode === 'month' ? getMonthGrid(calendarAnchor) : getWeekDates(calendarAnchor);
+  const shiftCalendar = (step: number) => setCalendarAnchor(calendarMode === 'month' ? shiftMonth(calendarAnchor, step) : addDays(calendarAnchor, step * 7));
+
+  const savedViews = currentProject?.savedViews || [];
+  const updateFilters = (updates: Partial<ViewFilters>) => setFilters(prev => ({ ...prev, ...updates }));
+  const selectProject = (id: string) => { setCurrentProjectId(id); setFilters(EMPTY_VIEW_FILTERS); setActiveViewId(null); };
+  const selectView = (id: string | null) => {
+    setActiveViewId(id);
+    const view = savedViews.find(v => v.id === id);
+    if (view) setFilters(view.filters);
+  };
+  const handleSaveView = () => {
+    const current = savedViews.find(v => v.id === activeViewId);
+    const name = (window.prompt('Tên view:', current?.name || '') || '').trim();
+    if (!name) return;
+    const existing = savedViews.find(v => v.name === name);
+    if (existing) {
+      updateProject({ savedViews: savedViews.map(v => v.id === existing.id ? { ...v, filters } : v) });
+      setActiveViewId(existing.id);
+    } else {
+      const view: SavedView = { id: 'vw' + Date.now(), name, filters };
+      updateProject({ savedViews: [...savedViews, view] });
+      setActiveViewId(view.id);
+    }
+  };
+  const handleDeleteView = (id: string) => {
+    if (!window.confirm('Xóa view này?')) return;
+    updateProject({ savedViews: savedViews.filter(v => v.id !== id) });
+    setActiveViewId(null);
+  };
+  const handleCopyViewLink = async () => {
+    try { await navigator.clipboard.writeText(window.location.href); alert('Đã sao chép liên kết.'); } catch (e) { window.prompt('Liên kết:', window.location.href); }
+  };
+  const taskFacets: Facet[] = [
+    { key: 'roles', label: 'Vai trò', options: roles.map(r => ({ value: r.code, label: r.name })) },
+    { key: 'statuses', label: 'Trạng thái', options: Object.values(TaskStatus).map(v => ({ value: v, label: v })) },
+    { key: 'priorities', label: 'Ưu tiên', options: Object.values(Priority).map(v => ({ value: v, label: v })) },
+    { key: 'assignees', label: 'Người', options: [
+      ...team.map(m => ({ value: m.id, label: m.name })),
+      ...Array.from(new Set(leafLabors.map(l => getAssigneeKey(l, team)).filter(k => k && !team.some(m => m.id === k)))).map(name => ({ value: name, label: `${name} (ngoài đội)` })),
+      { value: '', label: 'Chưa giao' }
+    ] }
+  ];
+  const serverFacets: Facet[] = [
+    { key: 'categories', label: 'Loại', options: Object.values(Category).map(v => ({ value: v, label: v })) },
+    { key: 'os', label: 'HĐH', options: Array.from(new Set<string>((currentProject?.servers || []).map(sv => sv.os).filter(Boolean))).map(v => ({ value: v, label: v })) },
+    { key: 'storageTypes', label: 'Lưu trữ', options: Object.entries(STORAGE_TYPE_LABELS).map(([value, label]) => ({ value, label })) }
+  ];
+  const filterBarProps = { filters, onChange: updateFilters, views: savedViews, activeViewId, onSelectView: selectView, onSaveView: handleSaveView, onDeleteView: handleDeleteView, onCopyLink: handleCopyViewLink };
+
+  const visibleLeaves = useMemo(() => leafLabors.filter(l => matchesTaskFilters(l, filters, team, roles, today)), [leafLabors, filters, team, roles, today]);
+  const mandaysRows = useMemo(() => {
+    if (filters.taskSort) {
+      const byId = new Map(flattenWbs(wbsTree).map(n => [n.item.id, n]));
+      const cost = (l: LaborItem) => byId.get(l.id)?.cost || 0;
+      return sortItems(visibleLeaves, filters.taskSort, (l: LaborItem, key: TaskSortKey) => getTaskSortValue(l, key, roles, cost)).map(l => ({ ...byId.get(l.id)!, depth: 0 }));
+    }
+    if (!hasTaskFilters(filters)) return wbsRows;
+    const shown = new Set(visibleLeaves.flatMap(l => [l.id, ...getAncestorIds(currentProject!.labors, l.id)]));
+    return wbsRows.filter(n => shown.has(n.item.id));
+  }, [filters, visibleLeaves, wbsTree, wbsRows, roles, currentProject]);
+  const visibleServers = useMemo(() => {
+    if (!currentProject) return [];
+    const matching = currentProject.servers.filter(sv => matchesServerFilters(sv, filters));
+    const monthly = (sv: ServerItem) => calculateProjectItemCost(sv, currentProject, pricing || undefined).monthlyPrice * (sv.quantity || 1);
+    return sortItems(matching, filters.serverSort, (sv: ServerItem, key: ServerSortKey) => getServerSortValue(sv, key, monthly));
+  }, [currentProject, filters, pricing]);
+  const addActualEntry = () => {
+    if (!actualDraft || !(actualDraft.mandays > 0)) return;
+    const { taskId, ...entry } = actualDraft;
+    const task = currentProject!.labors.find(l => l.id === taskId)!;
+    updateLabor(taskId, { actuals: [...(task.actuals || []), { ...entry, id: 'ac' + Date.now() }] });
+    setActualDraft({ ...actualDraft, mandays: 0, note: '' });
+  };
+  const removeTeamMember = (id: string) => {
+    const member = team.find(m => m.id === id)!;
+    updateProject({ team: team.filter(m => m.id !== id), labors: currentProject!.labors.map(l => findAssignee(l, [member]) ? assignTask(l, undefined) : l) });
+  };
+  const ganttEnd = schedule ? [schedule.finishDate, currentProject?.endDate || '', ...milestones.map(m => m.date)].filter(d => d >= schedule.startDate).sort().pop()! : '';
+  const ganttDays = schedule ? calendarDaysBetween(schedule.startDate, ganttEnd) + 1 : 1;
+  const ganttOffset = (date: string) => `${Math.max(0, calendarDaysBetween(schedule!.startDate, date)) / ganttDays * 100}%`;
+
+  const boardSettings = currentProject ? getBoardSettings(currentProject) : null;
+  const updateBoardSettings = (updates: Partial<BoardSettings>) => updateProject({ boardSettings: { ...boardSettings!, ...updates } });
+  const boardLanes = useMemo(() => currentProject && boardSettings ? getSwimlanes(leafLabors, boardSettings.swimlane, team, roles) : [], [currentProject, leafLabors, boardSettings?.swimlane, team, roles]);
+  const overWipColumns = boardSettings ? Object.values(TaskStatus).filter(st => boardSettings.wipLimits[st] !== undefined && leafLabors.filter(t => t.status === st).length > boardSettings.wipLimits[st]!) : [];
+  const dropTask = (status: TaskStatus, laneKey: string, beforeId?: string) => {
+    if (!dragTaskId || dragTaskId === beforeId) return;
+    updateProject({ labors: moveTask(currentProject!.labors, leafLabors, dragTaskId, status, beforeId, item => applyLane(item, boardSettings!.swimlane, laneKey, team)) });
+    setDragTaskId(null);
+  };
+  const detailTask = currentProject?.labors.find(l => l.id === detailTaskId) || null;
+  const sourceMeeting = detailTask?.sourceEntryId ? currentProject?.journal?.find(j => j.id === detailTask.sourceEntryId) : undefined;
+  const formatHistoryValue = (entry: TaskHistoryEntry, value?: string) => {
+    if (value === undefined) return '—';
+    if (entry.field === 'role') return getRoleName(roles, value);
+    if (entry.field === 'parentId') return currentProject?.labors.find(l => l.id === value)?.taskName || value;
+    if (entry.field === 'dueDate') return formatScheduleDate(value);
+    if (entry.field === 'mandays') return `${value} MD`;
+    if (entry.field === 'percentComplete') return `${value}%`;
+    return value.length > 40 ? `${value.slice(0, 40)}…` : value;
+  };
+
+  const risks = currentProject?.risks || [];
+  const riskReserve = useMemo(() => calculateRiskReserve(currentProject?.risks), [currentProject]);
+  const updateRisk = (id: string, updates: Partial<Risk>) => updateProject({ risks: risks.map(r => r.id === id ? { ...r, ...updates } : r) });
+
+  const grandTotal = infraTotal + manualLaborTotal + autoLaborTotal + riskReserve.cost;
+
+  const quoteSettings = useMemo(() => currentProject ? getQuotationSettings(currentProject) : INITIAL_QUOTATION_SETTINGS, [currentProject]);
+  const quotation = useMemo(() => scenarioProject ? buildQuotation(scenarioProject) : null, [scenarioProject]);
+  const money = (amountVnd: number) => formatQuoteAmount(amountVnd, quoteSettings);
+  const linkedPriceBook = useMemo(() => currentProject ? findPriceBookVersion(priceBooks, currentProject) : { book: null, version: null }, [priceBooks, currentProject]);
+  const repriceDiff = useMemo(() => currentProject && repriceTarget ? diffRepricing(currentProject, repriceTarget.book, repriceTarget.version) : null, [currentProject, repriceTarget]);
+  const updateQuoteSettings = (updates: Partial<QuotationSettings>) => updateProject({ quotationSettings: { ...quoteSettings, ...updates } });
 
   const handleNavItemClick = (id: Tab) => { setActiveTab(id); setIsSidebarOpen(false); };
   
+  /**
+   * Takes pushed projects into the open state. A project edited again since it was saved gets the
+   * remote changes merged in without losing those edits.
+   */
+  const applySyncOutcome = (outcome: SyncOutcome) => {
+    if (outcome.synced.length === 0) return;
+    setProjects(prev => prev.map(p => {
+      const synced = outcome.synced.find(x => x.pushed.id === p.id);
+      if (!synced) return p;
+      if (p.lastModified === synced.from.lastModified) return synced.pushed;
+      return { ...applyMerge(p, synced.pushed, diffProjects(synced.from, p, synced.pushed)), revision: synced.pushed.revision };
+    }));
+  };
+
+  const openMerge = (conflict: SyncConflict) => {
+    setMergeChoices({});
+    setMergeConflict(conflict);
+  };
+
+  const runSync = async (force = false) => {
+    if (readSyncQueue().length === 0) { setSyncTick(t => t + 1); return null; }
+    setIsPushing(true);
+    try {
+      const outcome = await flushSyncQueue(force);
+      applySyncOutcome(outcome);
+      return outcome;
+    } finally { setIsPushing(false); }
+  };
+
+  const handleSyncStatusClick = async () => {
+    if (getSyncState(false) === 'localCopy') {
+      if (window.confirm('Tải lại dữ liệu từ máy chủ? Các thay đổi chưa lưu sẽ mất.')) window.location.reload();
+      return;
+    }
+    const outcome = await runSync(true);
+    if (outcome && outcome.conflicts.length > 0) openMerge(outcome.conflicts[0]);
+  };
+
+  const handleResolveMerge = async () => {
+    if (!mergeConflict) return;
+    setIsPushing(true);
+    try {
+      const { merged, outcome } = await resolveConflict(mergeConflict, mergeChoices);
+      const pushed = outcome.synced.find(x => x.pushed.id === merged.id)?.pushed || merged;
+      setProjects(prev => prev.map(p => p.id === merged.id ? pushed : p));
+      setMergeConflict(outcome.conflicts.find(c => c.projectId === merged.id) || null);
+      setMergeChoices({});
+    } catch (e) { console.error(e); alert("Lỗi lưu bản hợp nhất."); } finally { setIsPushing(false); }
+  };
+
+  const handleResolveDeleted = async (keep: boolean) => {
+    if (!mergeConflict) return;
+    const id = mergeConflict.projectId;
+    setIsPushing(true);
+    try {
+      const outcome = await resolveDeletedConflict(mergeConflict, keep);
+      if (outcome) {
+        applySyncOutcome(outcome);
+        setMergeConflict(outcome.conflicts.find(c => c.projectId === id) || null);
+      } else {
+        const updated = projects.filter(p => p.id !== id);
+        setProjects(updated);
+        if (currentProjectId === id) setCurrentProjectId(updated.length > 0 ? updated[0].id : null);
+        setMergeConflict(null);
+      }
+    } catch (e) { console.error(e); alert("Lỗi xử lý xung đột."); } finally { setIsPushing(false); }
+  };
+
   const handleSaveProject = async () => { 
     if (!currentProject) return; 
     setIsSyncing(true); 
     try { 
-      await saveProjectToCloud(currentProject); 
-      alert("Đã lưu thành công!"); 
-    } catch (e) { alert("Lỗi lưu Cloud."); } finally { setIsSyncing(false); } 
+      await queueProjectSave(currentProject); 
+      const outcome = await runSync(true);
+      if (outcome && outcome.conflicts.length > 0) openMerge(outcome.conflicts[0]);
+      else alert(readSyncQueue().some(e => e.projectId === currentProject.id) ? "Đã lưu trên máy, sẽ đồng bộ khi kết nối lại được máy chủ." : "Đã lưu thành công!"); 
+    } catch (e) { alert("Lỗi lưu dữ liệu."); } finally { setIsSyncing(false); } 
+  };
+
+  const handleCheckStorage = async () => {
+    setStorageStatus(null);
+    try {
+      await createStorageProvider(storageDraft).checkConnection();
+      setStorageStatus({ ok: true, message: 'Kết nối thành công!' });
+    } catch (e) { setStorageStatus({ ok: false, message: `Lỗi: ${errorMessage(e)}` }); }
+  };
+
+  const handleApplyStorage = async () => {
+    const target = createStorageProvider(storageDraft);
+    try { await target.checkConnection(); } catch (e) { setStorageStatus({ ok: false, message: `Lỗi: ${errorMessage(e)}` }); return; }
+    if (!copyOnStorageSwitch && !window.confirm('Ứng dụng sẽ tải lại dữ liệu từ nơi lưu mới; các thay đổi chưa lưu sẽ mất. Tiếp tục?')) return;
+    if (copyOnStorageSwitch) {
+      setIsSyncing(true);
+      try {
+        const failed = await copyStorageData(getStorageProvider(), target, projects);
+        if (failed.length > 0) alert(`Không sao chép được ${failed.length} tệp đính kèm: ${failed.join(', ')}`);
+      } catch (e) {
+        alert(`Lỗi sao chép dữ liệu: ${errorMessage(e)}`);
+        return;
+      } finally { setIsSyncing(false); }
+    }
+    await clearSyncState();
+    saveStorageConfig(storageDraft);
+    window.location.reload();
+  };
+
+  const handleSavePriceBook = async (book: PriceBook) => {
+    setPriceBooks(prev => prev.some(b => b.id === book.id) ? prev.map(b => b.id === book.id ? book : b) : [...prev, book]);
+    await savePriceBookToStorage(book).catch(alertRemoteSaveError);
+  };
+
+  const allServerTemplates = getAllServerTemplates(serverTemplates);
+
+  const handleInsertTemplate = (template: ServerTemplate) => {
+    if (!currentProject) return;
+    updateProject({ servers: [...currentProject.servers, instantiateTemplate(template)] });
+  };
+
+  const handleInsertStack = (stack: ServerStack) => {
+    if (!currentProject) return;
+    updateProject({ servers: [...currentProject.servers, ...instantiateStack(stack, allServerTemplates)] });
+  };
+
+  const handleSaveServerTemplate = async (template: ServerTemplate) => {
+    setServerTemplates(prev => prev.some(t => t.id === template.id) ? prev.map(t => t.id === template.id ? template : t) : [...prev, template]);
+    await saveServerTemplateToStorage(template).catch(alertRemoteSaveError);
+  };
+
+  const handleSaveServerAsTemplate = async (server: ServerItem) => {
+    const name = (window.prompt('Tên mẫu server:', server.content) || '').trim();
+    if (!name) return;
+    await handleSaveServerTemplate(templateFromServer(server, name));
+    alert(`Đã lưu mẫu "${name}" vào thư viện!`);
+  };
+
+  const handleRenameServerTemplate = async (template: ServerTemplate) => {
+    const name = (window.prompt('Tên mẫu server:', template.name) || '').trim();
+    if (!name || name === template.name) return;
+    await handleSaveServerTemplate({ ...template, name, lastModified: Date.now() });
+  };
+
+  const handleDeleteServerTemplate = async (template: ServerTemplate) => {
+    if (!window.confirm(`Xóa mẫu "${template.name}" khỏi thư viện?`)) return;
+    setServerTemplates(prev => prev.filter(t => t.id !== template.id));
+    await deleteServerTemplateFromStorage(template.id).catch(alertRemoteSaveError);
+  };
+
+  const handleCreatePriceBook = async () => {
+    if (!currentProject) return;
+    const name = (window.prompt('Tên bảng giá mới:') || '').trim();
+    if (!name) return;
+    const book = createPriceBook(name, { infraPrices: currentProject.infraPrices, billingCycles: currentProject.billingCycles || INITIAL_BILLING_CYCLES, priceTiers: currentProject.priceTiers, laborPrices: currentProject.laborPrices, roles: currentProject.roles });
+    await handleSavePriceBook(book);
+    updateProject(applyPriceBookVersion(book, book.versions[0]));
+  };
+
+  const handlePublishPriceBookVersion = async (book: PriceBook) => {
+    if (!currentProject) return;
+    const note = window.prompt('Ghi chú cho phiên bản mới (ví dụ: "Điều chỉnh giá Q3"):');
+    if (note === null) return;
+    const updated = addPriceBookVersion(book, { infraPrices: currentProject.infraPrices, billingCycles: currentProject.billingCycles || INITIAL_BILLING_CYCLES, priceTiers: currentProject.priceTiers, laborPrices: currentProject.laborPrices, roles: currentProject.roles }, newVersionDate, note);
+    await handleSavePriceBook(updated);
+    const version = updated.versions[updated.versions.length - 1];
+    updateProject({ priceBookRef: { bookId: updated.id, versionId: version.id } });
+  };
+
+  const handleConfirmReprice = () => {
+    if (!repriceTarget) return;
+    updateProject(applyPriceBookVersion(repriceTarget.book, repriceTarget.version));
+    setRepriceTarget(null);
   };
 
   const handleNewProject = () => {
     const id = 'p' + Date.now();
-    const newProj: Project = { id, name: 'Dự án mới', servers: [], labors: [], journal: [], infraPrices: INITIAL_UNIT_PRICES, laborPrices: INITIAL_LABOR_PRICES, createdAt: Date.now(), lastModified: Date.now() };
+    const newProj: Project = { id, name: 'Dự án mới', servers: [], labors: [], journal: [], infraPrices: INITIAL_UNIT_PRICES, billingCycles: INITIAL_BILLING_CYCLES, laborPrices: INITIAL_LABOR_PRICES, quotationSettings: INITIAL_QUOTATION_SETTINGS, createdAt: Date.now(), lastModified: Date.now(), ...getDefaultPricing(priceBooks) };
     setProjects([newProj, ...projects]);
     setCurrentProjectId(id);
   };
@@ -146,16 +871,35 @@ const App: React.FC = () => {
   const handleDuplicateProject = () => {
     if (!currentProject) return;
     const id = 'p-copy-' + Date.now();
-    const copy: Project = { ...currentProject, id, name: `${currentProject.name} (Bản sao)`, createdAt: Date.now(), lastModified: Date.now() };
+    const copy: Project = { ...currentProject, id, name: `${currentProject.name} (Bản sao)`, createdAt: Date.now(), lastModified: Date.now(), revision: undefined };
     setProjects([copy, ...projects]);
     setCurrentProjectId(id);
     alert("Đã nhân bản dự án!");
   };
 
+  const handleAddScenario = (fromId?: string) => {
+    if (!currentProject) return;
+    const name = (window.prompt('Tên phương án mới:', `Phương án ${scenarios.length + 1}`) || '').trim();
+    if (!name) return;
+    updateProject(addScenario(currentProject, name, fromId));
+  };
+
+  const handleDeleteScenario = (id: string) => {
+    if (!currentProject || !window.confirm("Xóa phương án này cùng toàn bộ VM và đầu việc của nó?")) return;
+    updateProject(deleteScenario(currentProject, id));
+  };
+
+  const toggleQuotationScenario = (id: string) => {
+    if (!currentProject) return;
+    const selected = currentProject.quotationScenarioIds || [];
+    updateProject({ quotationScenarioIds: selected.includes(id) ? selected.filter(x => x !== id) : [...selected, id].slice(-3) });
+  };
+
   const handleDeleteProject = async (id: string) => {
     if (!window.confirm("Bạn có chắc chắn muốn xóa dự án này?")) return;
     try {
-      await deleteProjectFromCloud(id);
+      await queueProjectDelete(id);
+      runSync();
       const updated = projects.filter(p => p.id !== id);
       setProjects(updated);
       if (currentProjectId === id) setCurrentProjectId(updated.length > 0 ? updated[0].id : null);
@@ -171,11 +915,21 @@ const App: React.FC = () => {
       const wb = XLSX.read(bstr, { type: 'binary' });
       const ws = wb.Sheets[wb.SheetNames[0]];
       const data: any[] = XLSX.utils.sheet_to_json(ws);
+      const newRoles: RoleDefinition[] = [];
+      const resolveRole = (value: unknown) => {
+        const text = String(value ?? '').trim();
+        if (!text) return Role.JuniorDev;
+        const known = mapStringToRole(text, [...roles, ...newRoles]);
+        if (known) return known;
+        const role = { code: createRoleCode(text, [...roles, ...newRoles]), name: text, aliases: [] };
+        newRoles.push(role);
+        return role.code;
+      };
       const importedTasks: LaborItem[] = data.map((row, idx) => ({
         id: `l-imp-${Date.now()}-${idx}`,
         taskName: row['Đầu việc'] || 'Task imported',
         description: row['Mô tả'] || '',
-        role: mapStringToRole(row['Vai trò']),
+        role: resolveRole(row['Vai trò']),
         mandays: parseFloat(row['Số công (MD)'] || row['Số công']) || 1,
         status: TaskStatus.Todo,
         priority: Priority.Medium,
@@ -183,8 +937,11 @@ const App: React.FC = () => {
         dueDate: ''
       }));
       if (importedTasks.length > 0) {
-        updateProject({ labors: [...currentProject.labors, ...importedTasks] });
-        alert(`Đã nhập thành công ${importedTasks.length} công việc!`);
+        updateProject({
+          labors: [...currentProject.labors, ...importedTasks],
+          ...(newRoles.length > 0 ? { roles: [...roles, ...newRoles], laborPrices: { ...currentProject.laborPrices, ...Object.fromEntries(newRoles.map(r => [r.code, 0])) } } : {})
+        });
+        alert(`Đã nhập thành công ${importedTasks.length} công việc!${newRoles.length > 0 ? `\nĐã thêm vai trò mới chưa có đơn giá: ${newRoles.map(r => r.name).join(', ')}. Cập nhật đơn giá trong Thiết lập.` : ''}`);
       }
     };
     reader.readAsBinaryString(file);
@@ -197,8 +954,8 @@ const App: React.FC = () => {
     try {
       const updatedLabors = await Promise.all(
         currentProject.labors.map(async (l) => {
-          if (l.mandays > 1) return l;
-          const estimated = await predictTaskMandays(l.taskName, l.description, l.role);
+          if (l.mandays > 1 || !leafLabors.includes(l)) return l;
+          const estimated = await predictTaskMandays(l.taskName, l.description, getRoleName(roles, l.role));
           return estimated !== null ? { ...l, mandays: estimated } : l;
         })
       );
@@ -208,11 +965,78 @@ const App: React.FC = () => {
 
   const handleAddJournal = (type: JournalEntryType) => {
     if (!currentProject) return;
-    const newEntry: JournalEntry = { id: 'j' + Date.now(), type, date: new Date().toISOString().split('T')[0], title: type === JournalEntryType.Meeting ? 'Cuộc họp mới' : 'Mốc quan trọng mới', content: '' };
+    const newEntry: JournalEntry = { id: 'j' + Date.now(), type, date: new Date().toISOString().split('T')[0], title: type === JournalEntryType.Meeting ? 'Cuộc họp mới' : type === JournalEntryType.Milestone ? 'Mốc quan trọng mới' : 'Ghi chú mới', content: '' };
     updateProject({ journal: [newEntry, ...(currentProject.journal || [])] });
+    setEditingEntryIds([...editingEntryIds, newEntry.id]);
+  };
+
+  const handleDeleteJournal = (entry: JournalEntry) => {
+    if ((entry.attachments || []).length > 0 && !window.confirm(`Xóa mục nhật ký cùng ${entry.attachments!.length} tệp đính kèm?`)) return;
+    (entry.attachments || []).forEach(a => removeAttachment(a).catch(console.error));
+    updateProject({ journal: currentProject!.journal?.filter(j => j.id !== entry.id) });
+  };
+
+  const openJournalEntry = (id: string) => {
+    setDetailTaskId(null);
+    setJournalFilters(EMPTY_JOURNAL_FILTERS);
+    setFocusEntryId(id);
+    setActiveTab('journal');
   };
 
-  if (isLoading || !currentProject) return <div className="min-h-screen bg-[#0F172A] flex flex-col items-center justify-center text-white font-black tracking-widest">
+  // Uploads finish after the user may have edited the project further, so apply them to the latest state.
+  const updateAttachments = (projectId: string, entryId: string, update: (attachments: JournalAttachment[]) => JournalAttachment[]) =>
+    setProjects(prev => prev.map(p => p.id !== projectId ? p : {
+      ...p,
+      journal: p.journal?.map(j => j.id === entryId ? { ...j, attachments: update(j.attachments || []) } : j),
+      lastModified: Date.now()
+    }));
+
+  const handleAttachFiles = async (entry: JournalEntry, files: FileList | null) => {
+    if (!currentProject || !files || files.length === 0) return;
+    const tooLarge = Array.from(files).filter(f => f.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) alert(`Bỏ qua tệp quá ${formatFileSize(MAX_ATTACHMENT_BYTES)}: ${tooLarge.map(f => f.name).join(', ')}`);
+    const accepted = Array.from(files).filter(f => f.size <= MAX_ATTACHMENT_BYTES);
+    if (accepted.length === 0) return;
+    setUploadingEntryId(entry.id);
+    try {
+      const added = await Promise.all(accepted.map(f => addAttachment(currentProject.id, f)));
+      updateAttachments(currentProject.id, entry.id, attachments => [...attachments, ...added]);
+      if (added.some(isLocalAttachment)) alert('Không kết nối được nơi lưu trữ: tệp được giữ tạm trên trình duyệt này, hãy tải lên lại khi có mạng.');
+    } catch (e) { console.error(e); alert('Không lưu được tệp đính kèm.'); } finally { setUploadingEntryId(null); }
+  };
+
+  const handleOpenAttachment = async (attachment: JournalAttachment) => {
+    const url = await getAttachmentUrl(attachment).catch(() => null);
+    if (url) window.open(url, '_blank', 'noopener');
+    else alert('Không mở được tệp: tệp không còn trên trình duyệt này hoặc chưa kết nối được nơi lưu trữ.');
+  };
+
+  const handlePushAttachment = async (entry: JournalEntry, attachment: JournalAttachment) => {
+    const projectId = currentProject!.id;
+    const pushed = await pushLocalAttachment(projectId, attachment).catch(() => attachment);
+    if (pushed === attachment) { alert('Vẫn chưa tải lên được nơi lưu trữ.'); return; }
+    updateAttachments(projectId, entry.id, attachments => attachments.map(a => a.id === attachment.id ? pushed : a));
+  };
+
+  const handleRemoveAttachment = (entry: JournalEntry, attachment: JournalAttachment) => {
+    if (!window.confirm(`Xóa tệp "${attachment.name}"?`)) return;
+    removeAttachment(attachment).catch(console.error);
+    updateJournalEntry(entry.id, { attachments: (entry.attachments || []).filter(a => a.id !== attachment.id) });
+  };
+
+  const updateJournalEntry = (id: string, updates: Partial<JournalEntry>) => updateProject({ journal: currentProject!.journal?.map(j => j.id === id ? { ...j, ...updates } : j) });
+
+  const updateActionItem = (entry: JournalEntry, action: ActionItem) => updateJournalEntry(entry.id, { actionItems: (entry.actionItems || []).map(a => a.id === action.id ? action : a) });
+
+  const handleCreateActionTask = (entry: JournalEntry, action: ActionItem) => {
+    const task = actionToTask(action, entry, team, roles);
+    updateProject({
+      labors: [...currentProject!.labors, task],
+      journal: currentProject!.journal?.map(j => j.id === entry.id ? { ...j, actionItems: (j.actionItems || []).map(a => a.id === action.id ? { ...a, taskId: task.id } : a) } : j)
+    });
+  };
+
+  if (isLoading || !currentProject || !quotation) return <div className="min-h-screen bg-[#0F172A] flex flex-col items-center justify-center text-white font-black tracking-widest">
     <div className="w-16 h-16 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-4"></div>
     ĐANG TẢI DỮ LIỆU HỆ THỐNG...
   </div>;
@@ -226,9 +1050,12 @@ const App: React.FC = () => {
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
               Quay lại chỉnh sửa
            </button>
-           <button onClick={() => window.print()} className="bg-indigo-600 text-white px-8 py-2 rounded-xl font-black shadow-lg shadow-indigo-200 flex items-center gap-2 hover:bg-indigo-500 transition-all">
-              In Báo Giá (PDF)
-           </button>
+           <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-500">Nhân sự theo <QuotePercentileSelect value={quoteSettings.laborPercentile} onChange={(p) => updateQuoteSettings({ laborPercentile: p })} className="text-xs font-black bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 outline-none" /></label>
+              <button onClick={() => window.print()} className="bg-indigo-600 text-white px-8 py-2 rounded-xl font-black shadow-lg shadow-indigo-200 flex items-center gap-2 hover:bg-indigo-500 transition-all">
+                 In Báo Giá (PDF)
+              </button>
+           </div>
         </div>
 
         <div id="quotation-content" className="border-t-8 border-indigo-600 pt-12">
@@ -246,63 +1073,156 @@ const App: React.FC = () => {
            <div className="mb-12">
               <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4 border-b pb-2">Thông tin Dự án</h3>
               <p className="text-2xl font-black text-slate-800">{currentProject.name}</p>
+              {scenarios.length > 1 && <p className="text-sm font-bold text-indigo-600 mt-1">Phương án: {scenarios.find(sc => sc.id === activeScenarioId)?.name}</p>}
            </div>
 
+           {quoteOptions.length > 1 && (
+             <div className="mb-12">
+                <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">CÁC PHƯƠNG ÁN ĐỀ XUẤT</h3>
+                <table className="w-full text-left">
+                   <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-500">
+                      <tr><th className="p-3">Hạng mục</th>{quoteOptions.map((o, idx) => <th key={o.scenario.id} className="p-3 text-right">Phương án {idx + 1}: {o.scenario.name}</th>)}</tr>
+                   </thead>
+                   <tbody className="text-xs">
+                      {([
+                        ['Mô tả', (o: ScenarioComparison) => o.scenario.note || '—'],
+                        ['Số VM', (o: ScenarioComparison) => o.scenario.servers.reduce((sum, sv) => sum + (sv.quantity || 1), 0)],
+                        ['Tổng công (MD)', (o: ScenarioComparison) => o.mandays.toFixed(1)],
+                        ['Hạ tầng', (o: ScenarioComparison) => money(o.infraTotal)],
+                        ['Nhân sự', (o: ScenarioComparison) => money(o.laborTotal)],
+                        ['Dự phòng rủi ro', (o: ScenarioComparison) => money(o.contingencyTotal)],
+                        ['Tổng cộng (đã gồm VAT)', (o: ScenarioComparison) => money(o.quotedTotal)]
+                      ] as [string, (o: ScenarioComparison) => React.ReactNode][]).map(([label, value], rowIdx, rowsAll) => (
+                        <tr key={label} className={`border-b border-slate-100 ${rowIdx === rowsAll.length - 1 ? 'font-black text-indigo-600' : ''}`}>
+                           <td className="p-3 font-bold">{label}</td>
+                           {quoteOptions.map(o => <td key={o.scenario.id} className="p-3 text-right">{value(o)}</td>)}
+                        </tr>
+                      ))}
+                   </tbody>
+                </table>
+                <p className="text-[10px] text-slate-400 mt-2">Chi tiết bên dưới trình bày theo phương án {scenarios.find(sc => sc.id === activeScenarioId)?.name}.</p>
+             </div>
+           )}
+
            {currentProject.servers.length > 0 && (
              <div className="mb-12">
                 <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">I. CHI TIẾT HẠ TẦNG CLOUD</h3>
                 <table className="w-full text-left">
                    <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-500">
-                      <tr><th className="p-3">Dịch vụ</th><th className="p-3 text-center">Số lượng</th><th className="p-3 text-right">Thành tiền</th></tr>
+                      <tr><th className="p-3">Dịch vụ</th><th className="p-3 text-center">Khối lượng</th><th className="p-3 text-right">Đơn giá/tháng</th><th className="p-3 text-center">Số lượng</th><th className="p-3 text-right">Giá trị hợp đồng</th></tr>
                    </thead>
                    <tbody>
                       {currentProject.servers.map(s => {
-                        const cost = calculateItemCost(s, currentProject.infraPrices);
+                        const cost = calculateProjectItemCost(s, currentProject, pricing || undefined);
+                        const line = quotation.lines.find(l => l.key === `server:${s.id}`);
                         return (
-                          <tr key={s.id} className="border-b border-slate-100 text-xs">
-                             <td className="p-3 font-bold">{s.content}</td>
-                             <td className="p-3 text-center">{s.quantity}</td>
-                             <td className="p-3 text-right font-bold">{formatCurrency(cost.totalPrice)}</td>
-                          </tr>
+                          <React.Fragment key={s.id}>
+                            <tr className="border-b border-slate-100 text-xs">
+                               <td className="p-3 font-bold">{s.content}</td>
+                               <td className="p-3 text-center text-slate-400">{s.configRaw}</td>
+                               <td className="p-3 text-right">{money(cost.monthlyPrice)}</td>
+                               <td className="p-3 text-center">{s.quantity}</td>
+                               <td className="p-3 text-right font-bold">{money(line?.amount || 0)}</td>
+                            </tr>
+                            {cost.lines.map((costLine, idx) => (
+                              <tr key={idx} className="border-b border-slate-50 text-[10px] text-slate-500">
+                                 <td className="py-1.5 px-3 pl-8">{costLine.label}{costLine.tier && <span className="text-indigo-500"> · giá theo bậc</span>}</td>
+                                 <td className="py-1.5 px-3 text-center">{costLine.quantity} {costLine.unit}</td>
+                                 <td className="py-1.5 px-3 text-right">{money(costLine.unitRate)}</td>
+                                 <td className="py-1.5 px-3 text-center">{BILLING_CYCLE_LABELS[costLine.billingCycle]}</td>
+                                 <td className="py-1.5 px-3 text-right">{money(costLine.subtotal * (s.quantity || 1))}</td>
+                              </tr>
+                            ))}
+                            {line && line.discount > 0 && (
+                              <tr className="border-b border-slate-100 text-[10px] text-emerald-600 font-bold">
+                                 <td colSpan={4} className="py-1.5 px-3 pl-8">Chiết khấu</td>
+                                 <td className="py-1.5 px-3 text-right">-{money(line.discount)}</td>
+                              </tr>
+                            )}
+                          </React.Fragment>
                         );
                       })}
                    </tbody>
                 </table>
+                <div className="mt-4 ml-auto w-full md:w-1/2 text-xs space-y-1">
+                   <div className="flex justify-between"><span className="text-slate-500">Chi phí vận hành hàng tháng</span><span className="font-bold">{money(contractSummary.monthlyRunRate)}</span></div>
+                   {contractSummary.oneTimeTotal > 0 && <div className="flex justify-between"><span className="text-slate-500">Phí khởi tạo một lần</span><span className="font-bold">{money(contractSummary.oneTimeTotal)}</span></div>}
+                   <div className="flex justify-between"><span className="text-slate-500">Thời hạn hợp đồng</span><span className="font-bold">{contractSummary.months !== null ? `${contractSummary.months.toFixed(1)} tháng` : '1 tháng (chưa đặt ngày dự án)'}</span></div>
+                   <div className="flex justify-between border-t pt-1"><span className="font-black">Giá trị hợp đồng hạ tầng</span><span className="font-black">{money(contractSummary.contractTotal)}</span></div>
+                </div>
+                {quotation.tiers.length > 0 && (
+                  <div className="mt-6">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Bậc giá áp dụng (theo tổng khối lượng dự án)</p>
+                    <table className="w-full text-left text-[10px] text-slate-500">
+                      <tbody>
+                        {quotation.tiers.map(t => (
+                          <tr key={t.priceKey} className="border-b border-slate-50">
+                            <td className="py-1.5 px-3 font-bold">{UNIT_PRICE_LABELS[t.priceKey]}</td>
+                            <td className="py-1.5 px-3 text-center">{t.quantity} {PRICE_UNITS[t.priceKey]}</td>
+                            <td className="py-1.5 px-3 text-right line-through text-slate-300">{money(t.baseRate)}</td>
+                            <td className="py-1.5 px-3 text-right font-bold">{money(t.effectiveRate)}</td>
+                            <td className="py-1.5 px-3">{describeAppliedTier(t)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
              </div>
            )}
 
            <div className="mb-12">
               <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">II. CHI TIẾT NHÂN SỰ</h3>
+              {quoteSettings.laborPercentile && <p className="text-[10px] text-slate-500 mb-3">Khối lượng nhân sự tính theo mức {QUOTE_PERCENTILE_LABELS[quoteSettings.laborPercentile]} của mô phỏng Monte Carlo trên ước lượng 3 điểm (hệ số ×{quotation.laborFactor.toFixed(2)} so với ước lượng điểm).</p>}
               <table className="w-full text-left">
                  <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-500">
-                    <tr><th className="p-3">Vai trò</th><th className="p-3 text-center">Khối lượng (MD)</th><th className="p-3 text-right">Thành tiền</th></tr>
+                    <tr><th className="p-3">{quoteSettings.laborGrouping === 'module' ? 'Hạng mục' : 'Vai trò'}</th><th className="p-3 text-center">Khối lượng (MD)</th><th className="p-3 text-right">Chiết khấu</th><th className="p-3 text-right">Thành tiền</th></tr>
                  </thead>
                  <tbody>
-                    {Object.values(Role).map(role => {
-                      const tasks = currentProject.labors.filter(l => l.role === role);
-                      let md = tasks.reduce((s, t) => s + t.mandays, 0);
-                      if (role === Role.PM) md += autoLaborStats.pm;
-                      if (role === Role.BA) md += autoLaborStats.ba;
-                      if (role === Role.QC) md += autoLaborStats.qc;
-                      if (md <= 0) return null;
-                      return (
-                        <tr key={role} className="border-b border-slate-100 text-xs">
-                           <td className="p-3 font-bold">{role}</td>
-                           <td className="p-3 text-center">{md.toFixed(1)}</td>
-                           <td className="p-3 text-right font-bold">{formatCurrency(md * (currentProject.laborPrices[role] || 0))}</td>
-                        </tr>
-                      );
-                    })}
+                    {quotation.lines.filter(l => l.section === 'labor').map(line => (
+                      <tr key={line.key} className={`border-b border-slate-100 text-xs ${line.derivedFrom ? 'italic text-slate-600' : ''}`}>
+                         <td className="p-3 font-bold">{line.label}{line.derivedFrom && <span className="block text-[10px] font-normal text-slate-400">Gián tiếp, tự động: {line.derivedFrom}</span>}</td>
+                         <td className="p-3 text-center">{line.quantity.toFixed(1)}</td>
+                         <td className="p-3 text-right text-emerald-600">{line.discount > 0 ? `-${money(line.discount)}` : ''}</td>
+                         <td className="p-3 text-right font-bold">{money(line.net)}</td>
+                      </tr>
+                    ))}
                  </tbody>
               </table>
            </div>
 
+           {quotation.lines.some(l => l.section === 'contingency') && (
+             <div className="mb-12">
+                <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">III. DỰ PHÒNG RỦI RO</h3>
+                <table className="w-full text-left">
+                   <tbody>
+                      {quotation.lines.filter(l => l.section === 'contingency').map(line => (
+                        <tr key={line.key} className="border-b border-slate-100 text-xs">
+                           <td className="p-3 font-bold">{line.label}<span className="block text-[10px] font-normal text-slate-400">Tổng xác suất × ảnh hưởng chi phí của các rủi ro chưa đóng</span></td>
+                           <td className="p-3 text-right text-emerald-600">{line.discount > 0 ? `-${money(line.discount)}` : ''}</td>
+                           <td className="p-3 text-right font-bold">{money(line.net)}</td>
+                        </tr>
+                      ))}
+                   </tbody>
+                </table>
+             </div>
+           )}
+
+           <div className="ml-auto w-full md:w-1/2 text-xs space-y-2 mb-8">
+              <div className="flex justify-between"><span className="text-slate-500 font-bold">Tạm tính</span><span className="font-bold">{money(quotation.totals.subtotal)}</span></div>
+              {quotation.totals.lineDiscounts > 0 && <div className="flex justify-between text-emerald-600"><span className="font-bold">Chiết khấu theo hạng mục</span><span className="font-bold">-{money(quotation.totals.lineDiscounts)}</span></div>}
+              {quotation.totals.overallDiscount > 0 && <div className="flex justify-between text-emerald-600"><span className="font-bold">Chiết khấu tổng{quoteSettings.overallDiscount?.kind === 'percent' ? ` (${quoteSettings.overallDiscount.value}%)` : ''}</span><span className="font-bold">-{money(quotation.totals.overallDiscount)}</span></div>}
+              <div className="flex justify-between border-t pt-2"><span className="text-slate-500 font-bold">Thành tiền trước thuế</span><span className="font-bold">{money(quotation.totals.taxable)}</span></div>
+              <div className="flex justify-between"><span className="text-slate-500 font-bold">Thuế VAT ({quotation.totals.vatRate}%)</span><span className="font-bold">{money(quotation.totals.vat)}</span></div>
+              {quoteSettings.currency !== 'VND' && <p className="text-[10px] text-slate-400 text-right">Tỷ giá áp dụng: 1 {quoteSettings.currency} = {formatCurrency(quoteSettings.exchangeRates[quoteSettings.currency] || 0)}</p>}
+           </div>
+
            <div className="bg-slate-900 text-white p-8 rounded-3xl flex justify-between items-center mt-12">
               <div>
-                 <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">TỔNG CHI PHÍ DỰ TOÁN (TCO)</p>
+                 <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">TỔNG CỘNG (ĐÃ GỒM VAT)</p>
               </div>
               <div className="text-right">
-                 <p className="text-4xl font-black text-indigo-400 tracking-tighter">{formatCurrency(grandTotal)}</p>
+                 <p className="text-4xl font-black text-indigo-400 tracking-tighter">{money(quotation.totals.total)}</p>
               </div>
            </div>
         </div>
@@ -324,8 +1244,14 @@ const App: React.FC = () => {
             <NavItem id="overview" label="Tổng quan" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M4 6h16M4 12h16m-7 6h7" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
             <NavItem id="mandays" label="Kế hoạch & Dự toán" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
             <NavItem id="board" label="Thực thi (Board)" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
+            <NavItem id="gantt" label="Tiến độ (Gantt)" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M4 6h8M8 12h10M6 18h6" strokeWidth="2" strokeLinecap="round" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
+            <NavItem id="calendar" label="Lịch" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
+            <NavItem id="tracking" label="Theo dõi thực tế" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
+            <NavItem id="team" label="Đội dự án" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
+            <NavItem id="risks" label="Rủi ro & Dự phòng" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M12 9v4m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
             <NavItem id="journal" label="Nhật ký & Mốc" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
             <NavItem id="infra" label="Hạ tầng Cloud" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
+            <NavItem id="scenarios" label="Phương án" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
             <NavItem id="settings" label="Thiết lập" icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2" strokeWidth="2" /></svg>} activeTab={activeTab} onClick={handleNavItemClick} />
           </nav>
 
@@ -336,7 +1262,7 @@ const App: React.FC = () => {
              </div>
              <div className="space-y-1">
                 {projects.map(p => (
-                  <div key={p.id} className={`group flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer transition-all ${currentProjectId === p.id ? 'bg-slate-800' : 'hover:bg-slate-900'}`} onClick={() => setCurrentProjectId(p.id)}>
+                  <div key={p.id} className={`group flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer transition-all ${currentProjectId === p.id ? 'bg-slate-800' : 'hover:bg-slate-900'}`} onClick={() => selectProject(p.id)}>
                      <span className={`text-xs font-bold truncate ${currentProjectId === p.id ? 'text-white' : 'text-slate-400'}`}>{p.name}</span>
                      {projects.length > 1 && (
                        <button onClick={(e) => { e.stopPropagation(); handleDeleteProject(p.id); }} className="opacity-0 group-hover:opacity-100 text-red-400 text-[10px]">×</button>
@@ -348,9 +1274,19 @@ const App: React.FC = () => {
         </div>
         
         <div className="p-6 bg-slate-900/50">
+          {(() => {
+            const state = getSyncState(isPushing);
+            const queue = readSyncQueue();
+            return (
+              <button onClick={handleSyncStatusClick} disabled={state === 'local' || isPushing} title={queue.find(e => e.lastError)?.lastError || getLoadError() || (state === 'local' ? '' : 'Đồng bộ ngay')} className="w-full flex items-center gap-2 mb-3 text-[10px] font-bold text-slate-400 hover:text-white disabled:hover:text-slate-400 transition-all">
+                <span className={`w-2 h-2 rounded-full shrink-0 ${SYNC_STATE_DOTS[state]}`}></span>
+                <span className="truncate">{SYNC_STATE_LABELS[state]}{queue.length > 0 && state !== 'syncing' ? ` · ${queue.length} dự án chờ` : ''}</span>
+              </button>
+            );
+          })()}
           <button onClick={handleDuplicateProject} className="w-full py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-bold transition-all mb-2">Nhân bản dự án</button>
           <button onClick={handleSaveProject} disabled={isSyncing} className="w-full py-2 bg-indigo-600 rounded-lg text-xs font-bold transition-all hover:bg-indigo-500 shadow-lg shadow-indigo-900/40">
-            {isSyncing ? "Đang lưu..." : "Lưu dự án Cloud"}
+            {isSyncing ? "Đang lưu..." : "Lưu dự án"}
           </button>
         </div>
       </aside>
@@ -362,8 +1298,14 @@ const App: React.FC = () => {
                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h16m-7 6h7" /></svg>
             </button>
             <input value={currentProject.name} onChange={(e) => updateProject({ name: e.target.value })} className="text-xl font-black bg-transparent border-none outline-none w-80 focus:ring-2 focus:ring-indigo-100 rounded-lg px-2" placeholder="Tên dự án..." />
+            {scenarios.length > 1 && (
+              <select value={activeScenarioId || ''} onChange={(e) => updateProject(switchScenario(currentProject, e.target.value))} className="text-xs font-black bg-indigo-50 text-indigo-600 rounded-xl px-3 py-2 outline-none" title="Phương án đang chỉnh sửa">
+                {scenarios.map(sc => <option key={sc.id} value={sc.id}>{sc.name}</option>)}
+              </select>
+            )}
           </div>
           <div className="flex items-center gap-3">
+             <button onClick={() => exportProjectToExcel(currentProject)} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-black hover:bg-slate-200 transition-all">XUẤT EXCEL</button>
              <button onClick={() => setShowQuotation(true)} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-xs font-black hover:bg-indigo-100 transition-all">XUẤT BÁO GIÁ</button>
           </div>
         </header>
@@ -375,21 +1317,152 @@ const App: React.FC = () => {
                   <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
                      <span className="text-slate-400 font-bold text-[10px] uppercase">Ngân sách dự kiến</span>
                      <p className="text-2xl font-black text-indigo-600 mt-1">{formatCurrency(grandTotal)}</p>
+                     <div className="text-[10px] text-slate-400 font-bold mt-1 space-y-0.5">
+                        <p className="flex justify-between"><span>Hạ tầng</span><span>{formatCurrency(infraTotal)}</span></p>
+                        <p className="flex justify-between"><span>Nhân sự</span><span>{formatCurrency(manualLaborTotal + autoLaborTotal)}</span></p>
+                        <p className="flex justify-between text-amber-600"><span>Dự phòng rủi ro</span><span>{formatCurrency(riskReserve.cost)}</span></p>
+                     </div>
                   </div>
                   <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
                      <span className="text-slate-400 font-bold text-[10px] uppercase">Tiến độ thực thi</span>
                      <p className="text-2xl font-black text-emerald-600 mt-1">{projectStats.progress}%</p>
+                     <p className="text-[10px] text-slate-400 font-bold mt-1">Theo khối lượng công · {projectStats.done}/{projectStats.total} đầu việc xong</p>
                   </div>
                   <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
                      <span className="text-slate-400 font-bold text-[10px] uppercase">Tổng nhân sự (MD)</span>
-                     <p className="text-2xl font-black text-amber-600 mt-1">{(manualLaborTotal/manualLaborTotal ? (currentProject.labors.reduce((s,l)=>s+l.mandays,0)) + autoLaborStats.pm + autoLaborStats.ba + autoLaborStats.qc : 0).toFixed(1)}</p>
+                     <p className="text-2xl font-black text-amber-600 mt-1">{(manualLaborTotal/manualLaborTotal ? laborMandays : 0).toFixed(1)}</p>
                   </div>
                   <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
                      <span className="text-slate-400 font-bold text-[10px] uppercase">Hạ tầng Cloud</span>
                      <p className="text-2xl font-black text-slate-800 mt-1">{currentProject.servers.length} VM</p>
                   </div>
                </div>
+
+               <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                  <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
+                     <span className="text-slate-400 font-bold text-[10px] uppercase">Thời gian hợp đồng</span>
+                     <div className="flex items-center gap-2 mt-2">
+                        <input type="date" className="text-[10px] font-bold text-slate-600 bg-slate-50 rounded-lg px-2 py-1 outline-none" value={currentProject.startDate || ''} onChange={(e) => updateProject({ startDate: e.target.value || undefined })} />
+                        <span className="text-slate-300">→</span>
+                        <input type="date" className="text-[10px] font-bold text-slate-600 bg-slate-50 rounded-lg px-2 py-1 outline-none" value={currentProject.endDate || ''} onChange={(e) => updateProject({ endDate: e.target.value || undefined })} />
+                     </div>
+                     <p className="text-[10px] text-slate-400 font-bold mt-2">{contractSummary.months !== null ? `${contractSummary.months.toFixed(1)} tháng` : 'Chưa đặt ngày, tạm tính 1 tháng hạ tầng'}</p>
+                  </div>
+                  <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
+                     <span className="text-slate-400 font-bold text-[10px] uppercase">Chi phí hạ tầng / tháng</span>
+                     <p className="text-2xl font-black text-slate-800 mt-1">{formatCurrency(contractSummary.monthlyRunRate)}</p>
+                  </div>
+                  <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
+                     <span className="text-slate-400 font-bold text-[10px] uppercase">Phí hạ tầng một lần</span>
+                     <p className="text-2xl font-black text-slate-800 mt-1">{formatCurrency(contractSummary.oneTimeTotal)}</p>
+                  </div>
+                  <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
+                     <span className="text-slate-400 font-bold text-[10px] uppercase">Giá trị hợp đồng hạ tầng</span>
+                     <p className="text-2xl font-black text-indigo-600 mt-1">{formatCurrency(contractSummary.contractTotal)}</p>
+                  </div>
+               </div>
                
+               <div className="bg-white p-8 rounded-[40px] border border-slate-200 shadow-xl">
+                  <div className="flex items-center justify-between mb-6">
+                     <h4 className="font-black text-lg">Tổng hợp báo giá</h4>
+                     <span className="text-[10px] font-black text-slate-400 uppercase">{quoteSettings.currency}</span>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+                     <div><p className="text-[10px] font-bold text-slate-400 uppercase">Tạm tính</p><p className="text-lg font-black text-slate-800">{money(quotation.totals.subtotal)}</p></div>
+                     <div><p className="text-[10px] font-bold text-slate-400 uppercase">Chiết khấu</p><p className="text-lg font-black text-emerald-600">-{money(quotation.totals.lineDiscounts + quotation.totals.overallDiscount)}</p></div>
+                     <div><p className="text-[10px] font-bold text-slate-400 uppercase">Trước thuế</p><p className="text-lg font-black text-slate-800">{money(quotation.totals.taxable)}</p></div>
+                     <div><p className="text-[10px] font-bold text-slate-400 uppercase">VAT {quotation.totals.vatRate}%</p><p className="text-lg font-black text-slate-800">{money(quotation.totals.vat)}</p></div>
+                     <div><p className="text-[10px] font-bold text-slate-400 uppercase">Tổng cộng</p><p className="text-lg font-black text-indigo-600">{money(quotation.totals.total)}</p></div>
+                  </div>
+               </div>
+
+               {monteCarlo && (
+                 <div className="bg-white p-8 rounded-[40px] border border-slate-200 shadow-xl">
+                    <div className="flex items-center justify-between mb-6">
+                       <h4 className="font-black text-lg">Độ tin cậy ước lượng (Monte Carlo)</h4>
+                       <span className="text-[10px] font-black text-slate-400 uppercase">{monteCarlo.iterations} lần mô phỏng</span>
+                    </div>
+                    <div className="flex items-end gap-0.5 h-32 mb-2">
+                       {(() => {
+                         const peak = Math.max(...monteCarlo.histogram.map(b => b.count), 1);
+                         return monteCarlo.histogram.map((b, idx) => {
+                           const band = b.to <= monteCarlo.laborCost.p50 ? 'bg-emerald-400' : b.from < monteCarlo.laborCost.p80 ? 'bg-indigo-400' : b.from < monteCarlo.laborCost.p90 ? 'bg-amber-400' : 'bg-red-300';
+                           return <div key={idx} className={`flex-1 rounded-t ${band}`} style={{ height: `${(b.count / peak) * 100}%` }} title={`${formatCurrency(b.from)} – ${formatCurrency(b.to)}: ${b.count} lần`} />;
+                         });
+                       })()}
+                    </div>
+                    <div className="flex justify-between text-[9px] text-slate-400 font-bold mb-6">
+                       <span>{formatCurrency(monteCarlo.histogram[0]?.from || 0)}</span>
+                       <span>Chi phí nhân sự (gồm công gián tiếp)</span>
+                       <span>{formatCurrency(monteCarlo.histogram[monteCarlo.histogram.length - 1]?.to || 0)}</span>
+                    </div>
+                    <table className="w-full text-xs">
+                       <thead className="text-[10px] font-black uppercase text-slate-400">
+                          <tr><th className="text-left py-1"></th><th className="text-right py-1">Điểm</th><th className="text-right py-1">P50</th><th className="text-right py-1">P80</th><th className="text-right py-1">P90</th></tr>
+                       </thead>
+                       <tbody>
+                          <tr className="border-t border-slate-100">
+                             <td className="py-2 font-bold text-slate-600">Tổng công (MD)</td>
+                             <td className="py-2 text-right">{laborMandays.toFixed(1)}</td>
+                             <td className="py-2 text-right font-bold">{monteCarlo.mandays.p50.toFixed(1)}</td>
+                             <td className="py-2 text-right font-bold">{monteCarlo.mandays.p80.toFixed(1)}</td>
+                             <td className="py-2 text-right font-bold">{monteCarlo.mandays.p90.toFixed(1)}</td>
+                          </tr>
+                          <tr className="border-t border-slate-100">
+                             <td className="py-2 font-bold text-slate-600">Tổng chi phí (hạ tầng + nhân sự)</td>
+                             <td className="py-2 text-right">{formatCurrency(infraTotal + monteCarlo.baselineLaborCost)}</td>
+                             <td className="py-2 text-right font-bold">{formatCurrency(infraTotal + monteCarlo.laborCost.p50)}</td>
+                             <td className="py-2 text-right font-bold">{formatCurrency(infraTotal + monteCarlo.laborCost.p80)}</td>
+                             <td className="py-2 text-right font-bold">{formatCurrency(infraTotal + monteCarlo.laborCost.p90)}</td>
+                          </tr>
+                       </tbody>
+                    </table>
+                    <p className="text-[10px] text-slate-400 mt-3">Báo giá đang dùng: <span className="font-bold text-indigo-600">{quoteSettings.laborPercentile ? QUOTE_PERCENTILE_LABELS[quoteSettings.laborPercentile] : 'ước lượng điểm'}</span>. Các đầu việc không có ước lượng 3 điểm được giữ cố định.</p>
+                 </div>
+               )}
+
+               <div className="bg-white p-8 rounded-[40px] border border-slate-200 shadow-xl">
+                  <div className="flex items-center justify-between mb-6">
+                     <h4 className="font-black text-lg">Nhân sự gián tiếp</h4>
+                     <span className="text-[10px] font-black text-slate-400 uppercase">{getOverheadMandays(overheadLines).toFixed(1)} MD · {formatCurrency(autoLaborTotal)}</span>
+                  </div>
+                  {overheadLines.length > 0 ? (
+                    <div className="space-y-2">
+                       {overheadLines.map(o => (
+                         <div key={o.rule.id} className="flex items-center justify-between gap-4 text-xs">
+                            <div>
+                               <p className="font-bold text-slate-700">{o.rule.label}: {describeOverheadRule(o.rule, roles)}</p>
+                               <p className="text-[10px] text-slate-400">{o.explanation}</p>
+                            </div>
+                            <span className="font-black text-indigo-600 flex-shrink-0">{o.mandays.toFixed(1)} MD</span>
+                         </div>
+                       ))}
+                    </div>
+                  ) : <p className="text-xs text-slate-400 italic">Dự án không tính công gián tiếp.</p>}
+               </div>
+
+               <div className="bg-white p-8 rounded-[40px] border border-slate-200 shadow-xl">
+                  <div className="flex items-center justify-between mb-6">
+                     <h4 className="font-black text-lg">Kiểm tra hạ tầng</h4>
+                     <div className="flex gap-2">
+                        {(Object.keys(LINT_SEVERITY_LABELS) as LintSeverity[]).map(sev => {
+                          const count = lintFindings.filter(f => f.severity === sev).length;
+                          return count > 0 ? <span key={sev} className={`text-[10px] font-black px-2 py-1 rounded-lg ${SEVERITY_STYLES[sev]}`}>{count} {LINT_SEVERITY_LABELS[sev].toLowerCase()}</span> : null;
+                        })}
+                     </div>
+                  </div>
+                  {lintFindings.length > 0 ? (
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                       {lintFindings.map((f, idx) => (
+                         <div key={idx} className="flex items-start gap-3 text-xs">
+                            <span className={`text-[9px] font-black px-1.5 py-0.5 rounded-md flex-shrink-0 ${SEVERITY_STYLES[f.severity]}`}>{LINT_SEVERITY_LABELS[f.severity]}</span>
+                            <span className="text-slate-600">{f.message}</span>
+                         </div>
+                       ))}
+                    </div>
+                  ) : <p className="text-xs text-emerald-600 font-bold">Danh sách server đạt tất cả quy tắc kiểm tra.</p>}
+               </div>
+
                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                   <div className="bg-white p-8 rounded-[40px] border border-slate-200 shadow-xl">
                      <h4 className="font-black text-lg mb-6">Lịch trình & Mốc quan trọng</h4>
@@ -426,52 +1499,77 @@ const App: React.FC = () => {
                      <button onClick={() => fileInputRef.current?.click()} className="bg-white text-indigo-600 border border-indigo-100 px-4 py-2 rounded-xl text-xs font-bold hover:bg-indigo-50 transition-all">Nhập Task Excel</button>
                      <button onClick={handleEstimateAll} disabled={isEstimatingAll} className="bg-amber-100 text-amber-700 px-4 py-2 rounded-xl text-xs font-bold hover:bg-amber-200 transition-all">{isEstimatingAll ? "Đang tính..." : "AI Ước lượng"}</button>
                      <button onClick={() => updateProject({ labors: [...currentProject.labors, { id: 'l'+Date.now(), taskName: 'Task mới', role: Role.JuniorDev, mandays: 1, description: '', status: TaskStatus.Todo, priority: Priority.Medium, assignee: '', dueDate: '' }] })} className="bg-indigo-600 text-white px-6 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500">+ Thêm Task</button>
+                     <button onClick={() => updateProject({ labors: [...currentProject.labors, { id: 'l'+Date.now(), taskName: 'Module mới', role: Role.SeniorDev, mandays: 0, description: '', status: TaskStatus.Todo, priority: Priority.Medium, assignee: '', dueDate: '' }] })} className="bg-white text-indigo-600 border border-indigo-100 px-4 py-2 rounded-xl text-xs font-bold hover:bg-indigo-50 transition-all">+ Thêm module</button>
                   </div>
                </div>
+               <FilterBar {...filterBarProps} facets={taskFacets} showOverdue sortLabels={TASK_SORT_LABELS} sort={filters.taskSort} onSortChange={(sort) => updateFilters({ taskSort: sort as SortOrder<TaskSortKey> | undefined })} shown={visibleLeaves.length} total={leafLabors.length} />
                <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-hidden">
                   <table className="w-full text-left">
                      <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 border-b">
-                        <tr><th className="px-6 py-4 w-1/4">Tên Task / Vai trò</th><th className="px-6 py-4 w-1/3">Mô tả chi tiết</th><th className="px-6 py-4 text-center w-32">Công (MD)</th><th className="px-6 py-4 text-right w-40">Chi phí</th><th className="px-6 py-4 w-16"></th></tr>
+                        <tr>
+                           <SortHeader label="Tên Task / Vai trò" sortKey="taskName" active={filters.taskSort} onClick={() => updateFilters({ taskSort: toggleSort(filters.taskSort, 'taskName') })} className="px-6 py-4 w-1/4" />
+                           <th className="px-6 py-4 w-1/3">Mô tả chi tiết</th>
+                           <SortHeader label="Công (MD)" sortKey="mandays" active={filters.taskSort} onClick={() => updateFilters({ taskSort: toggleSort(filters.taskSort, 'mandays') })} className="px-6 py-4 text-center w-32" />
+                           <SortHeader label="Chi phí" sortKey="cost" active={filters.taskSort} onClick={() => updateFilters({ taskSort: toggleSort(filters.taskSort, 'cost') })} className="px-6 py-4 text-right w-40" />
+                           <th className="px-6 py-4 w-28"></th>
+                        </tr>
                      </thead>
                      <tbody>
-                        {currentProject.labors.map(l => (
-                          <tr key={l.id} className="border-b border-slate-50 text-xs hover:bg-slate-50 transition-all group">
-                             <td className="px-6 py-4">
-                                <input className="w-full bg-transparent font-bold outline-none mb-1 focus:text-indigo-600" value={l.taskName} onChange={(e) => updateProject({ labors: currentProject.labors.map(item => item.id === l.id ? {...item, taskName: e.target.value} : item)})} />
-                                <select className="text-[9px] font-bold text-slate-400 bg-transparent outline-none" value={l.role} onChange={(e) => updateProject({ labors: currentProject.labors.map(item => item.id === l.id ? {...item, role: e.target.value as Role} : item)})}>
-                                   {Object.values(Role).map(r => <option key={r} value={r}>{r}</option>)}
-                                </select>
+                        {mandaysRows.length === 0 && <tr><td colSpan={5} className="px-6 py-10 text-center text-xs text-slate-400 italic">Không có đầu việc nào khớp bộ lọc.</td></tr>}
+                        {mandaysRows.map(({ item: l, code, depth, children, mandays, cost }) => (
+                          <tr key={l.id} className={`border-b border-slate-50 text-xs hover:bg-slate-50 transition-all group ${children.length > 0 ? 'bg-slate-50/60' : ''}`}>
+                             <td className="px-6 py-4" style={{ paddingLeft: 24 + depth * 20 }}>
+                                <div className="flex items-center gap-1.5 mb-1">
+                                   {children.length > 0 ? (
+                                     <button onClick={() => setCollapsedLaborIds(prev => prev.includes(l.id) ? prev.filter(id => id !== l.id) : [...prev, l.id])} className="text-[10px] text-slate-400 hover:text-indigo-600 w-3">{collapsedLaborIds.includes(l.id) ? '▸' : '▾'}</button>
+                                   ) : <span className="w-3" />}
+                                   <span className="text-[9px] font-black text-slate-300">{code}</span>
+                                   <input className={`w-full bg-transparent outline-none focus:text-indigo-600 ${children.length > 0 ? 'font-black' : 'font-bold'}`} value={l.taskName} onChange={(e) => updateProject({ labors: currentProject.labors.map(item => item.id === l.id ? {...item, taskName: e.target.value} : item)})} />
+                                </div>
+                                {children.length > 0 ? <span className="text-[9px] font-bold text-slate-400 pl-[18px]">Module · {children.length} mục con</span> : <select className="text-[9px] font-bold text-slate-400 bg-transparent outline-none" value={l.role} onChange={(e) => updateProject({ labors: currentProject.labors.map(item => item.id === l.id ? {...item, role: e.target.value} : item)})}>
+                                   {roles.map(r => <option key={r.code} value={r.code}>{r.name}</option>)}
+                                </select>}
                              </td>
                              <td className="px-6 py-4"><textarea rows={1} className="w-full bg-transparent text-[10px] text-slate-500 resize-none outline-none focus:text-slate-900" value={l.description} onChange={(e) => updateProject({ labors: currentProject.labors.map(item => item.id === l.id ? {...item, description: e.target.value} : item)})} /></td>
-                             <td className="px-6 py-4 text-center"><input type="number" step="0.5" className="w-16 text-center bg-slate-100 rounded-lg py-1 font-black" value={l.mandays} onChange={(e) => updateProject({ labors: currentProject.labors.map(item => item.id === l.id ? {...item, mandays: parseFloat(e.target.value) || 0} : item)})} /></td>
-                             <td className="px-6 py-4 text-right font-black">{formatCurrency(calculateLaborCost(l, currentProject.laborPrices))}</td>
-                             <td className="px-6 py-4 text-right"><button onClick={() => updateProject({ labors: currentProject.labors.filter(item => item.id !== l.id)})} className="text-red-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all">×</button></td>
+                             <td className="px-6 py-4 text-center">
+                                {children.length > 0 ? <span className="font-black text-slate-700" title="Tổng công của các mục con">{mandays.toFixed(1)}</span> : <>
+                                <input type="number" step="0.5" disabled={!!l.estimate} className="w-16 text-center bg-slate-100 rounded-lg py-1 font-black disabled:text-indigo-600 disabled:bg-indigo-50" value={l.mandays} onChange={(e) => updateProject({ labors: currentProject.labors.map(item => item.id === l.id ? {...item, mandays: parseFloat(e.target.value) || 0} : item)})} title={l.estimate ? 'Giá trị kỳ vọng PERT (O + 4M + P) / 6' : undefined} />
+                                {l.estimate ? (
+                                  <div className="mt-1 flex items-center justify-center gap-0.5" title="Lạc quan / Khả dĩ nhất / Bi quan">
+                                    {(['optimistic', 'mostLikely', 'pessimistic'] as (keyof ThreePointEstimate)[]).map(k => (
+                                      <input key={k} type="number" step="0.5" min={0} className="w-9 text-center bg-slate-50 border border-slate-200 rounded text-[9px] font-bold outline-none" value={l.estimate![k]} onChange={(e) => updateLaborEstimate(l.id, { ...l.estimate!, [k]: parseFloat(e.target.value) || 0 })} onBlur={() => updateLaborEstimate(l.id, normalizeEstimate(l.estimate!))} />
+                                    ))}
+                                    <button onClick={() => updateLaborEstimate(l.id, undefined)} className="text-[9px] text-slate-300 hover:text-red-500 px-0.5" title="Bỏ ước lượng 3 điểm">×</button>
+                                  </div>
+                                ) : (
+                                  <button onClick={() => updateLaborEstimate(l.id, { optimistic: l.mandays * 0.75, mostLikely: l.mandays, pessimistic: l.mandays * 1.5 })} className="block mx-auto mt-1 text-[9px] font-bold text-slate-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all">+ 3 điểm</button>
+                                )}
+                                {l.estimate && <p className="text-[8px] text-slate-400 mt-0.5">σ ≈ {pertStdDev(normalizeEstimate(l.estimate)).toFixed(1)}</p>}
+                                </>}
+                             </td>
+                             <td className="px-6 py-4 text-right font-black">{formatCurrency(cost)}</td>
+                             <td className="px-6 py-4 text-right whitespace-nowrap">
+                                <div className="flex justify-end gap-1.5 opacity-0 group-hover:opacity-100 transition-all">
+                                   <button onClick={() => addLaborChild(l.id)} className="text-slate-300 hover:text-indigo-600" title="Thêm mục con">+</button>
+                                   <button onClick={() => updateProject({ labors: outdentLabor(currentProject.labors, l.id) })} disabled={depth === 0} className="text-slate-300 hover:text-indigo-600 disabled:opacity-30" title="Lên một cấp">←</button>
+                                   <button onClick={() => updateProject({ labors: indentLabor(currentProject.labors, l.id) })} className="text-slate-300 hover:text-indigo-600" title="Đưa vào mục phía trên">→</button>
+                                   <button onClick={() => { if (children.length === 0 || confirm('Xóa module cùng toàn bộ mục con?')) updateProject({ labors: removeLaborSubtree(currentProject.labors, l.id) }); }} className="text-red-300 hover:text-red-500" title="Xóa">×</button>
+                                </div>
+                             </td>
                           </tr>
                         ))}
-                        {autoLaborStats.devTotal > 0 && (
+                        {overheadLines.some(o => o.mandays > 0) && (
                           <>
-                             <tr className="bg-slate-50/50"><td colSpan={5} className="px-6 py-2 text-[9px] font-black text-slate-400 uppercase tracking-widest border-y border-slate-100">Chi phí gián tiếp (Tự động 1:3 dựa trên Dev)</td></tr>
-                             <tr className="bg-indigo-50/30 italic text-xs border-b border-slate-100">
-                                <td className="px-6 py-4 font-bold text-indigo-600">Project Manager / EM</td>
-                                <td className="px-6 py-4 text-[10px] text-slate-400">Điều hành dự án & Giao tiếp khách hàng</td>
-                                <td className="px-6 py-4 text-center font-bold">{autoLaborStats.pm.toFixed(1)}</td>
-                                <td className="px-6 py-4 text-right font-black">{formatCurrency(autoLaborStats.pm * (currentProject.laborPrices[Role.PM] || 0))}</td>
-                                <td></td>
-                             </tr>
-                             <tr className="bg-indigo-50/30 italic text-xs border-b border-slate-100">
-                                <td className="px-6 py-4 font-bold text-indigo-600">Business Analyst</td>
-                                <td className="px-6 py-4 text-[10px] text-slate-400">Phân tích & Quản lý yêu cầu nghiệp vụ</td>
-                                <td className="px-6 py-4 text-center font-bold">{autoLaborStats.ba.toFixed(1)}</td>
-                                <td className="px-6 py-4 text-right font-black">{formatCurrency(autoLaborStats.ba * (currentProject.laborPrices[Role.BA] || 0))}</td>
-                                <td></td>
-                             </tr>
-                             <tr className="bg-indigo-50/30 italic text-xs border-b border-slate-100">
-                                <td className="px-6 py-4 font-bold text-indigo-600">Quality Control (QC)</td>
-                                <td className="px-6 py-4 text-[10px] text-slate-400">Kiểm thử chất lượng & Quy trình</td>
-                                <td className="px-6 py-4 text-center font-bold">{autoLaborStats.qc.toFixed(1)}</td>
-                                <td className="px-6 py-4 text-right font-black">{formatCurrency(autoLaborStats.qc * (currentProject.laborPrices[Role.QC] || 0))}</td>
-                                <td></td>
-                             </tr>
+                             <tr className="bg-slate-50/50"><td colSpan={5} className="px-6 py-2 text-[9px] font-black text-slate-400 uppercase tracking-widest border-y border-slate-100">Chi phí gián tiếp (tự động theo quy tắc nhân sự)</td></tr>
+                             {overheadLines.filter(o => o.mandays > 0).map(o => (
+                               <tr key={o.rule.id} className="bg-indigo-50/30 italic text-xs border-b border-slate-100">
+                                  <td className="px-6 py-4 font-bold text-indigo-600">{o.rule.label}<span className="block text-[9px] not-italic text-slate-400">{getRoleName(roles, o.rule.targetRole)}</span></td>
+                                  <td className="px-6 py-4 text-[10px] text-slate-400">{o.explanation}</td>
+                                  <td className="px-6 py-4 text-center font-bold">{o.mandays.toFixed(1)}</td>
+                                  <td className="px-6 py-4 text-right font-black">{formatCurrency(o.mandays * (scenarioProject?.laborPrices[o.rule.targetRole] || 0))}</td>
+                                  <td></td>
+                               </tr>
+                             ))}
                           </>
                         )}
                      </tbody>
@@ -480,38 +1578,461 @@ const App: React.FC = () => {
             </div>
           )}
 
-          {activeTab === 'board' && (
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 h-full pb-10 animate-in fade-in duration-500">
-               {[TaskStatus.Todo, TaskStatus.Doing, TaskStatus.Review, TaskStatus.Done].map(status => (
-                 <div key={status} className="flex flex-col gap-4">
-                    <div className="flex items-center justify-between px-2">
-                       <h4 className="font-black text-xs uppercase text-slate-500 flex items-center gap-2">
-                          <div className={`w-2 h-2 rounded-full ${status === TaskStatus.Todo ? 'bg-slate-300' : status === TaskStatus.Doing ? 'bg-indigo-500' : status === TaskStatus.Review ? 'bg-amber-400' : 'bg-emerald-500'}`}></div>
-                          {status}
-                       </h4>
-                       <span className="bg-slate-200 text-slate-600 text-[10px] px-2 py-0.5 rounded-full font-black">{currentProject.labors.filter(t => t.status === status).length}</span>
+          {activeTab === 'board' && boardSettings && (
+            <div className="space-y-6 pb-10 animate-in fade-in duration-500">
+               <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                  <p className="text-xs text-slate-400 font-bold">Kéo thả thẻ để đổi trạng thái hoặc thứ tự; bấm vào thẻ để xem chi tiết.{hasTaskFilters(filters) ? ' Giới hạn WIP tính trên toàn bộ thẻ, kể cả thẻ đang bị lọc.' : ''}</p>
+                  <label className="flex items-center gap-2 text-xs font-bold text-slate-500">Chia làn theo
+                     <select className="text-xs font-black bg-white border border-slate-200 rounded-xl px-3 py-2 outline-none" value={boardSettings.swimlane} onChange={(e) => updateBoardSettings({ swimlane: e.target.value as Swimlane })}>
+                        {(Object.keys(SWIMLANE_LABELS) as Swimlane[]).map(k => <option key={k} value={k}>{SWIMLANE_LABELS[k]}</option>)}
+                     </select>
+                  </label>
+               </div>
+               <FilterBar {...filterBarProps} facets={taskFacets} showOverdue sortLabels={{}} onSortChange={() => undefined} shown={visibleLeaves.length} total={leafLabors.length} />
+               {overWipColumns.length > 0 && (
+                 <div className="bg-red-50 border border-red-200 rounded-3xl p-4 space-y-1">
+                    {overWipColumns.map(st => <p key={st} className="text-xs font-bold text-red-600">⚠ Cột "{st}" có {leafLabors.filter(t => t.status === st).length} thẻ, vượt giới hạn WIP {boardSettings.wipLimits[st]}</p>)}
+                 </div>
+               )}
+               <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                  {Object.values(TaskStatus).map(status => {
+                    const count = leafLabors.filter(t => t.status === status).length;
+                    const limit = boardSettings.wipLimits[status];
+                    return (
+                      <div key={status} className="flex items-center justify-between px-2">
+                         <h4 className="font-black text-xs uppercase text-slate-500 flex items-center gap-2">
+                            <div className={`w-2 h-2 rounded-full ${STATUS_DOT_COLORS[status]}`}></div>
+                            {status}
+                         </h4>
+                         <div className="flex items-center gap-1.5">
+                            <span className={`text-[10px] px-2 py-0.5 rounded-full font-black ${limit !== undefined && count > limit ? 'bg-red-500 text-white' : 'bg-slate-200 text-slate-600'}`}>{count}{limit !== undefined ? `/${limit}` : ''}</span>
+                            <input type="number" min={0} className="w-10 text-[10px] font-bold text-slate-400 bg-transparent border-b border-slate-200 outline-none text-center" placeholder="WIP" title="Giới hạn WIP (để trống = không giới hạn)" value={limit ?? ''} onChange={(e) => {
+                              const { [status]: _, ...rest } = boardSettings.wipLimits;
+                              updateBoardSettings({ wipLimits: e.target.value === '' ? rest : { ...rest, [status]: Math.max(0, parseInt(e.target.value) || 0) } });
+                            }} />
+                         </div>
+                      </div>
+                    );
+                  })}
+               </div>
+               {boardLanes.map(lane => {
+                 const laneTasks = visibleLeaves.filter(t => boardSettings.swimlane === 'none' || getLaneKey(t, boardSettings.swimlane, team) === lane.key);
+                 return (
+                   <div key={lane.key} className="space-y-3">
+                      {boardSettings.swimlane !== 'none' && <h5 className="text-[11px] font-black text-slate-600 px-2">{lane.label} <span className="text-slate-300">· {laneTasks.length}</span></h5>}
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                         {Object.values(TaskStatus).map(status => (
+                           <div key={status} onDragOver={(e) => e.preventDefault()} onDrop={(e) => { e.preventDefault(); dropTask(status, lane.key); }} className={`space-y-4 bg-slate-200/30 p-4 rounded-3xl border border-slate-200/50 overflow-y-auto ${boardSettings.swimlane === 'none' ? 'min-h-[500px] max-h-[calc(100vh-300px)]' : 'min-h-[120px]'}`}>
+                              {sortBoardColumn(laneTasks.filter(t => t.status === status)).map(task => (
+                                <KanbanCard key={task.id} task={task} dragging={dragTaskId === task.id} onOpen={() => setDetailTaskId(task.id)} onDragStart={() => setDragTaskId(task.id)} onDragEnd={() => setDragTaskId(null)} onDrop={() => dropTask(status, lane.key, task.id)} />
+                              ))}
+                              <button onClick={() => updateProject({ labors: [...currentProject.labors, applyLane({ id: 'l'+Date.now(), taskName: 'Task mới', role: Role.JuniorDev, mandays: 1, description: '', status: status, priority: Priority.Medium, assignee: '', dueDate: '' }, boardSettings.swimlane, lane.key, team)] })} className="w-full py-3 border-2 border-dashed border-slate-200 rounded-2xl text-[10px] font-black text-slate-400 hover:border-indigo-300 hover:text-indigo-500 transition-all">+ Task mới</button>
+                           </div>
+                         ))}
+                      </div>
+                   </div>
+                 );
+               })}
+            </div>
+          )}
+
+          {activeTab === 'gantt' && schedule && (
+            <div className="space-y-6 animate-in fade-in duration-500 pb-20">
+               <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                  <div>
+                     <h3 className="font-black text-2xl text-slate-800 tracking-tight">Tiến độ dự kiến</h3>
+                     <p className="text-xs text-slate-400 font-bold mt-1">{formatScheduleDate(schedule.startDate)} → {formatScheduleDate(schedule.finishDate)} · {schedule.duration} ngày làm việc · {schedule.criticalPath.length} đầu việc trên đường găng{!currentProject.startDate && ' · chưa đặt ngày bắt đầu, tạm tính từ hôm nay'}</p>
+                  </div>
+                  <div className="flex items-center gap-4 text-[10px] font-bold text-slate-500">
+                     <span className="flex items-center gap-1.5"><span className="w-3 h-2 rounded-sm bg-rose-500" /> Đường găng</span>
+                     <span className="flex items-center gap-1.5"><span className="w-3 h-2 rounded-sm bg-indigo-400" /> Còn dự trữ</span>
+                     <span className="flex items-center gap-1.5"><span className="w-0.5 h-3 bg-amber-500" /> Mốc</span>
+                     <span className="flex items-center gap-1.5"><span className="w-0.5 h-3 bg-red-600" /> Kết thúc dự án</span>
+                  </div>
+               </div>
+
+               {schedule.warnings.length > 0 && (
+                 <div className="bg-amber-50 border border-amber-200 rounded-3xl p-5 space-y-1.5">
+                   {schedule.warnings.map((w, idx) => <p key={idx} className={`text-xs font-bold ${w.kind === 'projectEnd' || w.kind === 'cycle' ? 'text-red-600' : 'text-amber-700'}`}>⚠ {w.message}</p>)}
+                 </div>
+               )}
+
+               <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-x-auto">
+                  <table className="w-full text-left min-w-[960px]">
+                     <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 border-b">
+                        <tr><th className="px-4 py-3 w-56">Đầu việc</th><th className="px-4 py-3 w-48">Phụ thuộc / Mốc</th><th className="px-2 py-3 text-center w-14">Ngày</th><th className="px-2 py-3 w-24">Bắt đầu</th><th className="px-2 py-3 w-24">Kết thúc</th><th className="px-4 py-3"><div className="flex justify-between normal-case"><span>{formatScheduleDate(schedule.startDate)}</span><span>{formatScheduleDate(ganttEnd)}</span></div></th></tr>
+                     </thead>
+                     <tbody>
+                        {wbsRows.map(({ item: l, code, depth, children }) => {
+                          const task = schedule.tasks[l.id];
+                          return (
+                            <tr key={l.id} className={`border-b border-slate-50 text-xs group ${children.length > 0 ? 'bg-slate-50/60' : ''}`}>
+                               <td className="px-4 py-2" style={{ paddingLeft: 16 + depth * 16 }}>
+                                  <div className="flex items-center gap-1.5">
+                                     {children.length > 0 ? (
+                                       <button onClick={() => setCollapsedLaborIds(prev => prev.includes(l.id) ? prev.filter(id => id !== l.id) : [...prev, l.id])} className="text-[10px] text-slate-400 hover:text-indigo-600 w-3">{collapsedLaborIds.includes(l.id) ? '▸' : '▾'}</button>
+                                     ) : <span className="w-3" />}
+                                     <span className="text-[9px] font-black text-slate-300">{code}</span>
+                                     <span className={`truncate ${children.length > 0 ? 'font-black' : 'font-bold'} ${task?.critical && children.length === 0 ? 'text-rose-600' : 'text-slate-700'}`}>{l.taskName}</span>
+                                  </div>
+                                  {children.length === 0 && <span className="text-[9px] text-slate-400 pl-[18px]">{getRoleName(roles, l.role)} · {l.mandays} MD{l.assignee ? ` · ${l.assignee}` : ''}</span>}
+                               </td>
+                               <td className="px-4 py-2">
+                                  <div className="flex flex-wrap items-center gap-1">
+                                     {(l.predecessorIds || []).filter(id => wbsCodes[id]).map(id => (
+                                       <span key={id} className="bg-slate-100 text-slate-600 rounded px-1.5 py-0.5 text-[9px] font-bold" title={currentProject.labors.find(x => x.id === id)?.taskName}>
+                                          {wbsCodes[id]}<button onClick={() => updateLabor(l.id, { predecessorIds: (l.predecessorIds || []).filter(p => p !== id) })} className="ml-1 text-slate-400 hover:text-red-500">×</button>
+                                       </span>
+                                     ))}
+                                     <select className="text-[9px] font-bold text-slate-400 bg-transparent outline-none w-16 opacity-0 group-hover:opacity-100 focus:opacity-100" value="" onChange={(e) => e.target.value && updateLabor(l.id, { predecessorIds: [...(l.predecessorIds || []), e.target.value] })}>
+                                        <option value="">+ Sau...</option>
+                                        {getPredecessorCandidates(currentProject.labors, l.id).filter(c => !(l.predecessorIds || []).includes(c.id)).map(c => <option key={c.id} value={c.id}>{wbsCodes[c.id]} {c.taskName}</option>)}
+                                     </select>
+                                  </div>
+                                  {milestones.length > 0 && (
+                                    <select className="mt-1 text-[9px] font-bold text-amber-600 bg-transparent outline-none max-w-full" value={l.milestoneId || ''} onChange={(e) => updateLabor(l.id, { milestoneId: e.target.value || undefined })}>
+                                       <option value="">— Không gắn mốc —</option>
+                                       {milestones.map(m => <option key={m.id} value={m.id}>Xong trước mốc: {m.title}</option>)}
+                                    </select>
+                                  )}
+                               </td>
+                               <td className="px-2 py-2 text-center font-black">{task ? task.duration : '-'}</td>
+                               <td className="px-2 py-2 text-[10px] font-bold text-slate-500">{task ? formatScheduleDate(task.startDate) : '-'}</td>
+                               <td className={`px-2 py-2 text-[10px] font-bold ${l.dueDate && task && task.finishDate > l.dueDate ? 'text-red-600' : 'text-slate-500'}`}>{task ? formatScheduleDate(task.finishDate) : '-'}</td>
+                               <td className="px-4 py-2">
+                                  <div className="relative h-5 bg-slate-50 rounded">
+                                     {milestones.filter(m => m.date >= schedule.startDate).map(m => <div key={m.id} className="absolute inset-y-0 w-0.5 bg-amber-500/70" style={{ left: ganttOffset(m.date) }} title={`${m.title} (${formatScheduleDate(m.date)})`} />)}
+                                     {currentProject.endDate && currentProject.endDate >= schedule.startDate && <div className="absolute inset-y-0 w-0.5 bg-red-600/70" style={{ left: ganttOffset(currentProject.endDate) }} />}
+                                     {task && task.duration > 0 && (
+                                       <div
+                                         className={`absolute rounded ${children.length > 0 ? 'top-1.5 h-2 bg-slate-400' : `top-0.5 h-4 ${task.critical ? 'bg-rose-500' : 'bg-indigo-400'}`}`}
+                                         style={{ left: ganttOffset(task.startDate), width: `${Math.max(0.5, (calendarDaysBetween(task.startDate, task.finishDate) + 1) / ganttDays * 100)}%` }}
+                                         title={`${formatScheduleDate(task.startDate)} → ${formatScheduleDate(task.finishDate)}${task.slack > 0 ? ` · dự trữ ${task.slack} ngày` : ''}`}
+                                       />
+                                     )}
+                                  </div>
+                               </td>
+                            </tr>
+                          );
+                        })}
+                        {wbsRows.length === 0 && <tr><td colSpan={6} className="px-6 py-10 text-center text-xs text-slate-400 italic">Chưa có đầu việc nào để lập lịch.</td></tr>}
+                     </tbody>
+                  </table>
+               </div>
+               <p className="text-[10px] text-slate-400">Thời lượng = số công ÷ số người của vai trò (thiết lập trong Lịch làm việc), làm tròn lên theo ngày làm việc, bỏ qua ngày nghỉ lễ. Module phụ thuộc thì mọi đầu việc bên trong cùng phụ thuộc.</p>
+            </div>
+          )}
+
+          {activeTab === 'calendar' && (
+            <div className="space-y-6 animate-in fade-in duration-500 pb-20">
+               <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                  <div>
+                     <h3 className="font-black text-2xl text-slate-800 tracking-tight">Lịch dự án</h3>
+                     <p className="text-xs text-slate-400 font-bold mt-1">{calendarEvents.filter(e => e.overdue).length} mục quá hạn · {calendarEvents.filter(e => e.kind === 'task').length} hạn đầu việc, {calendarEvents.filter(e => e.kind === 'milestone').length} mốc, {calendarEvents.filter(e => e.kind === 'meeting').length} cuộc họp</p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                     <select className="text-xs font-bold bg-white border border-slate-200 rounded-xl px-3 py-2 outline-none" value={calendarAssignee ?? '__all'} onChange={(e) => setCalendarAssignee(e.target.value === '__all' ? null : e.target.value)}>
+                        <option value="__all">Mọi người</option>
+                        {(taskFacets.find(f => f.key === 'assignees')?.options || []).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                     </select>
+                     <button onClick={() => exportCalendarToIcs(currentProject, shownCalendarEvents, calendarAssignee === null ? '' : taskFacets.find(f => f.key === 'assignees')?.options.find(o => o.value === calendarAssignee)?.label.replace(/ \(ngoài đội\)$/, '') || 'chua_giao')} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500">Xuất .ics</button>
+                  </div>
+               </div>
+
+               <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl p-6">
+                  <div className="flex items-center justify-between mb-4">
+                     <div className="flex items-center gap-2">
+                        <button onClick={() => shiftCalendar(-1)} className="w-8 h-8 rounded-xl bg-slate-100 font-black text-slate-500 hover:bg-slate-200">‹</button>
+                        <button onClick={() => setCalendarAnchor(today)} className="px-3 h-8 rounded-xl bg-slate-100 text-xs font-bold text-slate-600 hover:bg-slate-200">Hôm nay</button>
+                        <button onClick={() => shiftCalendar(1)} className="w-8 h-8 rounded-xl bg-slate-100 font-black text-slate-500 hover:bg-slate-200">›</button>
+                        <h4 className="font-black text-lg ml-2">{calendarMode === 'month' ? `Tháng ${Number(calendarAnchor.slice(5, 7))}/${calendarAnchor.slice(0, 4)}` : `${formatScheduleDate(calendarDates[0])} – ${formatScheduleDate(calendarDates[6])}`}</h4>
+                     </div>
+                     <div className="flex bg-slate-100 rounded-xl p-1 text-xs font-bold">
+                        {(['month', 'week'] as const).map(mode => <button key={mode} onClick={() => setCalendarMode(mode)} className={`px-3 py-1 rounded-lg ${calendarMode === mode ? 'bg-white shadow text-indigo-600' : 'text-slate-500'}`}>{mode === 'month' ? 'Tháng' : 'Tuần'}</button>)}
+                     </div>
+                  </div>
+                  <div className="grid grid-cols-7 gap-px bg-slate-100 rounded-2xl overflow-hidden border border-slate-100">
+                     {[1, 2, 3, 4, 5, 6, 0].map(d => <div key={d} className="bg-slate-50 py-2 text-center text-[10px] font-black uppercase text-slate-400">{WEEKDAY_LABELS[d]}</div>)}
+                     {calendarDates.map(date => {
+                       const events = shownCalendarEvents.filter(e => e.date === date);
+                       const limit = calendarMode === 'month' ? 3 : events.length;
+                       const outside = calendarMode === 'month' && date.slice(0, 7) !== calendarAnchor.slice(0, 7);
+                       return (
+                         <div key={date} className={`bg-white p-1.5 space-y-1 ${calendarMode === 'month' ? 'min-h-[96px]' : 'min-h-[320px]'} ${outside ? 'bg-slate-50/80' : ''}`}>
+                            <p className={`text-[10px] font-black text-right ${date === today ? 'text-white bg-indigo-600 rounded-full w-5 h-5 flex items-center justify-center ml-auto' : outside ? 'text-slate-300' : 'text-slate-500'}`}>{Number(date.slice(8))}</p>
+                            {events.slice(0, limit).map(e => <CalendarChip key={e.id} event={e} onClick={e.kind === 'task' ? () => setDetailTaskId(e.sourceId) : undefined} />)}
+                            {events.length > limit && <button onClick={() => { setCalendarAnchor(date); setCalendarMode('week'); }} className="text-[9px] font-bold text-slate-400 hover:text-indigo-600">+{events.length - limit} mục khác</button>}
+                         </div>
+                       );
+                     })}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 mt-4 text-[10px] font-bold text-slate-500">
+                     {(Object.keys(CALENDAR_EVENT_LABELS) as CalendarEvent['kind'][]).map(kind => <span key={kind} className="flex items-center gap-1.5"><span className={`w-3 h-3 rounded ${CALENDAR_EVENT_STYLES[kind]}`} />{CALENDAR_EVENT_LABELS[kind]}</span>)}
+                     <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-red-100 ring-1 ring-red-300" />Quá hạn</span>
+                     <span className="ml-auto text-slate-400">Lọc theo người chỉ áp dụng cho đầu việc; mốc và cuộc họp luôn hiển thị và được xuất kèm.</span>
+                  </div>
+               </div>
+            </div>
+          )}
+
+          {activeTab === 'tracking' && earnedValue && (
+            <div className="space-y-6 animate-in fade-in duration-500 pb-20">
+               <div>
+                  <h3 className="font-black text-2xl text-slate-800 tracking-tight">Theo dõi thực tế</h3>
+                  <p className="text-xs text-slate-400 font-bold mt-1">Giá trị thu được tính đến {formatScheduleDate(earnedValue.asOf)} · ngân sách nhân sự (BAC) {formatCurrency(earnedValue.bac)}</p>
+               </div>
+
+               <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                  {[
+                    { label: 'PV (kế hoạch)', value: formatCurrency(earnedValue.pv), tone: 'text-slate-800' },
+                    { label: 'EV (thu được)', value: formatCurrency(earnedValue.ev), tone: 'text-indigo-600' },
+                    { label: 'AC (thực chi)', value: formatCurrency(earnedValue.ac), tone: 'text-slate-800' },
+                    { label: 'CPI', value: earnedValue.cpi !== null ? earnedValue.cpi.toFixed(2) : '-', tone: earnedValue.cpi !== null && earnedValue.cpi < 1 ? 'text-red-600' : 'text-emerald-600' },
+                    { label: 'SPI', value: earnedValue.spi !== null ? earnedValue.spi.toFixed(2) : '-', tone: earnedValue.spi !== null && earnedValue.spi < 1 ? 'text-red-600' : 'text-emerald-600' },
+                    { label: 'EAC (dự báo)', value: earnedValue.eac !== null ? formatCurrency(earnedValue.eac) : '-', tone: earnedValue.eac !== null && earnedValue.eac > earnedValue.bac ? 'text-red-600' : 'text-slate-800' }
+                  ].map(card => (
+                    <div key={card.label} className="bg-white p-5 rounded-[24px] border border-slate-200 shadow-sm">
+                       <span className="text-slate-400 font-bold text-[10px] uppercase">{card.label}</span>
+                       <p className={`text-lg font-black mt-1 ${card.tone}`}>{card.value}</p>
                     </div>
-                    <div className="flex-1 space-y-4 min-h-[500px] bg-slate-200/30 p-4 rounded-3xl border border-slate-200/50 overflow-y-auto max-h-[calc(100vh-250px)]">
-                       {currentProject.labors.filter(t => t.status === status).map(task => (
-                         <div key={task.id} className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100 group hover:shadow-md transition-all">
-                            <div className="flex justify-between items-start mb-3">
-                               <PriorityBadge priority={task.priority} />
-                               <select className="text-[9px] font-bold bg-slate-100 rounded outline-none cursor-pointer" value={task.status} onChange={(e) => updateProject({ labors: currentProject.labors.map(t => t.id === task.id ? {...t, status: e.target.value as TaskStatus} : t)})}>
-                                  {Object.values(TaskStatus).map(s => <option key={s} value={s}>{s}</option>)}
-                               </select>
-                            </div>
-                            <h5 className="font-bold text-xs text-slate-800 mb-2 leading-snug">{task.taskName}</h5>
-                            <p className="text-[10px] text-slate-400 line-clamp-2">{task.description || "Không có mô tả."}</p>
-                            <div className="flex items-center justify-between mt-4">
-                               <input className="text-[10px] text-slate-400 bg-transparent border-none outline-none w-24 focus:text-indigo-600 font-bold" placeholder="Gán người..." value={task.assignee} onChange={(e) => updateProject({ labors: currentProject.labors.map(t => t.id === task.id ? {...t, assignee: e.target.value} : t)})} />
-                               <span className="text-[10px] font-black text-indigo-400">{task.mandays} MD</span>
-                            </div>
+                  ))}
+               </div>
+
+               <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl p-8">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+                     <h4 className="font-black text-lg">Burn-up (MD)</h4>
+                     <div className="flex items-center gap-4 text-[10px] font-bold text-slate-500">
+                        <span className="flex items-center gap-1.5"><span className="w-4 border-t-2 border-dashed border-indigo-400" /> Kế hoạch</span>
+                        <span className="flex items-center gap-1.5"><span className="w-4 border-t-2 border-emerald-500" /> Thực tế</span>
+                        <span className="flex items-center gap-1.5"><span className="w-4 border-t border-dashed border-slate-300" /> Tổng phạm vi</span>
+                        <span className="flex items-center gap-1.5"><span className="w-0.5 h-3 bg-amber-500" /> Hôm nay</span>
+                     </div>
+                  </div>
+                  <BurnUpChart points={burnUp} asOf={today} />
+               </div>
+
+               <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-hidden">
+                  <table className="w-full text-left">
+                     <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 border-b">
+                        <tr><th className="px-6 py-4">Đầu việc</th><th className="px-4 py-4 text-center w-24">Ước lượng</th><th className="px-4 py-4 text-center w-24">Thực tế</th><th className="px-4 py-4 text-center w-24">Chênh lệch</th><th className="px-4 py-4 text-center w-28">Hoàn thành</th><th className="px-4 py-4 w-24"></th></tr>
+                     </thead>
+                     <tbody>
+                        {leafLabors.map(l => {
+                          const actual = getActualMandays(l);
+                          const variance = getMandayVariance(l);
+                          const open = actualDraft?.taskId === l.id;
+                          return (
+                            <React.Fragment key={l.id}>
+                              <tr className="border-b border-slate-50 text-xs hover:bg-slate-50 transition-all">
+                                 <td className="px-6 py-3">
+                                    <p className="font-bold text-slate-700"><span className="text-[9px] font-black text-slate-300 mr-1.5">{wbsCodes[l.id]}</span>{l.taskName}</p>
+                                    <p className="text-[9px] text-slate-400">{getRoleName(roles, l.role)}{l.assignee ? ` · ${l.assignee}` : ''} · {l.status}</p>
+                                 </td>
+                                 <td className="px-4 py-3 text-center font-bold">{l.mandays.toFixed(1)}</td>
+                                 <td className="px-4 py-3 text-center font-black">{actual > 0 ? actual.toFixed(1) : '-'}</td>
+                                 <td className={`px-4 py-3 text-center font-black ${actual === 0 ? 'text-slate-300' : variance > 0 ? 'text-red-600' : 'text-emerald-600'}`}>{actual > 0 ? `${variance > 0 ? '+' : ''}${variance.toFixed(1)}` : '-'}</td>
+                                 <td className="px-4 py-3 text-center"><input type="number" min={0} max={100} step={10} className="w-14 text-center bg-slate-100 rounded-lg py-1 font-black outline-none placeholder:text-slate-400" placeholder={String(getPercentComplete({ ...l, percentComplete: undefined }))} value={l.percentComplete ?? ''} onChange={(e) => updateLabor(l.id, { percentComplete: e.target.value === '' ? undefined : Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })} /> <span className="text-[10px] text-slate-400">%</span></td>
+                                 <td className="px-4 py-3 text-right"><button onClick={() => setActualDraft(open ? null : { taskId: l.id, date: today, memberId: findAssignee(l, team)?.id, person: l.assignee, mandays: 0, note: '' })} className="text-[10px] font-black text-indigo-600 hover:text-indigo-500">{open ? 'Đóng' : `Ghi công${(l.actuals || []).length > 0 ? ` (${l.actuals!.length})` : ''}`}</button></td>
+                              </tr>
+                              {open && actualDraft && (
+                                <tr className="bg-slate-50/60 border-b border-slate-100">
+                                   <td colSpan={6} className="px-6 py-3 space-y-2">
+                                      {(l.actuals || []).slice().sort((a, b) => a.date.localeCompare(b.date)).map(a => (
+                                        <div key={a.id} className="flex items-center gap-3 text-[11px]">
+                                           <span className="w-20 font-bold text-slate-500">{formatScheduleDate(a.date)}</span>
+                                           <span className="w-32 truncate font-bold text-slate-700">{a.person || 'Không rõ'}</span>
+                                           <span className="w-16 font-black">{a.mandays} MD</span>
+                                           <span className="flex-1 text-slate-400 truncate">{a.note}</span>
+                                           <button onClick={() => updateLabor(l.id, { actuals: (l.actuals || []).filter(x => x.id !== a.id) })} className="text-red-300 hover:text-red-500">×</button>
+                                        </div>
+                                      ))}
+                                      <div className="flex flex-wrap items-center gap-2 text-[11px]">
+                                         <input type="date" className="bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none" value={actualDraft.date} onChange={(e) => setActualDraft({ ...actualDraft, date: e.target.value || today })} />
+                                         {team.length > 0 ? (
+                                           <select className="bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none" value={actualDraft.memberId || ''} onChange={(e) => { const m = team.find(x => x.id === e.target.value); setActualDraft({ ...actualDraft, memberId: m?.id, person: m?.name || '' }); }}>
+                                              <option value="">Người thực hiện...</option>
+                                              {team.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                           </select>
+                                         ) : (
+                                           <input className="bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none w-32" placeholder="Người thực hiện" value={actualDraft.person} onChange={(e) => setActualDraft({ ...actualDraft, person: e.target.value })} />
+                                         )}
+                                         <input type="number" min={0} step={0.5} className="w-16 bg-white border border-slate-200 rounded-lg px-2 py-1 font-black text-right outline-none" placeholder="MD" value={actualDraft.mandays || ''} onChange={(e) => setActualDraft({ ...actualDraft, mandays: parseFloat(e.target.value) || 0 })} />
+                                         <input className="flex-1 min-w-[120px] bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none" placeholder="Ghi chú" value={actualDraft.note || ''} onChange={(e) => setActualDraft({ ...actualDraft, note: e.target.value })} onKeyDown={(e) => e.key === 'Enter' && addActualEntry()} />
+                                         <button onClick={addActualEntry} disabled={!(actualDraft.mandays > 0)} className="bg-indigo-600 text-white px-4 py-1 rounded-lg font-bold disabled:opacity-40">+ Ghi</button>
+                                      </div>
+                                   </td>
+                                </tr>
+                              )}
+                            </React.Fragment>
+                          );
+                        })}
+                        {leafLabors.length === 0 && <tr><td colSpan={6} className="px-6 py-10 text-center text-xs text-slate-400 italic">Chưa có đầu việc nào.</td></tr>}
+                     </tbody>
+                  </table>
+               </div>
+               <p className="text-[10px] text-slate-400">% hoàn thành để trống sẽ lấy theo trạng thái trên Board (Đang làm 50%, Đang kiểm tra 90%). Chi phí thực tế tính theo đơn giá riêng của người ghi công, nếu không có thì theo đơn giá của đầu việc.</p>
+            </div>
+          )}
+
+          {activeTab === 'risks' && (
+            <div className="space-y-6 animate-in fade-in duration-500 pb-20">
+               <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                  <div>
+                     <h3 className="font-black text-2xl text-slate-800 tracking-tight">Rủi ro & Dự phòng</h3>
+                     <p className="text-xs text-slate-400 font-bold mt-1">{riskReserve.openCount}/{risks.length} rủi ro chưa đóng · dự phòng = xác suất × ảnh hưởng, cộng vào tổng dự toán và báo giá</p>
+                  </div>
+                  <button onClick={() => updateProject({ risks: [...risks, createRisk()] })} className="bg-indigo-600 text-white px-6 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500">+ Thêm rủi ro</button>
+               </div>
+
+               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {[
+                    { label: 'Dự phòng chi phí', value: formatCurrency(riskReserve.cost), tone: 'text-amber-600' },
+                    { label: 'Dự phòng tiến độ', value: `${riskReserve.days.toFixed(1)} ngày`, tone: 'text-amber-600' },
+                    { label: 'Dự toán trước dự phòng', value: formatCurrency(grandTotal - riskReserve.cost), tone: 'text-slate-800' },
+                    { label: 'Dự toán gồm dự phòng', value: formatCurrency(grandTotal), tone: 'text-indigo-600' }
+                  ].map(card => (
+                    <div key={card.label} className="bg-white p-5 rounded-[24px] border border-slate-200 shadow-sm">
+                       <span className="text-slate-400 font-bold text-[10px] uppercase">{card.label}</span>
+                       <p className={`text-lg font-black mt-1 ${card.tone}`}>{card.value}</p>
+                    </div>
+                  ))}
+               </div>
+
+               <div className="space-y-4">
+                  {risks.map(r => {
+                    const links = [
+                      ...(r.serverIds || []).map(id => ({ id, kind: 'serverIds' as const, label: currentProject.servers.find(sv => sv.id === id)?.content })),
+                      ...(r.taskIds || []).map(id => ({ id, kind: 'taskIds' as const, label: currentProject.labors.find(l => l.id === id) && `${wbsCodes[id]} ${currentProject.labors.find(l => l.id === id)!.taskName}` }))
+                    ].filter(link => link.label);
+                    return (
+                      <div key={r.id} className={`bg-white rounded-[24px] border border-slate-200 shadow-sm p-6 space-y-3 ${isRiskOpen(r) ? '' : 'opacity-60'}`}>
+                         <div className="flex items-start gap-3">
+                            <input className="flex-1 font-black text-slate-800 bg-transparent outline-none border-b border-transparent focus:border-indigo-300" value={r.description} onChange={(e) => updateRisk(r.id, { description: e.target.value })} />
+                            <select className={`text-[10px] font-black rounded-lg px-2 py-1 outline-none ${RISK_STATUS_STYLES[r.status]}`} value={r.status} onChange={(e) => updateRisk(r.id, { status: e.target.value as RiskStatus })}>
+                               {Object.values(RiskStatus).map(st => <option key={st} value={st}>{st}</option>)}
+                            </select>
+                            <button onClick={() => updateProject({ risks: risks.filter(x => x.id !== r.id) })} className="text-red-300 hover:text-red-500 font-bold">×</button>
                          </div>
-                       ))}
-                       <button onClick={() => updateProject({ labors: [...currentProject.labors, { id: 'l'+Date.now(), taskName: 'Task mới', role: Role.JuniorDev, mandays: 1, description: '', status: status, priority: Priority.Medium, assignee: '', dueDate: '' }] })} className="w-full py-3 border-2 border-dashed border-slate-200 rounded-2xl text-[10px] font-black text-slate-400 hover:border-indigo-300 hover:text-indigo-500 transition-all">+ Task mới</button>
+                         <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-[11px]">
+                            <label className="font-bold text-slate-400">Xác suất (%)<input type="number" min={0} max={100} step={5} className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-black text-slate-700 outline-none" value={r.probability} onChange={(e) => updateRisk(r.id, { probability: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })} /></label>
+                            <label className="font-bold text-slate-400">Ảnh hưởng chi phí (VNĐ)<input type="number" min={0} step={1000000} className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-black text-slate-700 outline-none" value={r.costImpact} onChange={(e) => updateRisk(r.id, { costImpact: Math.max(0, parseFloat(e.target.value) || 0) })} /></label>
+                            <label className="font-bold text-slate-400">Ảnh hưởng tiến độ (ngày)<input type="number" min={0} step={1} className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-black text-slate-700 outline-none" value={r.scheduleImpact} onChange={(e) => updateRisk(r.id, { scheduleImpact: Math.max(0, parseFloat(e.target.value) || 0) })} /></label>
+                            <label className="font-bold text-slate-400">Người phụ trách
+                               <input list="risk-owners" className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={r.owner} onChange={(e) => updateRisk(r.id, { owner: e.target.value })} />
+                            </label>
+                            <div className="font-bold text-slate-400">Giá trị kỳ vọng<p className={`mt-1 py-1.5 font-black ${isRiskOpen(r) ? 'text-amber-600' : 'text-slate-400 line-through'}`}>{formatCurrency(getRiskExposure(r))}</p></div>
+                         </div>
+                         <textarea className="w-full text-xs bg-slate-50 rounded-xl px-3 py-2 outline-none resize-none" rows={2} placeholder="Biện pháp giảm thiểu..." value={r.mitigation} onChange={(e) => updateRisk(r.id, { mitigation: e.target.value })} />
+                         <div className="flex flex-wrap items-center gap-1.5">
+                            <span className="text-[10px] font-bold text-slate-400 mr-1">Liên quan:</span>
+                            {links.map(link => (
+                              <span key={link.id} className="text-[10px] font-bold bg-slate-100 text-slate-600 rounded-full px-2 py-0.5">
+                                 {link.kind === 'serverIds' ? 'VM' : 'Việc'} · {link.label}<button onClick={() => updateRisk(r.id, { [link.kind]: (r[link.kind] || []).filter(x => x !== link.id) })} className="ml-1 text-slate-400 hover:text-red-500">×</button>
+                              </span>
+                            ))}
+                            <select className="text-[10px] font-bold text-slate-400 bg-transparent outline-none" value="" onChange={(e) => {
+                              const [kind, id] = e.target.value.split(':') as ['serverIds' | 'taskIds', string];
+                              if (id) updateRisk(r.id, { [kind]: [...(r[kind] || []), id] });
+                            }}>
+                               <option value="">+ Liên kết...</option>
+                               <optgroup label="Hạ tầng">
+                                  {currentProject.servers.filter(sv => !(r.serverIds || []).includes(sv.id)).map(sv => <option key={sv.id} value={`serverIds:${sv.id}`}>{sv.content}</option>)}
+                               </optgroup>
+                               <optgroup label="Đầu việc">
+                                  {flattenWbs(wbsTree).filter(n => !(r.taskIds || []).includes(n.item.id)).map(n => <option key={n.item.id} value={`taskIds:${n.item.id}`}>{n.code} {n.item.taskName}</option>)}
+                               </optgroup>
+                            </select>
+                         </div>
+                      </div>
+                    );
+                  })}
+                  {risks.length === 0 && <div className="bg-white rounded-[24px] border border-dashed border-slate-200 px-6 py-10 text-center text-xs text-slate-400 italic">Chưa có rủi ro nào được ghi nhận.</div>}
+               </div>
+               <datalist id="risk-owners">{team.map(m => <option key={m.id} value={m.name} />)}</datalist>
+               <p className="text-[10px] text-slate-400">Rủi ro chuyển sang "{RiskStatus.Closed}" sẽ giải phóng phần dự phòng của nó. Dự phòng tiến độ chỉ để tham khảo, không cộng vào lịch Gantt.</p>
+            </div>
+          )}
+
+          {activeTab === 'team' && (
+            <div className="space-y-6 animate-in fade-in duration-500 pb-20">
+               <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                  <div>
+                     <h3 className="font-black text-2xl text-slate-800 tracking-tight">Đội dự án</h3>
+                     <p className="text-xs text-slate-400 font-bold mt-1">{team.length} thành viên · {leafLabors.filter(l => !findAssignee(l, team)).length} đầu việc chưa giao cho thành viên nào</p>
+                  </div>
+                  <button onClick={() => updateProject({ team: [...team, createTeamMember('Thành viên mới', Role.JuniorDev)] })} className="bg-indigo-600 text-white px-6 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500">+ Thêm thành viên</button>
+               </div>
+
+               <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-hidden">
+                  <table className="w-full text-left">
+                     <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 border-b">
+                        <tr><th className="px-6 py-4">Thành viên / Vai trò</th><th className="px-4 py-4 text-center w-28">Thời gian cho dự án</th><th className="px-4 py-4 text-right w-40">Đơn giá riêng (VNĐ/MD)</th><th className="px-4 py-4">Ngày nghỉ</th><th className="px-4 py-4 w-12"></th></tr>
+                     </thead>
+                     <tbody>
+                        {team.map(m => (
+                          <tr key={m.id} className="border-b border-slate-50 text-xs hover:bg-slate-50 transition-all group">
+                             <td className="px-6 py-3">
+                                <input className="w-full bg-transparent font-bold outline-none mb-1 focus:text-indigo-600" value={m.name} onChange={(e) => updateTeamMember(m.id, { name: e.target.value })} />
+                                <select className="text-[9px] font-bold text-slate-400 bg-transparent outline-none" value={m.role} onChange={(e) => updateTeamMember(m.id, { role: e.target.value })}>
+                                   {roles.map(r => <option key={r.code} value={r.code}>{r.name}</option>)}
+                                </select>
+                             </td>
+                             <td className="px-4 py-3 text-center"><input type="number" min={0} max={100} step={10} className="w-16 text-center bg-slate-100 rounded-lg py-1 font-black outline-none" value={m.availability} onChange={(e) => updateTeamMember(m.id, { availability: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })} /> <span className="text-[10px] text-slate-400">%</span></td>
+                             <td className="px-4 py-3 text-right"><input type="number" min={0} className="w-32 text-right bg-slate-100 rounded-lg px-2 py-1 font-black outline-none placeholder:text-slate-300 placeholder:font-bold" placeholder={formatCurrency(currentProject.laborPrices[m.role] || 0)} value={m.rate ?? ''} onChange={(e) => updateTeamMember(m.id, { rate: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })} /></td>
+                             <td className="px-4 py-3">
+                                <div className="flex flex-wrap items-center gap-1">
+                                   {m.daysOff.map(d => <span key={d} className="bg-slate-100 text-slate-600 rounded px-1.5 py-0.5 text-[9px] font-bold">{formatScheduleDate(d)}<button onClick={() => updateTeamMember(m.id, { daysOff: m.daysOff.filter(x => x !== d) })} className="ml-1 text-slate-400 hover:text-red-500">×</button></span>)}
+                                   <input type="date" className="text-[9px] text-slate-400 bg-transparent outline-none w-24" value="" onChange={(e) => e.target.value && !m.daysOff.includes(e.target.value) && updateTeamMember(m.id, { daysOff: [...m.daysOff, e.target.value].sort() })} />
+                                </div>
+                             </td>
+                             <td className="px-4 py-3 text-right"><button onClick={() => removeTeamMember(m.id)} className="text-red-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all">×</button></td>
+                          </tr>
+                        ))}
+                        {team.length === 0 && <tr><td colSpan={5} className="px-6 py-10 text-center text-xs text-slate-400 italic">Chưa có thành viên nào. Thêm thành viên để giao việc trên Board và theo dõi tải công việc.</td></tr>}
+                     </tbody>
+                  </table>
+               </div>
+
+               {team.length > 0 && schedule && (
+                 <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl p-8">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-6">
+                       <h4 className="font-black text-lg">Tải công việc theo tuần</h4>
+                       <p className="text-[10px] font-bold text-slate-400">Công được giao / công khả dụng (MD) theo lịch trên tab Tiến độ</p>
+                    </div>
+                    {utilisation.some(u => u.overAllocatedWeeks > 0) && (
+                      <div className="bg-red-50 border border-red-100 rounded-2xl p-4 mb-6 space-y-1">
+                        {utilisation.filter(u => u.overAllocatedWeeks > 0).map(u => <p key={u.member.id} className="text-xs font-bold text-red-600">⚠ {u.member.name} quá tải {u.overAllocatedWeeks} tuần, từ tuần {formatScheduleDate(u.weeks.find(w => w.overAllocated)!.weekStart)}</p>)}
+                      </div>
+                    )}
+                    <div className="overflow-x-auto">
+                       <table className="text-left text-[10px]">
+                          <thead>
+                             <tr className="text-slate-400 font-black uppercase">
+                                <th className="pr-4 py-2 sticky left-0 bg-white">Thành viên</th>
+                                {utilisation[0]?.weeks.map(w => <th key={w.weekStart} className="px-1 py-2 text-center whitespace-nowrap">{formatScheduleDate(w.weekStart).slice(0, 5)}</th>)}
+                             </tr>
+                          </thead>
+                          <tbody>
+                             {utilisation.map(u => (
+                               <tr key={u.member.id}>
+                                  <td className="pr-4 py-1 font-bold text-slate-700 whitespace-nowrap sticky left-0 bg-white">{u.member.name}<span className="block text-[9px] font-normal text-slate-400">{u.allocated.toFixed(1)} MD · {u.member.availability}%</span></td>
+                                  {u.weeks.map(w => {
+                                    const ratio = w.capacity > 0 ? w.allocated / w.capacity : (w.allocated > 0 ? Infinity : 0);
+                                    return (
+                                      <td key={w.weekStart} className="px-0.5 py-1">
+                                         <div className={`w-14 rounded-lg py-1.5 text-center font-black ${w.overAllocated ? 'bg-red-500 text-white' : ratio >= 0.8 ? 'bg-amber-100 text-amber-700' : w.allocated > 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-50 text-slate-300'}`} title={w.taskIds.map(id => currentProject.labors.find(l => l.id === id)?.taskName).join(', ')}>
+                                            {w.allocated.toFixed(1)}/{w.capacity.toFixed(1)}
+                                         </div>
+                                      </td>
+                                    );
+                                  })}
+                               </tr>
+                             ))}
+                          </tbody>
+                       </table>
                     </div>
                  </div>
-               ))}
+               )}
             </div>
           )}
 
@@ -522,20 +2043,167 @@ const App: React.FC = () => {
                   <div className="flex gap-2">
                      <button onClick={() => handleAddJournal(JournalEntryType.Meeting)} className="bg-indigo-50 text-indigo-600 px-4 py-2 rounded-xl text-xs font-bold hover:bg-indigo-100 transition-all">+ Họp Team</button>
                      <button onClick={() => handleAddJournal(JournalEntryType.Milestone)} className="bg-amber-50 text-amber-600 px-4 py-2 rounded-xl text-xs font-bold hover:bg-amber-100 transition-all">+ Mốc quan trọng</button>
+                     <button onClick={() => handleAddJournal(JournalEntryType.Note)} className="bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all">+ Ghi chú</button>
                   </div>
                </div>
+               <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-3 flex flex-wrap items-center gap-2 text-xs">
+                  <input className="flex-1 min-w-[12rem] bg-slate-50 rounded-xl px-3 py-2 font-bold text-slate-700 outline-none focus:bg-white focus:ring-1 focus:ring-indigo-100" placeholder="Tìm trong nhật ký..." value={journalFilters.query} onChange={(e) => setJournalFilters({ ...journalFilters, query: e.target.value })} />
+                  {Object.values(JournalEntryType).map(type => {
+                    const selected = journalFilters.types.includes(type);
+                    return <button key={type} onClick={() => setJournalFilters({ ...journalFilters, types: selected ? journalFilters.types.filter(t => t !== type) : [...journalFilters.types, type] })} className={`px-3 py-1.5 rounded-xl text-[10px] font-black transition-all ${selected ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>{type}</button>;
+                  })}
+                  <label className="flex items-center gap-1 font-bold text-slate-400">Từ<input type="date" className="bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={journalFilters.from} onChange={(e) => setJournalFilters({ ...journalFilters, from: e.target.value })} /></label>
+                  <label className="flex items-center gap-1 font-bold text-slate-400">đến<input type="date" className="bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={journalFilters.to} onChange={(e) => setJournalFilters({ ...journalFilters, to: e.target.value })} /></label>
+                  {hasJournalFilters(journalFilters) && (
+                    <>
+                      <span className="font-bold text-slate-400">{journalEntries.length}/{(currentProject.journal || []).length} mục</span>
+                      <button onClick={() => setJournalFilters(EMPTY_JOURNAL_FILTERS)} className="text-[10px] font-black text-red-400 hover:text-red-600">Xóa lọc</button>
+                    </>
+                  )}
+               </div>
                <div className="space-y-6">
-                  {(currentProject.journal || []).map((entry) => (
-                    <div key={entry.id} className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm relative group">
-                       <button onClick={() => updateProject({ journal: currentProject.journal?.filter(j => j.id !== entry.id) })} className="absolute top-4 right-4 text-red-300 opacity-0 group-hover:opacity-100 transition-all font-bold">Xóa</button>
+                  {journalEntries.length === 0 && <div className="bg-white rounded-[24px] border border-dashed border-slate-200 px-6 py-10 text-center text-xs text-slate-400 italic">{hasJournalFilters(journalFilters) ? 'Không có mục nhật ký nào khớp bộ lọc.' : 'Chưa có mục nhật ký nào.'}</div>}
+                  {journalEntries.map((entry) => {
+                    const progress = getMinutesProgress(entry, currentProject.labors);
+                    const guests = (entry.attendees || []).filter(name => !team.some(m => m.name === name));
+                    const editing = editingEntryIds.includes(entry.id);
+                    const links = [
+                      ...(entry.taskIds || []).map(id => ({ id, kind: 'taskIds' as const, label: currentProject.labors.find(l => l.id === id) && `${wbsCodes[id]} ${currentProject.labors.find(l => l.id === id)!.taskName}` })),
+                      ...(entry.serverIds || []).map(id => ({ id, kind: 'serverIds' as const, label: currentProject.servers.find(sv => sv.id === id)?.content }))
+                    ].filter(link => link.label);
+                    return (
+                    <div key={entry.id} id={`journal-${entry.id}`} className={`bg-white p-6 rounded-[32px] border shadow-sm relative group ${focusEntryId === entry.id ? 'border-violet-300 ring-2 ring-violet-100' : 'border-slate-200'}`}>
+                       <button onClick={() => handleDeleteJournal(entry)} className="absolute top-4 right-4 text-red-300 opacity-0 group-hover:opacity-100 transition-all font-bold">Xóa</button>
                        <div className="flex items-center gap-3 mb-4">
-                          <span className={`text-[10px] font-black px-2 py-0.5 rounded-full ${entry.type === JournalEntryType.Milestone ? 'bg-amber-100 text-amber-600' : 'bg-indigo-100 text-indigo-600'}`}>{entry.type}</span>
-                          <input type="date" className="text-[10px] font-bold text-slate-400 bg-transparent outline-none" value={entry.date} onChange={(e) => updateProject({ journal: currentProject.journal?.map(j => j.id === entry.id ? {...j, date: e.target.value} : j) })} />
+                          <span className={`text-[10px] font-black px-2 py-0.5 rounded-full ${entry.type === JournalEntryType.Milestone ? 'bg-amber-100 text-amber-600' : entry.type === JournalEntryType.Note ? 'bg-slate-100 text-slate-500' : 'bg-indigo-100 text-indigo-600'}`}>{entry.type}</span>
+                          <input type="date" className="text-[10px] font-bold text-slate-400 bg-transparent outline-none" value={entry.date} onChange={(e) => updateJournalEntry(entry.id, { date: e.target.value })} />
+                          {progress.total > 0 && (
+                            <span className={`text-[10px] font-black px-2 py-0.5 rounded-full ${progress.tracked > 0 && progress.done === progress.total ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-500'}`}>{progress.done}/{progress.total} việc đã xong</span>
+                          )}
                        </div>
-                       <input className="text-sm font-black text-slate-800 w-full bg-transparent border-none outline-none mb-2 focus:text-indigo-600" value={entry.title} onChange={(e) => updateProject({ journal: currentProject.journal?.map(j => j.id === entry.id ? {...j, title: e.target.value} : j) })} />
-                       <textarea rows={2} className="text-xs text-slate-500 w-full bg-slate-50 p-4 rounded-2xl border-none outline-none resize-none focus:bg-white focus:ring-1 focus:ring-indigo-100" value={entry.content} onChange={(e) => updateProject({ journal: currentProject.journal?.map(j => j.id === entry.id ? {...j, content: e.target.value} : j) })} />
+                       <input className="text-sm font-black text-slate-800 w-full bg-transparent border-none outline-none mb-2 focus:text-indigo-600" value={entry.title} onChange={(e) => updateJournalEntry(entry.id, { title: e.target.value })} />
+                       <div className="flex justify-end mb-1">
+                          <button onClick={() => setEditingEntryIds(editing ? editingEntryIds.filter(id => id !== entry.id) : [...editingEntryIds, entry.id])} className="text-[10px] font-black text-indigo-600 hover:text-indigo-500">{editing ? 'Xem trước' : 'Sửa'}</button>
+                       </div>
+                       {editing ? (
+                         <textarea rows={Math.min(16, Math.max(4, entry.content.split('\n').length + 1))} className="text-xs font-mono text-slate-600 w-full bg-slate-50 p-4 rounded-2xl border-none outline-none resize-y focus:bg-white focus:ring-1 focus:ring-indigo-100" placeholder="Hỗ trợ Markdown: # tiêu đề, **đậm**, *nghiêng*, - danh sách, - [ ] việc, `code`, [liên kết](https://...)" value={entry.content} onChange={(e) => updateJournalEntry(entry.id, { content: e.target.value })} />
+                       ) : entry.content.trim() ? (
+                         <div onDoubleClick={() => setEditingEntryIds([...editingEntryIds, entry.id])} className="bg-slate-50 p-4 rounded-2xl" title="Nhấn đúp để sửa"><MarkdownView source={entry.content} /></div>
+                       ) : (
+                         <button onClick={() => setEditingEntryIds([...editingEntryIds, entry.id])} className="w-full text-left text-xs text-slate-300 italic bg-slate-50 p-4 rounded-2xl">Chưa có nội dung — nhấn để viết (hỗ trợ Markdown).</button>
+                       )}
+                       <div className="mt-4 flex flex-wrap items-center gap-1.5 text-[10px]">
+                          <span className="font-bold text-slate-400 mr-1">Tệp đính kèm:</span>
+                          {(entry.attachments || []).map(a => (
+                            <span key={a.id} className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 font-bold ${isLocalAttachment(a) ? 'bg-amber-50 text-amber-700' : 'bg-slate-100 text-slate-600'}`} title={isLocalAttachment(a) ? 'Đang lưu tạm trên trình duyệt này' : `Tải lên ${new Date(a.uploadedAt).toLocaleString('vi-VN')}`}>
+                               <button onClick={() => handleOpenAttachment(a)} className="hover:underline">📎 {a.name}</button>
+                               <span className="text-slate-400">{formatFileSize(a.size)}</span>
+                               {isLocalAttachment(a) && <button onClick={() => handlePushAttachment(entry, a)} className="text-amber-600 hover:text-indigo-600" title="Tải lên nơi lưu trữ">☁</button>}
+                               <button onClick={() => handleRemoveAttachment(entry, a)} className="text-slate-400 hover:text-red-500">×</button>
+                            </span>
+                          ))}
+                          <label className={`font-black text-indigo-600 hover:text-indigo-500 ${uploadingEntryId === entry.id ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                             {uploadingEntryId === entry.id ? 'Đang tải lên...' : '+ Đính kèm'}
+                             <input type="file" multiple className="hidden" onChange={(e) => { handleAttachFiles(entry, e.target.files); e.target.value = ''; }} />
+                          </label>
+                       </div>
+                       <div className="mt-2 flex flex-wrap items-center gap-1.5 text-[10px]">
+                          <span className="font-bold text-slate-400 mr-1">Liên quan:</span>
+                          {links.map(link => (
+                            <span key={link.id} className="font-bold bg-slate-100 text-slate-600 rounded-full px-2 py-0.5">
+                               <button onClick={() => link.kind === 'taskIds' ? setDetailTaskId(link.id) : setActiveTab('infra')} className="hover:underline">{link.kind === 'serverIds' ? 'VM' : 'Việc'} · {link.label}</button>
+                               <button onClick={() => updateJournalEntry(entry.id, { [link.kind]: (entry[link.kind] || []).filter(x => x !== link.id) })} className="ml-1 text-slate-400 hover:text-red-500">×</button>
+                            </span>
+                          ))}
+                          <select className="font-bold text-slate-400 bg-transparent outline-none" value="" onChange={(e) => {
+                            const [kind, id] = e.target.value.split(':') as ['serverIds' | 'taskIds', string];
+                            if (id) updateJournalEntry(entry.id, { [kind]: [...(entry[kind] || []), id] });
+                          }}>
+                             <option value="">+ Liên kết...</option>
+                             <optgroup label="Đầu việc">
+                                {flattenWbs(wbsTree).filter(n => !(entry.taskIds || []).includes(n.item.id)).map(n => <option key={n.item.id} value={`taskIds:${n.item.id}`}>{n.code} {n.item.taskName}</option>)}
+                             </optgroup>
+                             <optgroup label="Hạ tầng">
+                                {currentProject.servers.filter(sv => !(entry.serverIds || []).includes(sv.id)).map(sv => <option key={sv.id} value={`serverIds:${sv.id}`}>{sv.content}</option>)}
+                             </optgroup>
+                          </select>
+                       </div>
+                       {entry.type === JournalEntryType.Meeting && (
+                         <div className="mt-4 space-y-4 text-xs">
+                            <div>
+                               <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Thành phần tham dự</p>
+                               <div className="flex flex-wrap items-center gap-1.5">
+                                  {team.map(m => {
+                                    const present = (entry.attendees || []).includes(m.name);
+                                    return <button key={m.id} onClick={() => updateJournalEntry(entry.id, { attendees: present ? (entry.attendees || []).filter(a => a !== m.name) : [...(entry.attendees || []), m.name] })} className={`px-2 py-0.5 rounded-full text-[10px] font-bold transition-all ${present ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400 hover:bg-slate-200'}`}>{m.name}</button>;
+                                  })}
+                                  {guests.map(name => (
+                                    <span key={name} className="bg-amber-50 text-amber-700 rounded-full px-2 py-0.5 text-[10px] font-bold">
+                                      {name}<button onClick={() => updateJournalEntry(entry.id, { attendees: (entry.attendees || []).filter(a => a !== name) })} className="ml-1 text-amber-400 hover:text-red-500">×</button>
+                                    </span>
+                                  ))}
+                                  <input placeholder="+ Khách mời (Enter)" className="text-[10px] font-bold text-slate-500 bg-transparent outline-none w-32" onKeyDown={(e) => {
+                                    const name = e.currentTarget.value.trim();
+                                    if (e.key !== 'Enter' || !name) return;
+                                    if (!(entry.attendees || []).includes(name)) updateJournalEntry(entry.id, { attendees: [...(entry.attendees || []), name] });
+                                    e.currentTarget.value = '';
+                                  }} />
+                               </div>
+                            </div>
+                            <div>
+                               <div className="flex items-center justify-between mb-2">
+                                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Quyết định</p>
+                                  <button onClick={() => updateJournalEntry(entry.id, { decisions: [...(entry.decisions || []), ''] })} className="text-[10px] font-black text-indigo-600 hover:text-indigo-500">+ Quyết định</button>
+                               </div>
+                               <div className="space-y-1.5">
+                                  {(entry.decisions || []).map((d, i) => (
+                                    <div key={i} className="flex items-center gap-2">
+                                      <span className="text-emerald-500 font-black">✓</span>
+                                      <input className="flex-1 bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none focus:bg-white focus:ring-1 focus:ring-indigo-100" placeholder="Nội dung quyết định..." value={d} onChange={(e) => updateJournalEntry(entry.id, { decisions: (entry.decisions || []).map((x, k) => k === i ? e.target.value : x) })} />
+                                      <button onClick={() => updateJournalEntry(entry.id, { decisions: (entry.decisions || []).filter((_, k) => k !== i) })} className="text-slate-300 hover:text-red-500 font-bold">×</button>
+                                    </div>
+                                  ))}
+                               </div>
+                            </div>
+                            <div>
+                               <div className="flex items-center justify-between mb-2">
+                                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Việc cần làm</p>
+                                  <button onClick={() => updateJournalEntry(entry.id, { actionItems: [...(entry.actionItems || []), createActionItem()] })} className="text-[10px] font-black text-indigo-600 hover:text-indigo-500">+ Việc cần làm</button>
+                               </div>
+                               <div className="space-y-1.5">
+                                  {(entry.actionItems || []).map(action => {
+                                    const task = getActionTask(action, currentProject.labors);
+                                    return (
+                                      <div key={action.id} className="flex flex-wrap items-center gap-2">
+                                        <input className="flex-1 min-w-[12rem] bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none focus:bg-white focus:ring-1 focus:ring-indigo-100" placeholder="Việc cần làm..." value={action.text} onChange={(e) => updateActionItem(entry, { ...action, text: e.target.value })} />
+                                        {task ? (
+                                          <button onClick={() => setDetailTaskId(task.id)} className="flex items-center gap-2 bg-slate-50 hover:bg-indigo-50 rounded-lg px-2 py-1.5 font-bold text-slate-500 transition-all" title="Mở task trên bảng">
+                                            <span className={`w-2 h-2 rounded-full ${STATUS_DOT_COLORS[task.status]}`}></span>
+                                            <span className={task.status === TaskStatus.Done ? 'text-emerald-600' : 'text-slate-700'}>{task.status}</span>
+                                            <span>{task.assignee || 'Chưa giao'}</span>
+                                            {task.dueDate && <span>· {formatScheduleDate(task.dueDate)}</span>}
+                                          </button>
+                                        ) : (
+                                          <>
+                                            <input list={`action-owners-${entry.id}`} className="w-32 bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" placeholder="Người phụ trách" value={action.owner} onChange={(e) => updateActionItem(entry, setActionOwner(action, team.find(m => m.name === e.target.value)?.id || e.target.value, team))} />
+                                            <input type="date" className="bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={action.dueDate} onChange={(e) => updateActionItem(entry, { ...action, dueDate: e.target.value })} />
+                                            <button disabled={!action.text.trim()} onClick={() => handleCreateActionTask(entry, action)} className="bg-indigo-600 text-white px-3 py-1.5 rounded-lg text-[10px] font-black hover:bg-indigo-500 disabled:opacity-40 transition-all">Tạo task</button>
+                                          </>
+                                        )}
+                                        <button onClick={() => updateJournalEntry(entry.id, { actionItems: (entry.actionItems || []).filter(a => a.id !== action.id) })} className="text-slate-300 hover:text-red-500 font-bold">×</button>
+                                      </div>
+                                    );
+                                  })}
+                                  <datalist id={`action-owners-${entry.id}`}>
+                                    {team.map(m => <option key={m.id} value={m.name} />)}
+                                  </datalist>
+                               </div>
+                            </div>
+                         </div>
+                       )}
                     </div>
-                  ))}
+                    );
+                  })}
                </div>
             </div>
           )}
@@ -544,24 +2212,129 @@ const App: React.FC = () => {
             <div className="space-y-6 animate-in fade-in duration-500">
                <div className="flex justify-between items-center">
                  <h3 className="font-black text-2xl text-slate-800 tracking-tight">Hạ tầng Cloud</h3>
-                 <button onClick={() => updateProject({ servers: [...currentProject.servers, { id: 's'+Date.now(), category: Category.AppServer, os: 'Linux', configRaw: '4 core 8GB storage: 100GB', quantity: 1, content: 'Server mới', note: '', storageType: 'diskSanAllFlash', bwQt: 0, bwInternal: 0 }] })} className="bg-indigo-600 text-white px-6 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500">+ Thêm VM</button>
+                 <div className="flex gap-2">
+                   <button onClick={() => setShowTemplateLibrary(!showTemplateLibrary)} className={`px-4 py-2 rounded-xl text-xs font-bold transition-all ${showTemplateLibrary ? 'bg-indigo-50 text-indigo-600' : 'bg-white text-indigo-600 border border-indigo-100 hover:bg-indigo-50'}`}>Thư viện mẫu</button>
+                   <button onClick={() => updateProject({ servers: [...currentProject.servers, { id: 's'+Date.now(), category: Category.AppServer, os: 'Linux', configRaw: 'CPU: 4 core; RAM 8GB', quantity: 1, content: 'Server mới', note: '', volumes: [{ id: 'v'+Date.now(), label: 'OS', sizeGb: 100, storageType: 'diskSanAllFlash' }], bwQt: 0, bwInternal: 0 }] })} className="bg-indigo-600 text-white px-6 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500">+ Thêm VM</button>
+                 </div>
                </div>
+               {showTemplateLibrary && (
+                 <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl p-6 space-y-6">
+                   <div>
+                     <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Stack</p>
+                     <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3">
+                       {SERVER_STACKS.map(stack => (
+                         <div key={stack.id} className="bg-slate-50 rounded-2xl p-4 flex flex-col">
+                           <p className="text-sm font-black text-slate-800">{stack.name}</p>
+                           <p className="text-[10px] text-slate-400 mb-2">{stack.description}</p>
+                           <ul className="text-[10px] text-slate-500 mb-3 flex-1">
+                             {stack.items.map(item => <li key={item.templateId}>{item.quantity} × {allServerTemplates.find(t => t.id === item.templateId)?.name || item.templateId}</li>)}
+                           </ul>
+                           <button onClick={() => handleInsertStack(stack)} className="bg-indigo-600 text-white py-1.5 rounded-xl text-[10px] font-black hover:bg-indigo-500">Chèn stack</button>
+                         </div>
+                       ))}
+                     </div>
+                   </div>
+                   {Object.values(Category).map(category => {
+                     const templates = allServerTemplates.filter(t => t.server.category === category);
+                     if (templates.length === 0) return null;
+                     return (
+                       <div key={category}>
+                         <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">{category}</p>
+                         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3">
+                           {templates.map(t => (
+                             <div key={t.id} className="border border-slate-100 rounded-2xl p-3 text-[10px] group/tpl">
+                               <div className="flex items-center justify-between gap-2">
+                                 <span className="text-xs font-black text-slate-700 truncate">{t.name}</span>
+                                 {t.builtIn ? <span className="text-[8px] font-black uppercase text-slate-300">Mặc định</span> : (
+                                   <span className="flex gap-2 opacity-0 group-hover/tpl:opacity-100 transition-all">
+                                     <button onClick={() => handleRenameServerTemplate(t)} className="text-slate-400 hover:text-indigo-600">Sửa tên</button>
+                                     <button onClick={() => handleDeleteServerTemplate(t)} className="text-red-300 hover:text-red-500">Xóa</button>
+                                   </span>
+                                 )}
+                               </div>
+                               <p className="text-slate-400">{t.server.os} · {t.server.configRaw}</p>
+                               <p className="text-slate-400">{(t.server.volumes || []).map(v => `${v.label} ${v.sizeGb}GB ${STORAGE_TYPE_LABELS[v.storageType] || v.storageType}`).join(', ')}{t.server.bwQt ? ` · BW QT ${t.server.bwQt} Mbps` : ''}</p>
+                               <button onClick={() => handleInsertTemplate(t)} className="mt-2 text-indigo-600 font-black hover:underline">+ Thêm vào dự án</button>
+                             </div>
+                           ))}
+                         </div>
+                       </div>
+                     );
+                   })}
+                 </div>
+               )}
+               <FilterBar {...filterBarProps} facets={serverFacets} sortLabels={SERVER_SORT_LABELS} sort={filters.serverSort} onSortChange={(sort) => updateFilters({ serverSort: sort as SortOrder<ServerSortKey> | undefined })} shown={visibleServers.length} total={currentProject.servers.length} />
                <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-hidden">
                 <table className="w-full text-left">
                   <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 border-b">
-                    <tr><th className="px-6 py-4">VM / Service</th><th className="px-6 py-4">Cấu hình</th><th className="px-6 py-4 text-center">SL</th><th className="px-6 py-4 text-right">Chi phí/Tháng</th><th className="px-6 py-4 w-16"></th></tr>
+                    <tr>
+                      <SortHeader label="VM / Service" sortKey="content" active={filters.serverSort} onClick={() => updateFilters({ serverSort: toggleSort(filters.serverSort, 'content') })} className="px-6 py-4" />
+                      <th className="px-6 py-4">Cấu hình</th>
+                      <th className="px-6 py-4">Lưu trữ</th>
+                      <SortHeader label="SL" sortKey="quantity" active={filters.serverSort} onClick={() => updateFilters({ serverSort: toggleSort(filters.serverSort, 'quantity') })} className="px-6 py-4 text-center" />
+                      <SortHeader label="Chi phí/Tháng" sortKey="monthlyCost" active={filters.serverSort} onClick={() => updateFilters({ serverSort: toggleSort(filters.serverSort, 'monthlyCost') })} className="px-6 py-4 text-right" />
+                      <th className="px-6 py-4 w-16"></th>
+                    </tr>
                   </thead>
                   <tbody>
-                    {currentProject.servers.map(s => {
-                      const cost = calculateItemCost(s, currentProject.infraPrices);
+                    {visibleServers.length === 0 && <tr><td colSpan={6} className="px-6 py-10 text-center text-xs text-slate-400 italic">{currentProject.servers.length === 0 ? 'Chưa có VM nào.' : 'Không có VM nào khớp bộ lọc.'}</td></tr>}
+                    {visibleServers.map(s => {
+                      const cost = calculateProjectItemCost(s, currentProject, pricing || undefined);
+                      const isExpanded = expandedServerIds.includes(s.id);
                       return (
-                        <tr key={s.id} className="border-b border-slate-50 text-xs hover:bg-slate-50 transition-all group">
-                          <td className="px-6 py-4 font-bold"><input className="bg-transparent w-full outline-none focus:text-indigo-600" value={s.content} onChange={(e) => updateProject({ servers: currentProject.servers.map(item => item.id === s.id ? {...item, content: e.target.value} : item)})} /></td>
-                          <td className="px-6 py-4"><input className="w-full bg-slate-100 p-2 rounded-xl text-[10px] outline-none focus:bg-white focus:ring-1 focus:ring-indigo-100" value={s.configRaw} onChange={(e) => updateProject({ servers: currentProject.servers.map(item => item.id === s.id ? {...item, configRaw: e.target.value} : item)})} /></td>
+                        <React.Fragment key={s.id}>
+                        <tr className="border-b border-slate-50 text-xs hover:bg-slate-50 transition-all group">
+                          <td className="px-6 py-4 font-bold">
+                            <div className="flex items-center gap-2">
+                              <input className="bg-transparent w-full outline-none focus:text-indigo-600" value={s.content} onChange={(e) => updateProject({ servers: currentProject.servers.map(item => item.id === s.id ? {...item, content: e.target.value} : item)})} />
+                              <LintBadge findings={getServerFindings(lintFindings, s.id)} />
+                            </div>
+                            <JournalLinks entries={getJournalBacklinks(currentProject.journal, s.id)} onOpen={openJournalEntry} />
+                            <div className="flex items-center gap-1 mt-1" title="Thời gian sử dụng (để trống = theo dự án)">
+                              <input type="date" className="text-[9px] text-slate-400 bg-transparent outline-none w-24" value={s.startDate || ''} onChange={(e) => updateProject({ servers: currentProject.servers.map(item => item.id === s.id ? {...item, startDate: e.target.value || undefined} : item)})} />
+                              <span className="text-[9px] text-slate-300">→</span>
+                              <input type="date" className="text-[9px] text-slate-400 bg-transparent outline-none w-24" value={s.endDate || ''} onChange={(e) => updateProject({ servers: currentProject.servers.map(item => item.id === s.id ? {...item, endDate: e.target.value || undefined} : item)})} />
+                            </div>
+                          </td>
+                          <td className="px-6 py-4">
+                            <input className={`w-full bg-slate-100 p-2 rounded-xl text-[10px] outline-none focus:bg-white focus:ring-1 focus:ring-indigo-100 ${hasConfigErrors(cost) ? 'ring-1 ring-red-300' : cost.diagnostics.length > 0 ? 'ring-1 ring-amber-200' : ''}`} value={s.configRaw} onChange={(e) => updateProject({ servers: currentProject.servers.map(item => item.id === s.id ? {...item, configRaw: e.target.value} : item)})} />
+                            <ConfigDiagnostics raw={s.configRaw} diagnostics={cost.diagnostics} />
+                          </td>
+                          <td className="px-6 py-4"><VolumeList volumes={s.volumes || []} onChange={(volumes) => updateProject({ servers: currentProject.servers.map(item => item.id === s.id ? {...item, volumes} : item)})} /></td>
                           <td className="px-6 py-4 text-center"><input type="number" className="w-12 text-center bg-slate-100 rounded-lg py-1 font-bold" value={s.quantity} onChange={(e) => updateProject({ servers: currentProject.servers.map(item => item.id === s.id ? {...item, quantity: parseInt(e.target.value) || 1} : item)})} /></td>
-                          <td className="px-6 py-4 text-right font-black text-indigo-600">{formatCurrency(cost.totalPrice)}</td>
-                          <td className="px-6 py-4 text-right"><button onClick={() => updateProject({ servers: currentProject.servers.filter(item => item.id !== s.id)})} className="text-red-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all">×</button></td>
+                          <td className="px-6 py-4 text-right font-black text-indigo-600">
+                            <button onClick={() => setExpandedServerIds(isExpanded ? expandedServerIds.filter(id => id !== s.id) : [...expandedServerIds, s.id])} className="hover:underline" title="Xem chi tiết chi phí">{formatCurrency(cost.monthlyPrice * (s.quantity || 1))} <span className="text-[9px] text-slate-400">{isExpanded ? '▲' : '▼'}</span></button>
+                            {cost.oneTimePrice > 0 && <p className="text-[9px] text-slate-400 font-bold">+ {formatCurrency(cost.oneTimePrice * (s.quantity || 1))} một lần</p>}
+                          </td>
+                          <td className="px-6 py-4 text-right whitespace-nowrap">
+                            <button onClick={() => handleSaveServerAsTemplate(s)} className="text-slate-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all mr-2" title="Lưu làm mẫu">★</button>
+                            <button onClick={() => updateProject({ servers: currentProject.servers.filter(item => item.id !== s.id)})} className="text-red-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all">×</button>
+                          </td>
                         </tr>
+                        {isExpanded && (
+                          <tr className="bg-slate-50/70 border-b border-slate-100">
+                            <td colSpan={6} className="px-10 py-3">
+                              <table className="w-full text-[10px] text-slate-500">
+                                <tbody>
+                                  {cost.lines.map((line, idx) => (
+                                    <tr key={idx}>
+                                      <td className="py-1 font-bold">{line.label}</td>
+                                      <td className="py-1 text-right">{line.quantity} {line.unit}</td>
+                                      <td className="py-1 text-right" title={line.tier ? describeAppliedTier(line.tier) : undefined}>× {formatCurrency(line.unitRate)}{line.tier && line.tier.effectiveRate !== line.tier.baseRate && <span className="text-indigo-500"> (bậc)</span>}</td>
+                                      <td className="py-1 text-right text-slate-400">{BILLING_CYCLE_LABELS[line.billingCycle]}</td>
+                                      <td className="py-1 text-right font-black text-slate-700">{formatCurrency(line.subtotal)}</td>
+                                    </tr>
+                                  ))}
+                                  <tr className="border-t border-slate-200">
+                                    <td colSpan={4} className="py-1 font-black uppercase text-[9px]">Đơn giá / VM × {s.quantity}</td>
+                                    <td className="py-1 text-right font-black text-indigo-600">{formatCurrency(cost.unitPrice)}</td>
+                                  </tr>
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                        </React.Fragment>
                       );
                     })}
                   </tbody>
@@ -570,25 +2343,427 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'scenarios' && (
+            <div className="space-y-8 animate-in fade-in duration-500 pb-20">
+               <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                  <div>
+                     <h3 className="font-black text-2xl text-slate-800 tracking-tight">Phương án dự toán</h3>
+                     <p className="text-xs text-slate-400 mt-1">Mỗi phương án có danh sách VM, đầu việc và đơn giá riêng. Các tab Hạ tầng, Kế hoạch đang chỉnh sửa phương án được chọn.</p>
+                  </div>
+                  <button onClick={() => handleAddScenario()} className="bg-indigo-600 text-white px-6 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500">+ Thêm phương án</button>
+               </div>
+               <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                  {scenarios.map(sc => {
+                    const isActive = sc.id === activeScenarioId;
+                    const inQuote = (currentProject.quotationScenarioIds || []).includes(sc.id);
+                    const overrideCount = Object.keys(sc.infraPrices || {}).length + Object.keys(sc.laborPrices || {}).length;
+                    return (
+                      <div key={sc.id} className={`bg-white p-6 rounded-[32px] border shadow-sm space-y-3 ${isActive ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-slate-200'}`}>
+                        <div className="flex items-center gap-2">
+                          <input className="flex-1 font-black text-slate-800 bg-transparent outline-none focus:text-indigo-600" value={sc.name} onChange={(e) => updateProject(updateScenario(currentProject, sc.id, { name: e.target.value }))} />
+                          {isActive ? <span className="text-[9px] font-black uppercase bg-indigo-50 text-indigo-600 px-2 py-1 rounded-lg">Đang chỉnh sửa</span> : <button onClick={() => updateProject(switchScenario(currentProject, sc.id))} className="text-[10px] font-black text-indigo-600 hover:underline">Chỉnh sửa</button>}
+                        </div>
+                        <textarea className="w-full bg-slate-50 rounded-xl p-2 text-[11px] text-slate-600 outline-none resize-none" rows={2} placeholder="Mô tả phương án (hiển thị trên báo giá)..." value={sc.note || ''} onChange={(e) => updateProject(updateScenario(currentProject, sc.id, { note: e.target.value }))} />
+                        <p className="text-[10px] font-bold text-slate-400">{sc.servers.length} VM · {sc.labors.length} đầu việc</p>
+                        <details>
+                          <summary className="text-[10px] font-black text-slate-500 cursor-pointer">Đơn giá riêng{overrideCount > 0 ? ` (${overrideCount})` : ''}</summary>
+                          <div className="mt-2 space-y-1 max-h-64 overflow-y-auto pr-1">
+                            {(Object.keys(UNIT_PRICE_LABELS) as (keyof UnitPrices)[]).map(key => (
+                              <div key={key} className="flex items-center justify-between gap-2">
+                                <span className="text-[10px] text-slate-500 truncate">{UNIT_PRICE_LABELS[key]}</span>
+                                <input type="number" className="w-24 bg-slate-50 border border-slate-200 rounded-lg px-2 py-0.5 text-[10px] font-bold text-right outline-none" placeholder={String(currentProject.infraPrices[key] || 0)} value={sc.infraPrices?.[key] ?? ''} onChange={(e) => {
+                                  const { [key]: _, ...rest } = sc.infraPrices || {};
+                                  updateProject(updateScenario(currentProject, sc.id, { infraPrices: e.target.value === '' ? rest : { ...rest, [key]: parseFloat(e.target.value) || 0 } }));
+                                }} />
+                              </div>
+                            ))}
+                            {roles.map(({ code: role, name }) => (
+                              <div key={role} className="flex items-center justify-between gap-2">
+                                <span className="text-[10px] text-slate-500 truncate">{name} (MD)</span>
+                                <input type="number" className="w-24 bg-slate-50 border border-slate-200 rounded-lg px-2 py-0.5 text-[10px] font-bold text-right outline-none" placeholder={String(currentProject.laborPrices[role] || 0)} value={sc.laborPrices?.[role] ?? ''} onChange={(e) => {
+                                  const { [role]: _, ...rest } = sc.laborPrices || {};
+                                  updateProject(updateScenario(currentProject, sc.id, { laborPrices: e.target.value === '' ? rest : { ...rest, [role]: parseFloat(e.target.value) || 0 } }));
+                                }} />
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                        <div className="flex items-center justify-between pt-2 border-t border-slate-100">
+                          <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 cursor-pointer">
+                            <input type="checkbox" checked={inQuote} onChange={() => toggleQuotationScenario(sc.id)} /> Đưa vào báo giá
+                          </label>
+                          <div className="flex gap-3">
+                            <button onClick={() => handleAddScenario(sc.id)} className="text-[10px] font-black text-slate-500 hover:text-indigo-600">Nhân bản</button>
+                            {scenarios.length > 1 && <button onClick={() => handleDeleteScenario(sc.id)} className="text-[10px] font-black text-red-300 hover:text-red-500">Xóa</button>}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+               </div>
+               {scenarioComparison.length > 1 && (
+                 <div className="bg-white rounded-[32px] border border-slate-200 shadow-xl overflow-hidden">
+                    <div className="px-6 py-4 border-b">
+                      <h4 className="font-black text-lg">So sánh phương án</h4>
+                      <p className="text-[10px] text-slate-400">Chênh lệch tính so với phương án đang chỉnh sửa.</p>
+                    </div>
+                    <table className="w-full text-left text-xs">
+                      <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-400 border-b">
+                        <tr><th className="px-6 py-3">Hạng mục</th>{scenarioComparison.map(c => <th key={c.scenario.id} className={`px-6 py-3 text-right ${c.scenario.id === activeScenarioId ? 'text-indigo-600' : ''}`}>{c.scenario.name}</th>)}</tr>
+                      </thead>
+                      <tbody>
+                        {([
+                          ['Hạ tầng', (c: ScenarioComparison) => c.infraTotal],
+                          ['Nhân sự', (c: ScenarioComparison) => c.laborTotal],
+                          ['Dự phòng rủi ro', (c: ScenarioComparison) => c.contingencyTotal],
+                          ['Tổng dự toán', (c: ScenarioComparison) => c.grandTotal],
+                          ['Báo giá (gồm VAT)', (c: ScenarioComparison) => c.quotedTotal]
+                        ] as [string, (c: ScenarioComparison) => number][]).map(([label, value]) => {
+                          const baseline = scenarioComparison.find(c => c.scenario.id === activeScenarioId) || scenarioComparison[0];
+                          return (
+                            <tr key={label} className="border-b border-slate-50">
+                              <td className="px-6 py-3 font-bold text-slate-600">{label}</td>
+                              {scenarioComparison.map(c => (
+                                <td key={c.scenario.id} className="px-6 py-3 text-right font-black text-slate-800">
+                                  {formatCurrency(value(c))}
+                                  {c.scenario.id !== baseline.scenario.id && <DeltaBadge value={value(c) - value(baseline)} />}
+                                </td>
+                              ))}
+                            </tr>
+                          );
+                        })}
+                        <tr>
+                          <td className="px-6 py-3 font-bold text-slate-600">Tổng công (MD)</td>
+                          {scenarioComparison.map(c => <td key={c.scenario.id} className="px-6 py-3 text-right font-bold text-slate-500">{c.mandays.toFixed(1)}</td>)}
+                        </tr>
+                      </tbody>
+                    </table>
+                 </div>
+               )}
+            </div>
+          )}
+
           {activeTab === 'settings' && (
             <div className="space-y-8 animate-in fade-in duration-500 pb-20">
+               <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-xl space-y-6">
+                 <div>
+                   <h3 className="text-2xl font-black text-slate-800">Lưu trữ dữ liệu</h3>
+                   <p className="text-xs text-slate-400 font-bold mt-1">Đang dùng: {STORAGE_PROVIDER_LABELS[getStorageConfig().provider]}{isRemoteProvider(getStorageConfig()) && ` · ${getStorageConfig().url}`}</p>
+                 </div>
+                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                   {(Object.keys(STORAGE_PROVIDER_LABELS) as StorageConfig['provider'][]).map(provider => (
+                     <button key={provider} onClick={() => { setStorageDraft({ ...storageDraft, provider }); setStorageStatus(null); }} className={`px-4 py-3 rounded-2xl text-xs font-black transition-all ${storageDraft.provider === provider ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>{STORAGE_PROVIDER_LABELS[provider]}</button>
+                   ))}
+                 </div>
+                 {isRemoteProvider(storageDraft) ? (
+                   <div className="grid md:grid-cols-2 gap-4 text-xs">
+                     <label className="font-bold text-slate-400">{storageDraft.provider === 'supabase' ? 'Project URL' : 'Base URL'}
+                       <input className="mt-1 w-full bg-slate-50 rounded-xl px-3 py-2 font-bold text-slate-700 outline-none focus:bg-white focus:ring-1 focus:ring-indigo-100" placeholder={storageDraft.provider === 'supabase' ? 'https://xxxx.supabase.co' : 'http://localhost:3001'} value={storageDraft.url} onChange={(e) => { setStorageDraft({ ...storageDraft, url: e.target.value }); setStorageStatus(null); }} />
+                     </label>
+                     <label className="font-bold text-slate-400">{storageDraft.provider === 'supabase' ? 'Anon key' : 'Bearer token (không bắt buộc)'}
+                       <input type="password" className="mt-1 w-full bg-slate-50 rounded-xl px-3 py-2 font-bold text-slate-700 outline-none focus:bg-white focus:ring-1 focus:ring-indigo-100" value={storageDraft.key} onChange={(e) => { setStorageDraft({ ...storageDraft, key: e.target.value }); setStorageStatus(null); }} />
+                     </label>
+                     <p className="md:col-span-2 text-[10px] text-slate-400">Dữ liệu cũng được giữ một bản trên trình duyệt và dùng tạm khi không kết nối được máy chủ.</p>
+                   </div>
+                 ) : (
+                   <p className="text-[10px] text-slate-400">Dữ liệu chỉ nằm trên trình duyệt này; tệp đính kèm luôn được lưu trong IndexedDB.</p>
+                 )}
+                 <div className="flex flex-wrap items-center gap-3">
+                   <button onClick={handleCheckStorage} disabled={isRemoteProvider(storageDraft) && !storageDraft.url.trim()} className="bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-xs font-bold hover:bg-slate-200 disabled:opacity-40 transition-all">Kiểm tra kết nối</button>
+                   <button onClick={handleApplyStorage} disabled={isSyncing || (isRemoteProvider(storageDraft) && !storageDraft.url.trim())} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-xs font-bold hover:bg-indigo-500 disabled:opacity-40 transition-all">{isSyncing ? 'Đang sao chép...' : 'Áp dụng'}</button>
+                   <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                     <input type="checkbox" className="accent-indigo-600" checked={copyOnStorageSwitch} onChange={(e) => setCopyOnStorageSwitch(e.target.checked)} />
+                     Sao chép dữ liệu hiện có sang nơi lưu mới
+                   </label>
+                   {storageStatus && <span className={`text-xs font-bold ${storageStatus.ok ? 'text-emerald-600' : 'text-red-500'}`}>{storageStatus.message}</span>}
+                 </div>
+               </div>
+               <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-xl">
+                 <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+                   <h3 className="text-2xl font-black text-slate-800">Bảng giá dùng chung</h3>
+                   <button onClick={handleCreatePriceBook} className="bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all">+ Tạo bảng giá từ giá hiện tại</button>
+                 </div>
+                 <div className="flex flex-col md:flex-row md:items-center gap-4 mb-6">
+                   <select className="text-sm font-black bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 outline-none" value={linkedPriceBook.book?.id || ''} onChange={(e) => {
+                     const book = priceBooks.find(b => b.id === e.target.value);
+                     const version = book ? getEffectiveVersion(book) : null;
+                     if (book && version) setRepriceTarget({ book, version });
+                     else updateProject({ priceBookRef: undefined });
+                   }}>
+                     <option value="">(Không liên kết bảng giá)</option>
+                     {priceBooks.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                   </select>
+                   {linkedPriceBook.book && linkedPriceBook.version && (
+                     <p className="text-xs text-slate-500 font-bold">
+                       Đang dùng phiên bản v{linkedPriceBook.version.version} (hiệu lực {new Date(linkedPriceBook.version.effectiveDate).toLocaleDateString('vi-VN')})
+                       {hasLocalPriceOverrides(currentProject, linkedPriceBook.version) && <span className="ml-2 px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-[10px] font-black">Đã chỉnh sửa riêng</span>}
+                     </p>
+                   )}
+                 </div>
+                 {linkedPriceBook.book && (() => {
+                   const book = linkedPriceBook.book;
+                   const latest = getEffectiveVersion(book);
+                   return (
+                     <div className="space-y-4">
+                       {latest && latest.id !== linkedPriceBook.version?.id && (
+                         <div className="flex items-center justify-between bg-indigo-50 rounded-2xl px-5 py-3">
+                           <span className="text-xs font-bold text-indigo-700">Đã có phiên bản v{latest.version} hiệu lực từ {new Date(latest.effectiveDate).toLocaleDateString('vi-VN')}.</span>
+                           <button onClick={() => setRepriceTarget({ book, version: latest })} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-xs font-bold hover:bg-indigo-500">Áp giá theo bảng giá mới nhất</button>
+                         </div>
+                       )}
+                       <table className="w-full text-left">
+                         <thead className="text-[10px] font-black uppercase text-slate-400 border-b">
+                           <tr><th className="py-2">Phiên bản</th><th className="py-2">Hiệu lực</th><th className="py-2">Ghi chú</th><th className="py-2 text-right">vCPU</th><th className="py-2 text-right">RAM</th><th className="py-2"></th></tr>
+                         </thead>
+                         <tbody>
+                           {[...book.versions].sort((a, b) => b.version - a.version).map(v => (
+                             <tr key={v.id} className="border-b border-slate-50 text-xs">
+                               <td className="py-2 font-black">v{v.version}{v.id === linkedPriceBook.version?.id && <span className="ml-2 text-[9px] text-indigo-500">ĐANG DÙNG</span>}</td>
+                               <td className="py-2">{new Date(v.effectiveDate).toLocaleDateString('vi-VN')}</td>
+                               <td className="py-2 text-slate-500">{v.note}</td>
+                               <td className="py-2 text-right">{formatCurrency(v.infraPrices.cpu)}</td>
+                               <td className="py-2 text-right">{formatCurrency(v.infraPrices.ram)}</td>
+                               <td className="py-2 text-right">{v.id !== linkedPriceBook.version?.id && <button onClick={() => setRepriceTarget({ book, version: v })} className="text-[10px] font-black text-indigo-500 hover:text-indigo-700">Xem chênh lệch</button>}</td>
+                             </tr>
+                           ))}
+                         </tbody>
+                       </table>
+                       <div className="flex flex-wrap items-center gap-3 pt-2">
+                         <span className="text-[11px] font-semibold text-slate-500">Lưu giá hiện tại của dự án thành phiên bản mới, hiệu lực từ</span>
+                         <input type="date" className="text-xs font-bold bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none" value={newVersionDate} onChange={(e) => setNewVersionDate(e.target.value)} />
+                         <button onClick={() => handlePublishPriceBookVersion(book)} className="bg-emerald-50 text-emerald-700 px-4 py-2 rounded-xl text-xs font-bold hover:bg-emerald-100 transition-all">Lưu phiên bản</button>
+                       </div>
+                     </div>
+                   );
+                 })()}
+              </div>
                <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-xl">
                  <h3 className="text-2xl font-black mb-8 text-slate-800">Cấu hình Đơn giá (Unit Prices)</h3>
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
                    <div className="space-y-6">
-                     <p className="text-xs font-black text-indigo-600 uppercase tracking-widest">Hạ tầng Cloud (VND/Tháng)</p>
-                     <PriceRow label="vCPU" value={currentProject.infraPrices.cpu} onChange={(v) => updateProject({ infraPrices: {...currentProject.infraPrices, cpu: v}})} />
-                     <PriceRow label="RAM (GB)" value={currentProject.infraPrices.ram} onChange={(v) => updateProject({ infraPrices: {...currentProject.infraPrices, ram: v}})} />
-                     <PriceRow label="SSD All Flash (1GB)" value={currentProject.infraPrices.diskSanAllFlash} onChange={(v) => updateProject({ infraPrices: {...currentProject.infraPrices, diskSanAllFlash: v}})} />
+                     <p className="text-xs font-black text-indigo-600 uppercase tracking-widest">Hạ tầng Cloud (VND/chu kỳ)</p>
+                     {(Object.keys(UNIT_PRICE_LABELS) as (keyof UnitPrices)[]).map(key => (
+                       <PriceRow key={key} label={UNIT_PRICE_LABELS[key]} value={currentProject.infraPrices[key]} onChange={(v) => updateProject({ infraPrices: {...currentProject.infraPrices, [key]: v}})} />
+                     ))}
+                   </div>
+                   <div className="space-y-6">
+                     <div className="flex items-center justify-between">
+                       <p className="text-xs font-black text-emerald-600 uppercase tracking-widest">Nhân lực (VND/Manday)</p>
+                       <button onClick={() => { const code = createRoleCode('Vai trò mới', roles); updateProject({ roles: [...roles, { code, name: 'Vai trò mới', aliases: [] }], laborPrices: { ...currentProject.laborPrices, [code]: 0 } }); }} className="text-[10px] font-black text-emerald-600 hover:text-emerald-500">+ Thêm vai trò</button>
+                     </div>
+                     <div>
+                       {roles.map(r => (
+                         <RoleRow key={r.code} role={r} rate={currentProject.laborPrices[r.code] || 0} inUse={usedRoleCodes.has(r.code)} onChange={(updates) => updateRole(r.code, updates)} onRename={(code) => renameRole(r.code, code)} onRateChange={(v) => updateProject({ laborPrices: {...currentProject.laborPrices, [r.code]: v}})} onDelete={() => { const { [r.code]: _, ...rest } = currentProject.laborPrices; updateProject({ roles: roles.filter(x => x.code !== r.code), laborPrices: rest }); }} />
+                       ))}
+                     </div>
+                   </div>
+                 </div>
+              </div>
+               <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-xl">
+                 <h3 className="text-2xl font-black mb-8 text-slate-800">Thuế, chiết khấu & tiền tệ</h3>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
+                   <div className="space-y-6">
+                     <p className="text-xs font-black text-indigo-600 uppercase tracking-widest">Báo giá</p>
+                     <PriceRow label="Thuế VAT" value={quoteSettings.vatRate} onChange={(v) => updateQuoteSettings({ vatRate: v })} unit="%" />
+                     <div className="flex items-center justify-between py-2 border-b border-slate-100">
+                       <span className="text-[11px] font-semibold text-slate-500">Chiết khấu tổng</span>
+                       <DiscountInput discount={quoteSettings.overallDiscount} onChange={(d) => updateQuoteSettings({ overallDiscount: d })} />
+                     </div>
+                     <div className="flex items-center justify-between py-2 border-b border-slate-100">
+                       <span className="text-[11px] font-semibold text-slate-500">Khối lượng nhân sự báo giá</span>
+                       <QuotePercentileSelect value={quoteSettings.laborPercentile} onChange={(p) => updateQuoteSettings({ laborPercentile: p })} />
+                     </div>
+                     <div className="flex items-center justify-between py-2 border-b border-slate-100">
+                       <span className="text-[11px] font-semibold text-slate-500">Tổng hợp nhân sự</span>
+                       <select className="text-[11px] font-black bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none" value={quoteSettings.laborGrouping || 'role'} onChange={(e) => updateQuoteSettings({ laborGrouping: e.target.value as 'role' | 'module' })}>
+                         <option value="role">Theo vai trò</option>
+                         <option value="module">Theo module (WBS)</option>
+                       </select>
+                     </div>
+                     <div className="flex items-center justify-between py-2 border-b border-slate-100">
+                       <span className="text-[11px] font-semibold text-slate-500">Tiền tệ báo giá</span>
+                       <select className="text-[11px] font-black bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none" value={quoteSettings.currency} onChange={(e) => updateQuoteSettings({ currency: e.target.value })}>
+                         {['VND', ...Object.keys(quoteSettings.exchangeRates).filter(c => hasExchangeRate(c, quoteSettings.exchangeRates))].map(c => <option key={c} value={c}>{c}</option>)}
+                       </select>
+                     </div>
+                     {currentProject.quotationSettings?.currency && currentProject.quotationSettings.currency !== quoteSettings.currency && (
+                       <p className="text-[10px] font-bold text-amber-600">Chưa có tỷ giá cho {currentProject.quotationSettings.currency}, báo giá đang hiển thị bằng VND.</p>
+                     )}
+                     <p className="text-xs font-black text-indigo-600 uppercase tracking-widest pt-4">Tỷ giá (VNĐ / 1 đơn vị)</p>
+                     {Object.entries(quoteSettings.exchangeRates).map(([currency, rate]) => (
+                       <div key={currency} className="flex items-center gap-2">
+                         <div className="flex-1"><PriceRow label={currency} value={rate} onChange={(v) => updateQuoteSettings({ exchangeRates: {...quoteSettings.exchangeRates, [currency]: v} })} /></div>
+                         <button onClick={() => { const { [currency]: _, ...rest } = quoteSettings.exchangeRates; updateQuoteSettings({ exchangeRates: rest, currency: quoteSettings.currency === currency ? 'VND' : quoteSettings.currency }); }} className="text-red-300 hover:text-red-500 text-xs">×</button>
+                       </div>
+                     ))}
+                     <button onClick={() => { const code = (window.prompt('Mã tiền tệ (ISO 4217, ví dụ JPY):') || '').trim().toUpperCase(); if (/^[A-Z]{3}$/.test(code) && code !== 'VND') updateQuoteSettings({ exchangeRates: {...quoteSettings.exchangeRates, [code]: quoteSettings.exchangeRates[code] || 0} }); }} className="text-[10px] font-black text-indigo-500 hover:text-indigo-700">+ Thêm tiền tệ</button>
+                   </div>
+                   <div className="space-y-6">
+                     <p className="text-xs font-black text-emerald-600 uppercase tracking-widest">Chiết khấu theo hạng mục</p>
+                     {quotation.lines.map(line => (
+                       <div key={line.key} className="flex items-center justify-between py-2 border-b border-slate-100 last:border-0">
+                         <span className="text-[11px] font-semibold text-slate-500 pr-2 truncate">{QUOTATION_SECTION_LABELS[line.section]} · {line.label}</span>
+                         <DiscountInput discount={quoteSettings.lineDiscounts[line.key]} onChange={(d) => {
+                           const { [line.key]: _, ...rest } = quoteSettings.lineDiscounts;
+                           updateQuoteSettings({ lineDiscounts: d ? {...rest, [line.key]: d} : rest });
+                         }} />
+                       </div>
+                     ))}
+                   </div>
+                 </div>
+              </div>
+               <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-xl">
+                 <h3 className="text-2xl font-black mb-2 text-slate-800">Chu kỳ tính phí</h3>
+                 <p className="text-xs text-slate-400 mb-8">Phí hàng năm được chia đều theo tháng; phí một lần chỉ tính một lần cho mỗi VM trong hợp đồng.</p>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-x-12">
+                   {(Object.keys(UNIT_PRICE_LABELS) as (keyof UnitPrices)[]).map(key => (
+                     <div key={key} className="flex items-center justify-between py-2 border-b border-slate-100">
+                       <span className="text-[11px] font-semibold text-slate-500">{UNIT_PRICE_LABELS[key]}</span>
+                       <select className="text-[11px] font-black bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none" value={(currentProject.billingCycles || INITIAL_BILLING_CYCLES)[key]} onChange={(e) => updateProject({ billingCycles: {...(currentProject.billingCycles || INITIAL_BILLING_CYCLES), [key]: e.target.value as BillingCycle}})}>
+                         {(Object.keys(BILLING_CYCLE_LABELS) as BillingCycle[]).map(c => <option key={c} value={c}>{BILLING_CYCLE_LABELS[c]}</option>)}
+                       </select>
+                     </div>
+                   ))}
+                 </div>
+              </div>
+               <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-xl">
+                 <h3 className="text-2xl font-black mb-2 text-slate-800">Bậc giá theo khối lượng</h3>
+                 <p className="text-xs text-slate-400 mb-8">Khối lượng được cộng trên toàn bộ VM của dự án. Lũy tiến: mỗi phần khối lượng tính theo bậc của nó. Toàn phần: toàn bộ khối lượng tính theo bậc cao nhất đạt được. Dưới bậc đầu tiên áp dụng đơn giá cơ bản.</p>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-x-12">
+                   {(Object.keys(UNIT_PRICE_LABELS) as (keyof UnitPrices)[]).map(key => (
+                     <div key={key} className="py-3 border-b border-slate-100">
+                       <div className="flex items-center justify-between mb-1">
+                         <span className="text-[11px] font-semibold text-slate-500">{UNIT_PRICE_LABELS[key]}</span>
+                         <span className="text-[10px] text-slate-400">Cơ bản {formatCurrency(currentProject.infraPrices[key] || 0)}{pricing?.tiers[key] ? ` · đang áp ${formatCurrency(pricing.tiers[key]!.effectiveRate)}` : ''}</span>
+                       </div>
+                       <TierEditor tiered={currentProject.priceTiers?.[key]} unit={PRICE_UNITS[key]} onChange={(tiered) => {
+                         const { [key]: _, ...rest } = currentProject.priceTiers || {};
+                         updateProject({ priceTiers: tiered ? { ...rest, [key]: tiered } : rest });
+                       }} />
+                     </div>
+                   ))}
+                 </div>
+              </div>
+               <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-xl">
+                 <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-2">
+                   <h3 className="text-2xl font-black text-slate-800">Quy tắc nhân sự gián tiếp</h3>
+                   <div className="flex gap-2">
+                     <select className="text-xs font-bold bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 outline-none" value="" onChange={(e) => {
+                       const preset = OVERHEAD_PRESETS.find(p => p.id === e.target.value);
+                       if (preset && window.confirm(`Thay toàn bộ quy tắc bằng mẫu "${preset.name}"?`)) updateProject({ overheadRules: preset.rules.map(r => ({ ...r, sourceRoles: [...r.sourceRoles] })) });
+                     }}>
+                       <option value="">Áp dụng mẫu...</option>
+                       {OVERHEAD_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name} — {p.description}</option>)}
+                     </select>
+                     <button onClick={() => updateProject({ overheadRules: [...overheadRules, { id: 'oh' + Date.now(), label: 'Công gián tiếp', sourceRoles: [Role.SeniorDev, Role.JuniorDev], targetRole: Role.PM, mode: 'ratio', value: 0.2 }] })} className="bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all">+ Thêm quy tắc</button>
                    </div>
+                 </div>
+                 <p className="text-xs text-slate-400 mb-8">Công gián tiếp được suy ra từ công của các vai trò nguồn (chỉ tính đầu việc nhập tay) và hiển thị riêng trên báo giá. Tỷ lệ nhập theo %, ví dụ 20% tương đương 1:5.</p>
+                 <div className="space-y-3">
+                   {overheadRules.map(rule => (
+                     <div key={rule.id} className="bg-slate-50 rounded-2xl p-4 text-[11px] space-y-2">
+                       <div className="flex flex-wrap items-center gap-2">
+                         <input className="flex-1 min-w-[140px] bg-white border border-slate-200 rounded-lg px-2 py-1 font-bold outline-none" value={rule.label} onChange={(e) => updateOverheadRule(rule.id, { label: e.target.value })} />
+                         <select className="bg-white border border-slate-200 rounded-lg px-1 py-1 outline-none" value={rule.targetRole} onChange={(e) => updateOverheadRule(rule.id, { targetRole: e.target.value })}>
+                           {roles.map(r => <option key={r.code} value={r.code}>{r.name}</option>)}
+                         </select>
+                         <select className="bg-white border border-slate-200 rounded-lg px-1 py-1 outline-none" value={rule.mode} onChange={(e) => updateOverheadRule(rule.id, { mode: e.target.value as OverheadMode })}>
+                           <option value="ratio">Theo tỷ lệ</option>
+                           <option value="fixed">Cố định</option>
+                         </select>
+                         <input type="number" min={0} className="w-20 bg-white border border-slate-200 rounded-lg px-2 py-1 font-black text-right outline-none" value={rule.mode === 'ratio' ? Number((rule.value * 100).toFixed(2)) : rule.value} onChange={(e) => { const v = parseFloat(e.target.value) || 0; updateOverheadRule(rule.id, { value: rule.mode === 'ratio' ? v / 100 : v }); }} />
+                         <span className="text-slate-400">{rule.mode === 'ratio' ? '%' : 'MD'}</span>
+                         <input type="number" min={0} className="w-16 bg-white border border-slate-200 rounded-lg px-2 py-1 text-right outline-none" placeholder="Min" value={rule.min ?? ''} onChange={(e) => updateOverheadRule(rule.id, { min: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })} />
+                         <input type="number" min={0} className="w-16 bg-white border border-slate-200 rounded-lg px-2 py-1 text-right outline-none" placeholder="Max" value={rule.max ?? ''} onChange={(e) => updateOverheadRule(rule.id, { max: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })} />
+                         <button onClick={() => updateProject({ overheadRules: overheadRules.filter(r => r.id !== rule.id) })} className="text-red-300 hover:text-red-500 px-1">×</button>
+                       </div>
+                       {rule.mode === 'ratio' && (
+                         <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500">
+                           <span className="font-bold text-slate-400">Nguồn:</span>
+                           {roles.map(({ code: r, name }) => (
+                             <label key={r} className="flex items-center gap-1 cursor-pointer">
+                               <input type="checkbox" checked={rule.sourceRoles.includes(r)} onChange={(e) => updateOverheadRule(rule.id, { sourceRoles: e.target.checked ? [...rule.sourceRoles, r] : rule.sourceRoles.filter(x => x !== r) })} /> {name}
+                             </label>
+                           ))}
+                         </div>
+                       )}
+                       <p className="text-[10px] text-indigo-600 font-bold">{describeOverheadRule(rule, roles)}</p>
+                     </div>
+                   ))}
+                   {overheadRules.length === 0 && <p className="text-xs text-slate-400 italic">Không có quy tắc nào, dự án không tính công gián tiếp.</p>}
+                 </div>
+              </div>
+               <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-xl">
+                 <h3 className="text-2xl font-black mb-2 text-slate-800">Lịch làm việc & nhân lực</h3>
+                 <p className="text-xs text-slate-400 mb-8">Dùng để lập lịch tự động trên tab Tiến độ: các vai trò có nhiều người sẽ cùng làm một đầu việc, rút ngắn thời lượng.</p>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
                    <div className="space-y-6">
-                     <p className="text-xs font-black text-emerald-600 uppercase tracking-widest">Nhân lực (VND/Manday)</p>
-                     {Object.values(Role).map(r => (
-                       <PriceRow key={r} label={r} value={currentProject.laborPrices[r] || 0} onChange={(v) => updateProject({ laborPrices: {...currentProject.laborPrices, [r]: v}})} unit="VND" />
+                     <div>
+                       <p className="text-xs font-black text-indigo-600 uppercase tracking-widest mb-3">Ngày làm việc trong tuần</p>
+                       <div className="flex gap-1.5">
+                         {WEEKDAY_LABELS.map((label, day) => (
+                           <button key={day} onClick={() => updateScheduleSettings({ workingDays: scheduleSettings!.workingDays.includes(day) ? scheduleSettings!.workingDays.filter(d => d !== day) : [...scheduleSettings!.workingDays, day].sort() })} className={`w-10 py-2 rounded-xl text-[10px] font-black transition-all ${scheduleSettings!.workingDays.includes(day) ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400'}`}>{label}</button>
+                         ))}
+                       </div>
+                     </div>
+                     <div>
+                       <p className="text-xs font-black text-indigo-600 uppercase tracking-widest mb-3">Ngày nghỉ lễ</p>
+                       <input type="date" className="text-[11px] font-bold bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none" value="" onChange={(e) => e.target.value && !scheduleSettings!.holidays.includes(e.target.value) && updateScheduleSettings({ holidays: [...scheduleSettings!.holidays, e.target.value].sort() })} />
+                       <div className="flex flex-wrap gap-1.5 mt-3">
+                         {scheduleSettings!.holidays.map(h => (
+                           <span key={h} className="bg-slate-100 text-slate-600 rounded-lg px-2 py-1 text-[10px] font-bold">{formatScheduleDate(h)}<button onClick={() => updateScheduleSettings({ holidays: scheduleSettings!.holidays.filter(x => x !== h) })} className="ml-1.5 text-slate-400 hover:text-red-500">×</button></span>
+                         ))}
+                         {scheduleSettings!.holidays.length === 0 && <span className="text-[10px] text-slate-400 italic">Chưa có ngày nghỉ lễ nào.</span>}
+                       </div>
+                     </div>
+                   </div>
+                   <div className="space-y-1">
+                     <p className="text-xs font-black text-indigo-600 uppercase tracking-widest mb-1">Số người theo vai trò</p>
+                     <p className="text-[10px] text-slate-400 font-bold mb-3">Chỉ dùng cho vai trò chưa có thành viên trong đội ngũ; các vai trò khác lập lịch theo tỷ lệ tham gia và ngày nghỉ của từng người.</p>
+                     {roles.map(({ code: role, name }) => (
+                       <PriceRow key={role} label={name} value={scheduleSettings!.headcount[role] || 1} onChange={(v) => updateScheduleSettings({ headcount: { ...scheduleSettings!.headcount, [role]: Math.max(1, Math.round(v)) } })} unit="người" />
                      ))}
                    </div>
                  </div>
               </div>
+               <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-xl">
+                 <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-2">
+                   <h3 className="text-2xl font-black text-slate-800">Quy tắc kiểm tra hạ tầng</h3>
+                   <button onClick={() => updateLintSettings({ customRules: [...lintSettings.customRules, { id: 'lr' + Date.now(), name: 'Quy tắc mới', severity: 'warning', metric: 'ram', operator: 'gte', value: 4 }] })} className="bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all">+ Thêm quy tắc</button>
+                 </div>
+                 <p className="text-xs text-slate-400 mb-8">Chạy tự động trên danh sách server, không cần kết nối mạng. Quy tắc tự tạo báo lỗi cho các server khớp bộ lọc mà không thỏa điều kiện.</p>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-x-12 mb-8">
+                   {BUILT_IN_LINT_RULES.map(rule => (
+                     <label key={rule.id} className="flex items-center justify-between py-2 border-b border-slate-100 cursor-pointer">
+                       <span className="text-[11px] font-semibold text-slate-500">{rule.name} <span className={`ml-1 text-[9px] font-black px-1.5 py-0.5 rounded-md ${SEVERITY_STYLES[rule.severity]}`}>{LINT_SEVERITY_LABELS[rule.severity]}</span></span>
+                       <input type="checkbox" checked={!lintSettings.disabledRules.includes(rule.id)} onChange={(e) => updateLintSettings({ disabledRules: e.target.checked ? lintSettings.disabledRules.filter(id => id !== rule.id) : [...lintSettings.disabledRules, rule.id] })} />
+                     </label>
+                   ))}
+                 </div>
+                 <div className="space-y-3">
+                   {lintSettings.customRules.map(rule => (
+                     <div key={rule.id} className="flex flex-wrap items-center gap-2 bg-slate-50 rounded-2xl p-3 text-[11px]">
+                       <input className="flex-1 min-w-[160px] bg-white border border-slate-200 rounded-lg px-2 py-1 font-bold outline-none" value={rule.name} onChange={(e) => updateCustomLintRule(rule.id, { name: e.target.value })} />
+                       <select className="bg-white border border-slate-200 rounded-lg px-1 py-1 outline-none" value={rule.category || ''} onChange={(e) => updateCustomLintRule(rule.id, { category: (e.target.value || undefined) as Category | undefined })}>
+                         <option value="">Mọi loại</option>
+                         {Object.values(Category).map(c => <option key={c} value={c}>{c}</option>)}
+                       </select>
+                       <input className="w-20 bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none" placeholder="OS chứa..." value={rule.osContains || ''} onChange={(e) => updateCustomLintRule(rule.id, { osContains: e.target.value || undefined })} />
+                       <select className="bg-white border border-slate-200 rounded-lg px-1 py-1 outline-none" value={rule.metric} onChange={(e) => updateCustomLintRule(rule.id, { metric: e.target.value as LintMetric })}>
+                         {(Object.keys(LINT_METRIC_LABELS) as LintMetric[]).map(m => <option key={m} value={m}>{LINT_METRIC_LABELS[m]}</option>)}
+                       </select>
+                       <select className="bg-white border border-slate-200 rounded-lg px-1 py-1 outline-none" value={rule.operator} onChange={(e) => updateCustomLintRule(rule.id, { operator: e.target.value as LintOperator })}>
+                         {(Object.keys(LINT_OPERATOR_LABELS) as LintOperator[]).map(o => <option key={o} value={o}>{LINT_OPERATOR_LABELS[o]}</option>)}
+                       </select>
+                       <input type="number" className="w-20 bg-white border border-slate-200 rounded-lg px-2 py-1 font-black text-right outline-none" value={rule.value} onChange={(e) => updateCustomLintRule(rule.id, { value: parseFloat(e.target.value) || 0 })} />
+                       <select className="bg-white border border-slate-200 rounded-lg px-1 py-1 outline-none" value={rule.severity} onChange={(e) => updateCustomLintRule(rule.id, { severity: e.target.value as LintSeverity })}>
+                         {(Object.keys(LINT_SEVERITY_LABELS) as LintSeverity[]).map(sev => <option key={sev} value={sev}>{LINT_SEVERITY_LABELS[sev]}</option>)}
+                       </select>
+                       <button onClick={() => updateLintSettings({ customRules: lintSettings.customRules.filter(r => r.id !== rule.id) })} className="text-red-300 hover:text-red-500 px-1">×</button>
+                     </div>
+                   ))}
+                 </div>
+              </div>
             </div>
           )}
         </div>
@@ -597,7 +2772,7 @@ const App: React.FC = () => {
           <div className="flex gap-10">
             <div className="hidden sm:block">
               <p className="text-[8px] text-slate-500 font-bold uppercase tracking-widest">Tổng công</p>
-              <p className="text-xl font-black text-indigo-400">{(manualLaborTotal/manualLaborTotal ? (currentProject.labors.reduce((s,l)=>s+l.mandays,0)) + autoLaborStats.pm + autoLaborStats.ba + autoLaborStats.qc : 0).toFixed(1)} <span className="text-xs text-slate-500">MD</span></p>
+              <p className="text-xl font-black text-indigo-400">{(manualLaborTotal/manualLaborTotal ? laborMandays : 0).toFixed(1)} <span className="text-xs text-slate-500">MD</span></p>
             </div>
             <div className="border-l border-slate-800 pl-10 hidden md:block">
               <p className="text-[8px] text-slate-500 font-bold uppercase tracking-widest">Khởi tạo</p>
@@ -610,6 +2785,218 @@ const App: React.FC = () => {
           </div>
         </footer>
       </main>
+      {detailTask && (
+        <div className="fixed inset-0 z-[85] bg-slate-900/40 flex justify-end" onClick={() => setDetailTaskId(null)}>
+          <div className="bg-white w-full max-w-md h-full shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="p-6 border-b border-slate-100 flex items-start gap-3">
+              <div className="flex-1">
+                <p className="text-[10px] font-black text-slate-300 uppercase">{wbsCodes[detailTask.id]}</p>
+                <input className="w-full text-lg font-black text-slate-800 outline-none border-b border-transparent focus:border-indigo-300" value={detailTask.taskName} onChange={(e) => updateLabor(detailTask.id, { taskName: e.target.value })} />
+              </div>
+              <button onClick={() => setDetailTaskId(null)} className="text-slate-400 hover:text-slate-700 text-xl font-bold">×</button>
+            </div>
+            <div className="overflow-y-auto flex-1 p-6 space-y-4 text-xs">
+              <textarea className="w-full bg-slate-50 rounded-xl px-3 py-2 outline-none resize-none" rows={3} placeholder="Mô tả..." value={detailTask.description} onChange={(e) => updateLabor(detailTask.id, { description: e.target.value })} />
+              <div className="grid grid-cols-2 gap-3">
+                <label className="font-bold text-slate-400">Trạng thái
+                  <select className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={detailTask.status} onChange={(e) => updateProject({ labors: moveTask(currentProject.labors, leafLabors, detailTask.id, e.target.value as TaskStatus) })}>
+                    {Object.values(TaskStatus).map(st => <option key={st} value={st}>{st}</option>)}
+                  </select>
+                </label>
+                <label className="font-bold text-slate-400">Độ ưu tiên
+                  <select className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={detailTask.priority} onChange={(e) => updateLabor(detailTask.id, { priority: e.target.value as Priority })}>
+                    {Object.values(Priority).map(pr => <option key={pr} value={pr}>{pr}</option>)}
+                  </select>
+                </label>
+                <label className="font-bold text-slate-400">Vai trò
+                  <select className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={detailTask.role} onChange={(e) => updateLabor(detailTask.id, { role: e.target.value })}>
+                    {roles.map(r => <option key={r.code} value={r.code}>{r.name}</option>)}
+                  </select>
+                </label>
+                <label className="font-bold text-slate-400">Người thực hiện
+                  {team.length > 0 ? (
+                    <select className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={findAssignee(detailTask, team)?.id || ''} onChange={(e) => updateProject({ labors: currentProject.labors.map(t => t.id === detailTask.id ? assignTask(t, team.find(m => m.id === e.target.value)) : t) })}>
+                      <option value="">{detailTask.assignee && !findAssignee(detailTask, team) ? `${detailTask.assignee} (ngoài đội)` : 'Chưa giao'}</option>
+                      {team.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                  ) : (
+                    <input className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={detailTask.assignee} onChange={(e) => updateLabor(detailTask.id, { assignee: e.target.value })} />
+                  )}
+                </label>
+                <label className="font-bold text-slate-400">Hạn hoàn thành
+                  <input type="date" className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={detailTask.dueDate} onChange={(e) => updateLabor(detailTask.id, { dueDate: e.target.value })} />
+                </label>
+                <label className="font-bold text-slate-400">Hoàn thành (%)
+                  <input type="number" min={0} max={100} step={10} className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none placeholder:text-slate-400" placeholder={String(getPercentComplete({ ...detailTask, percentComplete: undefined }))} value={detailTask.percentComplete ?? ''} onChange={(e) => updateLabor(detailTask.id, { percentComplete: e.target.value === '' ? undefined : Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })} />
+                </label>
+              </div>
+              <div className="font-bold text-slate-400">Khối lượng (MD)
+                {detailTask.estimate ? (
+                  <div className="mt-1 flex items-center gap-2">
+                    {(['optimistic', 'mostLikely', 'pessimistic'] as const).map(k => (
+                      <input key={k} type="number" step="0.5" min={0} title={k === 'optimistic' ? 'Lạc quan' : k === 'mostLikely' ? 'Khả dĩ nhất' : 'Bi quan'} className="w-16 text-center bg-slate-50 rounded-lg py-1.5 font-bold text-slate-700 outline-none" value={detailTask.estimate![k]} onChange={(e) => updateLaborEstimate(detailTask.id, { ...detailTask.estimate!, [k]: parseFloat(e.target.value) || 0 })} onBlur={() => updateLaborEstimate(detailTask.id, normalizeEstimate(detailTask.estimate!))} />
+                    ))}
+                    <span className="font-black text-slate-700">= {detailTask.mandays.toFixed(1)} MD</span>
+                  </div>
+                ) : (
+                  <input type="number" step="0.5" min={0} className="mt-1 w-24 bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={detailTask.mandays} onChange={(e) => updateLabor(detailTask.id, { mandays: parseFloat(e.target.value) || 0 })} />
+                )}
+              </div>
+              <label className="block font-bold text-slate-400">Module
+                <select className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={detailTask.parentId || ''} onChange={(e) => updateLabor(detailTask.id, { parentId: e.target.value || undefined })}>
+                  <option value="">— Cấp gốc —</option>
+                  {currentProject.labors.filter(c => c.id !== detailTask.id && !getDescendantIds(currentProject.labors, detailTask.id).includes(c.id)).map(c => <option key={c.id} value={c.id}>{wbsCodes[c.id]} {c.taskName}</option>)}
+                </select>
+              </label>
+              <div className="font-bold text-slate-400">Làm sau
+                <div className="mt-1 flex flex-wrap items-center gap-1">
+                  {(detailTask.predecessorIds || []).filter(id => wbsCodes[id]).map(id => (
+                    <span key={id} className="bg-slate-100 text-slate-600 rounded px-1.5 py-0.5 text-[10px] font-bold">
+                      {wbsCodes[id]} {currentProject.labors.find(x => x.id === id)?.taskName}<button onClick={() => updateLabor(detailTask.id, { predecessorIds: (detailTask.predecessorIds || []).filter(p => p !== id) })} className="ml-1 text-slate-400 hover:text-red-500">×</button>
+                    </span>
+                  ))}
+                  <select className="text-[10px] font-bold text-slate-400 bg-transparent outline-none" value="" onChange={(e) => e.target.value && updateLabor(detailTask.id, { predecessorIds: [...(detailTask.predecessorIds || []), e.target.value] })}>
+                    <option value="">+ Thêm...</option>
+                    {getPredecessorCandidates(currentProject.labors, detailTask.id).filter(c => !(detailTask.predecessorIds || []).includes(c.id)).map(c => <option key={c.id} value={c.id}>{wbsCodes[c.id]} {c.taskName}</option>)}
+                  </select>
+                </div>
+              </div>
+              {milestones.length > 0 && (
+                <label className="block font-bold text-slate-400">Mốc
+                  <select className="mt-1 w-full bg-slate-50 rounded-lg px-2 py-1.5 font-bold text-slate-700 outline-none" value={detailTask.milestoneId || ''} onChange={(e) => updateLabor(detailTask.id, { milestoneId: e.target.value || undefined })}>
+                    <option value="">— Không gắn mốc —</option>
+                    {milestones.map(m => <option key={m.id} value={m.id}>Xong trước mốc: {m.title}</option>)}
+                  </select>
+                </label>
+              )}
+              {sourceMeeting && (
+                <div className="flex items-center justify-between bg-indigo-50 rounded-xl px-3 py-2">
+                  <span className="font-bold text-indigo-600 truncate">Từ cuộc họp: {sourceMeeting.title} ({formatScheduleDate(sourceMeeting.date)})</span>
+                  <button onClick={() => openJournalEntry(sourceMeeting.id)} className="text-[10px] font-black text-indigo-600 hover:text-indigo-500 shrink-0">Nhật ký →</button>
+                </div>
+              )}
+              {getJournalBacklinks(currentProject.journal, detailTask.id).length > 0 && (
+                <div className="font-bold text-slate-400">Nhật ký liên quan
+                  <JournalLinks entries={getJournalBacklinks(currentProject.journal, detailTask.id)} onOpen={openJournalEntry} />
+                </div>
+              )}
+              <div className="flex items-center justify-between bg-slate-50 rounded-xl px-3 py-2">
+                <span className="font-bold text-slate-500">Đã ghi {getActualMandays(detailTask).toFixed(1)} MD thực tế ({(detailTask.actuals || []).length} lần)</span>
+                <button onClick={() => { setDetailTaskId(null); setActiveTab('tracking'); }} className="text-[10px] font-black text-indigo-600 hover:text-indigo-500">Ghi công →</button>
+              </div>
+              <div>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Lịch sử</p>
+                <div className="space-y-1.5">
+                  {(detailTask.history || []).slice().reverse().map((h, idx) => (
+                    <div key={idx} className="flex gap-3 text-[11px]">
+                      <span className="w-28 shrink-0 text-slate-400">{new Date(h.at).toLocaleString('vi-VN', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                      <span className="text-slate-600"><span className="font-bold">{TASK_HISTORY_LABELS[h.field]}</span>{h.field !== 'created' && <>: {formatHistoryValue(h, h.from)} → <span className="font-bold">{formatHistoryValue(h, h.to)}</span></>}</span>
+                    </div>
+                  ))}
+                  {(detailTask.history || []).length === 0 && <p className="text-[11px] text-slate-400 italic">Chưa có thay đổi nào được ghi lại.</p>}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+      {mergeConflict && !mergeConflict.remote && (
+        <div className="fixed inset-0 z-[95] bg-slate-900/60 flex items-center justify-center p-4">
+          <div className="bg-white rounded-[32px] shadow-2xl w-full max-w-lg p-8">
+            <h3 className="text-xl font-black text-slate-800">Dự án đã bị xóa trên máy chủ: {mergeConflict.local.name}</h3>
+            <p className="text-xs text-slate-400 font-bold mt-1">Một người khác đã xóa dự án này trong lúc bạn sửa trên máy này. Giữ lại sẽ tải bản của bạn lên thành dự án mới trên máy chủ.</p>
+            <div className="flex justify-end gap-3 mt-6">
+              <button onClick={() => setMergeConflict(null)} className="px-6 py-2 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100">Để sau</button>
+              <button onClick={() => handleResolveDeleted(false)} disabled={isPushing} className="px-6 py-2 rounded-xl text-xs font-bold text-red-500 hover:bg-red-50 disabled:opacity-50">Xóa trên máy này</button>
+              <button onClick={() => handleResolveDeleted(true)} disabled={isPushing} className="bg-indigo-600 text-white px-6 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500 disabled:opacity-50">{isPushing ? 'Đang đồng bộ...' : 'Giữ lại & tải lên'}</button>
+            </div>
+          </div>
+        </div>
+      )}
+      {mergeConflict?.remote && (() => {
+        const unresolved = mergeConflict.items.filter(i => !i.resolution);
+        const autoCount = mergeConflict.items.length - unresolved.length;
+        const setAll = (choice: MergeChoice) => setMergeChoices(Object.fromEntries(unresolved.map(i => [i.key, choice])));
+        return (
+          <div className="fixed inset-0 z-[95] bg-slate-900/60 flex items-center justify-center p-4">
+            <div className="bg-white rounded-[32px] shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+              <div className="p-8 border-b border-slate-100">
+                <h3 className="text-xl font-black text-slate-800">Xung đột đồng bộ: {mergeConflict.local.name}</h3>
+                <p className="text-xs text-slate-400 font-bold mt-1">
+                  Dự án đã được sửa trên máy chủ (phiên bản {mergeConflict.remote.revision || 0}, {new Date(mergeConflict.remote.lastModified).toLocaleString('vi-VN')}) trong lúc bạn sửa trên máy này.
+                  {autoCount > 0 && ` ${autoCount} thay đổi chỉ có ở một phía đã được gộp tự động.`} Chọn bản giữ lại cho từng mục bên dưới.
+                </p>
+                <div className="flex gap-2 mt-4">
+                  <button onClick={() => setAll('local')} className="bg-slate-100 text-slate-600 px-3 py-1.5 rounded-lg text-[10px] font-black hover:bg-slate-200">Giữ tất cả bản của tôi</button>
+                  <button onClick={() => setAll('remote')} className="bg-slate-100 text-slate-600 px-3 py-1.5 rounded-lg text-[10px] font-black hover:bg-slate-200">Lấy tất cả bản trên máy chủ</button>
+                </div>
+              </div>
+              <div className="overflow-y-auto px-8 py-4 flex-1 space-y-3">
+                {unresolved.map(item => {
+                  const choice = mergeChoices[item.key] || 'local';
+                  return (
+                    <div key={item.key} className="border border-slate-100 rounded-2xl p-4">
+                      <p className="text-xs font-black text-slate-800">
+                        <span className="text-[10px] text-slate-400 uppercase tracking-widest mr-2">{MERGE_SECTION_LABELS[item.section]}</span>{item.label}
+                      </p>
+                      {item.fields.length > 0 && <p className="text-[10px] text-slate-400 font-bold mt-0.5">Khác nhau ở: {item.fields.join(', ')}</p>}
+                      <div className="grid md:grid-cols-2 gap-2 mt-3">
+                        {(['local', 'remote'] as MergeChoice[]).map(side => (
+                          <button key={side} onClick={() => setMergeChoices({ ...mergeChoices, [item.key]: side })} className={`text-left rounded-xl px-3 py-2 text-xs transition-all ${choice === side ? 'bg-indigo-50 ring-2 ring-indigo-500' : 'bg-slate-50 hover:bg-slate-100'}`}>
+                            <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400">{side === 'local' ? 'Bản của tôi' : 'Bản trên máy chủ'}</span>
+                            <span className={`block font-bold ${item[side] === undefined ? 'text-red-500 italic' : 'text-slate-700'}`}>{summarizeMergeValue(item.section, item[side])}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+                <button onClick={() => setMergeConflict(null)} className="px-6 py-2 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100">Để sau</button>
+                <button onClick={handleResolveMerge} disabled={isPushing} className="bg-indigo-600 text-white px-6 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500 disabled:opacity-50">{isPushing ? 'Đang đồng bộ...' : 'Hợp nhất & đồng bộ'}</button>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+      {repriceTarget && repriceDiff && (
+        <div className="fixed inset-0 z-[90] bg-slate-900/60 flex items-center justify-center p-4">
+          <div className="bg-white rounded-[32px] shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+            <div className="p-8 border-b border-slate-100">
+              <h3 className="text-xl font-black text-slate-800">Áp giá: {repriceTarget.book.name} v{repriceTarget.version.version}</h3>
+              <p className="text-xs text-slate-400 font-bold mt-1">Hiệu lực từ {new Date(repriceTarget.version.effectiveDate).toLocaleDateString('vi-VN')}{repriceTarget.version.note ? ` · ${repriceTarget.version.note}` : ''}. Giá trị trước chiết khấu và thuế.</p>
+            </div>
+            <div className="overflow-y-auto px-8 py-4 flex-1">
+              <table className="w-full text-left">
+                <thead className="text-[10px] font-black uppercase text-slate-400 border-b">
+                  <tr><th className="py-2">Hạng mục</th><th className="py-2 text-right">Hiện tại</th><th className="py-2 text-right">Sau khi áp giá</th><th className="py-2 text-right">Chênh lệch</th></tr>
+                </thead>
+                <tbody>
+                  {repriceDiff.lines.map(l => (
+                    <tr key={l.key} className="border-b border-slate-50 text-xs">
+                      <td className="py-2 font-bold">{QUOTATION_SECTION_LABELS[l.section]} · {l.label}</td>
+                      <td className="py-2 text-right">{formatCurrency(l.before)}</td>
+                      <td className="py-2 text-right">{formatCurrency(l.after)}</td>
+                      <td className={`py-2 text-right font-black ${l.delta > 0 ? 'text-red-500' : l.delta < 0 ? 'text-emerald-600' : 'text-slate-400'}`}>{l.delta > 0 ? '+' : ''}{formatCurrency(l.delta)}</td>
+                    </tr>
+                  ))}
+                  <tr className="text-xs font-black">
+                    <td className="py-3">Tổng cộng (gồm VAT)</td>
+                    <td className="py-3 text-right">{formatCurrency(repriceDiff.totalBefore)}</td>
+                    <td className="py-3 text-right">{formatCurrency(repriceDiff.totalAfter)}</td>
+                    <td className={`py-3 text-right ${repriceDiff.totalAfter > repriceDiff.totalBefore ? 'text-red-500' : 'text-emerald-600'}`}>{repriceDiff.totalAfter > repriceDiff.totalBefore ? '+' : ''}{formatCurrency(repriceDiff.totalAfter - repriceDiff.totalBefore)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+              <button onClick={() => setRepriceTarget(null)} className="px-6 py-2 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100">Hủy</button>
+              <button onClick={handleConfirmReprice} className="bg-indigo-600 text-white px-6 py-2 rounded-xl text-xs font-bold shadow-lg hover:bg-indigo-500">Áp dụng giá mới</button>
+            </div>
+          </div>
+        </div>
+      )}
       <style dangerouslySetInnerHTML={{ __html: `
         @import url('https://fonts.googleapis.com/css2?family=Plus+Jakarta+Sans:wght@400;500;600;700;800&display=swap');
         body { font-family: 'Plus Jakarta Sans', sans-serif; }
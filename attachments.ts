@@ -0,0 +1,61 @@
+import { JournalAttachment } from './types';
+import { getStorageProvider, runIndexedDb } from './storage';
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+/** Files the storage provider did not accept, waiting in this browser until they can be uploaded. */
+export const isLocalAttachment = (attachment: JournalAttachment) => !attachment.storagePath;
+
+const uploadToStorage = async (projectId: string, attachment: JournalAttachment, file: Blob) => {
+  const path = `${projectId}/${attachment.id}-${attachment.name.replace(/[^\w.-]+/g, '_')}`;
+  try {
+    await getStorageProvider().putAttachment(path, file, attachment.mimeType);
+    return path;
+  } catch (err) {
+    console.error(err);
+    return null;
+  }
+};
+
+/**
+ * Stores a file with the active storage provider, or in this browser (IndexedDB) when the provider
+ * cannot be reached.
+ */
+export const addAttachment = async (projectId: string, file: File): Promise<JournalAttachment> => {
+  const attachment: JournalAttachment = {
+    id: 'att' + Date.now() + Math.random().toString(36).slice(2, 6),
+    name: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    uploadedAt: new Date().toISOString()
+  };
+  const storagePath = await uploadToStorage(projectId, attachment, file);
+  if (storagePath) return { ...attachment, storagePath };
+  await runIndexedDb('pendingAttachments', 'readwrite', store => store.put(file, attachment.id));
+  return attachment;
+};
+
+/** Uploads a locally kept file; returns the attachment unchanged if the provider is still unreachable. */
+export const pushLocalAttachment = async (projectId: string, attachment: JournalAttachment): Promise<JournalAttachment> => {
+  if (!isLocalAttachment(attachment)) return attachment;
+  const file = await runIndexedDb<Blob | undefined>('pendingAttachments', 'readonly', store => store.get(attachment.id));
+  if (!file) return attachment;
+  const storagePath = await uploadToStorage(projectId, attachment, file);
+  if (!storagePath) return attachment;
+  await runIndexedDb('pendingAttachments', 'readwrite', store => store.delete(attachment.id));
+  return { ...attachment, storagePath };
+};
+
+export const getAttachmentUrl = async (attachment: JournalAttachment): Promise<string | null> => {
+  if (attachment.storagePath) return getStorageProvider().getAttachmentUrl(attachment.storagePath);
+  const file = await runIndexedDb<Blob | undefined>('pendingAttachments', 'readonly', store => store.get(attachment.id));
+  return file ? URL.createObjectURL(file) : null;
+};
+
+export const removeAttachment = async (attachment: JournalAttachment) => {
+  if (attachment.storagePath) await getStorageProvider().deleteAttachment(attachment.storagePath);
+  else await runIndexedDb('pendingAttachments', 'readwrite', store => store.delete(attachment.id));
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
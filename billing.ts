@@ -0,0 +1,57 @@
+import { BillingCycle, Project, ServerItem } from './types';
+
+const DAY_MS = 86400000;
+
+const parseDate = (value?: string): Date | null => {
+  if (!value) return null;
+  const d = new Date(`${value}T00:00:00Z`);
+  return isNaN(d.getTime()) ? null : d;
+};
+
+const addMonths = (date: Date, months: number) => {
+  const d = new Date(date.getTime());
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d;
+};
+
+/**
+ * Number of months between two ISO dates, end date inclusive. Whole months are counted
+ * from the start date; the remaining days are prorated against the length of that last month.
+ */
+export const getContractMonths = (startDate?: string, endDate?: string): number | null => {
+  const start = parseDate(startDate);
+  const end = parseDate(endDate);
+  if (!start || !end) return null;
+  const endExclusive = new Date(end.getTime() + DAY_MS);
+  if (endExclusive <= start) return 0;
+
+  let months = 0;
+  while (addMonths(start, months + 1) <= endExclusive) months++;
+  const periodStart = addMonths(start, months);
+  const periodEnd = addMonths(start, months + 1);
+  const partial = (endExclusive.getTime() - periodStart.getTime()) / (periodEnd.getTime() - periodStart.getTime());
+  return months + partial;
+};
+
+/**
+ * Months a server is billed for: its own rollout window clipped to the project dates.
+ * Returns null when neither the server nor the project has a complete date range.
+ */
+export const getServerMonths = (server: ServerItem, project: Project): number | null => {
+  const starts = [server.startDate, project.startDate].filter(Boolean) as string[];
+  const ends = [server.endDate, project.endDate].filter(Boolean) as string[];
+  if (starts.length === 0 || ends.length === 0) return null;
+  const start = starts.sort()[starts.length - 1];
+  const end = ends.sort()[0];
+  return getContractMonths(start, end);
+};
+
+export const toMonthlyRate = (amount: number, cycle: BillingCycle) => {
+  if (cycle === 'monthly') return amount;
+  if (cycle === 'yearly') return amount / 12;
+  return 0;
+};
@@ -0,0 +1,121 @@
+import { CalendarEvent, JournalEntryType, Project, TaskStatus } from './types';
+import { CALENDAR_EVENT_LABELS } from './constants';
+import { getWeekStart } from './capacity';
+import { getAssigneeKey, isTaskOverdue } from './filters';
+import { markdownToText } from './markdown';
+import { addDays } from './schedule';
+import { getLeafLabors } from './wbs';
+
+/**
+ * Task due dates, milestones and meetings of a project, sorted by date. A milestone is overdue
+ * once its date has passed with linked tasks still open.
+ */
+export const buildCalendarEvents = (project: Project, today: string): CalendarEvent[] => {
+  const team = project.team || [];
+  const leaves = getLeafLabors(project.labors || []);
+  const tasks: CalendarEvent[] = leaves.filter(l => l.dueDate).map(l => ({
+    id: `task:${l.id}`,
+    sourceId: l.id,
+    kind: 'task',
+    date: l.dueDate,
+    title: l.taskName,
+    description: [l.assignee && `Người thực hiện: ${l.assignee}`, `Trạng thái: ${l.status}`, l.description].filter(Boolean).join('\n'),
+    assigneeKey: getAssigneeKey(l, team),
+    overdue: isTaskOverdue(l, today)
+  }));
+  const journal: CalendarEvent[] = (project.journal || [])
+    .filter(j => j.date && (j.type === JournalEntryType.Milestone || j.type === JournalEntryType.Meeting))
+    .map(j => {
+      const open = leaves.filter(l => l.milestoneId === j.id && l.status !== TaskStatus.Done);
+      return {
+        id: `journal:${j.id}`,
+        sourceId: j.id,
+        kind: j.type === JournalEntryType.Milestone ? 'milestone' : 'meeting',
+        date: j.date,
+        title: j.title,
+        description: markdownToText(j.content),
+        overdue: j.type === JournalEntryType.Milestone && j.date < today && open.length > 0
+      };
+    });
+  return [...tasks, ...journal].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/** The 6 Monday-first weeks covering the month of `anchor`. */
+export const getMonthGrid = (anchor: string) => {
+  const start = getWeekStart(`${anchor.slice(0, 7)}-01`);
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i));
+};
+
+export const getWeekDates = (anchor: string) => {
+  const start = getWeekStart(anchor);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+};
+
+/** Same day in the previous or next month, clamped to the month's length. */
+export const shiftMonth = (anchor: string, months: number) => {
+  const [y, m, d] = anchor.split('-').map(Number);
+  const first = new Date(Date.UTC(y, m - 1 + months, 1));
+  const days = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), Math.min(d, days))).toISOString().slice(0, 10);
+};
+
+const escapeIcsText = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Splits a content line into 75-octet lines as RFC 5545 requires, never inside a character. */
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (iso: string) => iso.replace(/-/g, '');
+
+/** An iCalendar document with one all-day event per calendar event. */
+export const buildIcs = (project: Project, events: CalendarEvent[], stamp = new Date()) => {
+  const dtStamp = stamp.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//EstimaCore//Project Calendar//VI',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(project.name)}`,
+    ...events.flatMap(e => [
+      'BEGIN:VEVENT',
+      `UID:${e.id.replace(':', '-')}-${project.id}@estimacore`,
+      `DTSTAMP:${dtStamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(e.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(addDays(e.date, 1))}`,
+      `SUMMARY:${escapeIcsText(e.kind === 'task' ? `Hạn: ${e.title}` : e.title)}`,
+      ...(e.description ? [`DESCRIPTION:${escapeIcsText(e.description)}`] : []),
+      `CATEGORIES:${escapeIcsText(CALENDAR_EVENT_LABELS[e.kind])}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ]),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+export const exportCalendarToIcs = (project: Project, events: CalendarEvent[], suffix = '') => {
+  const blob = new Blob([buildIcs(project, events)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${project.name.replace(/\s+/g, '_')}${suffix ? `_${suffix.replace(/\s+/g, '_')}` : ''}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,75 @@
+import { LaborItem, MemberUtilisation, Project, ScheduleResult, TeamMember } from './types';
+import { addDays, getScheduleSettings, getWorkingDates } from './schedule';
+import { findAssignee } from './utils';
+import { getLeafLabors } from './wbs';
+
+// Rounding slack so 5 MD in a 5-day week is not flagged.
+const OVER_ALLOCATION_TOLERANCE = 0.01;
+
+/** Monday of the week containing `iso`. */
+export const getWeekStart = (iso: string) => {
+  const weekday = new Date(`${iso}T00:00:00Z`).getUTCDay();
+  return addDays(iso, -((weekday + 6) % 7));
+};
+
+export const createTeamMember = (name: string, role: TeamMember['role']): TeamMember => ({
+  id: 'tm' + Date.now(),
+  name,
+  role,
+  availability: 100,
+  daysOff: []
+});
+
+/** Tasks pointing at the member get the new name so the free-text assignee stays readable. */
+export const renameTeamMember = (labors: LaborItem[], member: TeamMember, name: string) =>
+  labors.map(l => findAssignee(l, [member]) ? { ...l, assigneeId: member.id, assignee: name } : l);
+
+export const assignTask = (item: LaborItem, member?: TeamMember): LaborItem =>
+  member ? { ...item, assigneeId: member.id, assignee: member.name } : { ...item, assigneeId: undefined, assignee: '' };
+
+/**
+ * Weekly load of every roster member over the scheduled weeks. Each assigned task spreads its
+ * mandays evenly over its scheduled working days; a week's capacity is the member's working days
+ * (holidays and days off excluded) times their availability.
+ */
+export const calculateUtilisation = (project: Project, schedule: ScheduleResult): MemberUtilisation[] => {
+  const settings = getScheduleSettings(project);
+  const team = project.team || [];
+  const leaves = getLeafLabors(project.labors || []);
+  const weeks: string[] = [];
+  for (let week = getWeekStart(schedule.startDate); week <= schedule.finishDate; week = addDays(week, 7)) weeks.push(week);
+
+  return team.map(member => {
+    const loadByDay = new Map<string, number>();
+    const tasksByWeek = new Map<string, Set<string>>();
+    leaves.filter(l => findAssignee(l, team)?.id === member.id).forEach(l => {
+      const task = schedule.tasks[l.id];
+      if (!task || task.duration === 0) return;
+      const days = getWorkingDates(task.startDate, task.finishDate, settings);
+      days.forEach(d => {
+        loadByDay.set(d, (loadByDay.get(d) || 0) + (l.mandays || 0) / days.length);
+        const week = getWeekStart(d);
+        tasksByWeek.set(week, (tasksByWeek.get(week) || new Set()).add(l.id));
+      });
+    });
+
+    const loads = weeks.map(weekStart => {
+      const days = getWorkingDates(weekStart, addDays(weekStart, 6), settings);
+      const allocated = days.reduce((sum, d) => sum + (loadByDay.get(d) || 0), 0);
+      const capacity = days.filter(d => !member.daysOff.includes(d)).length * Math.max(0, member.availability) / 100;
+      return {
+        weekStart,
+        allocated,
+        capacity,
+        overAllocated: allocated > capacity + OVER_ALLOCATION_TOLERANCE,
+        taskIds: Array.from(tasksByWeek.get(weekStart) || [])
+      };
+    });
+    return {
+      member,
+      weeks: loads,
+      allocated: loads.reduce((sum, w) => sum + w.allocated, 0),
+      overAllocatedWeeks: loads.filter(w => w.overAllocated).length
+    };
+  });
+};
@@ -0,0 +1,251 @@
+import { ParsedConfig, ConfigDiagnostic, ConfigParseResult, DiagnosticSeverity } from './types';
+
+type Section = 'cpu' | 'ram' | 'storage';
+
+type TokenKind = 'number' | 'cpuUnit' | 'socket' | 'size' | 'keyword' | 'mult' | 'colon' | 'softSep' | 'hardSep' | 'word';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+  value?: number;
+  section?: Section;
+}
+
+const CPU_UNITS = ['vcpu', 'vcpus', 'cpu', 'cpus', 'core', 'cores', 'vcore', 'vcores', 'nhan', 'loi', 'c'];
+const SOCKET_UNITS = ['socket', 'sockets'];
+const SIZE_UNITS: { [unit: string]: number } = {
+  mb: 1 / 1024, mib: 1 / 1024, m: 1 / 1024,
+  gb: 1, gib: 1, g: 1,
+  tb: 1024, tib: 1024, t: 1024
+};
+const SECTION_KEYWORDS: { [word: string]: Section } = {
+  ram: 'ram', memory: 'ram', mem: 'ram',
+  storage: 'storage', disk: 'storage', disks: 'storage', ssd: 'storage', hdd: 'storage', nvme: 'storage', volume: 'storage'
+};
+// Vietnamese phrases, matched after diacritics are folded ("bộ nhớ" -> "bo nho").
+const SECTION_PHRASES: [string[], Section][] = [
+  [['bo', 'nho'], 'ram'],
+  [['o', 'cung'], 'storage'],
+  [['o', 'dia'], 'storage'],
+  [['luu', 'tru'], 'storage'],
+  [['dung', 'luong'], 'storage']
+];
+
+/**
+ * Lower-cases the input and strips Vietnamese diacritics while keeping a map back to the original offsets.
+ */
+const foldInput = (raw: string) => {
+  let text = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    const folded = (ch === 'đ' || ch === 'Đ') ? 'd' : ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (const f of folded) {
+      text += f;
+      offsets.push(i);
+    }
+  }
+  offsets.push(raw.length);
+  return { text, offsets };
+};
+
+const tokenize = (raw: string): Token[] => {
+  const { text, offsets } = foldInput(raw);
+  const tokens: Token[] = [];
+  const push = (kind: TokenKind, from: number, to: number, extra: Partial<Token> = {}) => {
+    tokens.push({ kind, text: text.slice(from, to), start: offsets[from], end: offsets[to - 1] + 1, ...extra });
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch) && ch !== '\n') { i++; continue; }
+    if (/\d/.test(ch)) {
+      const m = text.slice(i).match(/^\d+(?:\.\d+|,\d{1,2}(?!\d))?/)!;
+      push('number', i, i + m[0].length, { value: parseFloat(m[0].replace(',', '.')) });
+      i += m[0].length;
+      continue;
+    }
+    if (/[a-z]/.test(ch)) {
+      const m = text.slice(i).match(/^[a-z]+/)!;
+      const word = m[0];
+      if (word === 'x') push('mult', i, i + 1);
+      else if (CPU_UNITS.includes(word)) push('cpuUnit', i, i + word.length);
+      else if (SOCKET_UNITS.includes(word)) push('socket', i, i + word.length);
+      else if (SIZE_UNITS[word] !== undefined) push('size', i, i + word.length, { value: SIZE_UNITS[word] });
+      else if (SECTION_KEYWORDS[word]) push('keyword', i, i + word.length, { section: SECTION_KEYWORDS[word] });
+      else push('word', i, i + word.length);
+      i += word.length;
+      continue;
+    }
+    if (ch === '×' || ch === '*') push('mult', i, i + 1);
+    else if (ch === ':' || ch === '=') push('colon', i, i + 1);
+    else if (ch === ';' || ch === '\n' || ch === '|') push('hardSep', i, i + 1);
+    else if (',+/&-()'.includes(ch)) push('softSep', i, i + 1);
+    i++;
+  }
+
+  // Merge multi-word Vietnamese keywords into a single token.
+  const merged: Token[] = [];
+  for (let t = 0; t < tokens.length; t++) {
+    const phrase = SECTION_PHRASES.find(([words]) => words.every((w, k) => tokens[t + k]?.kind === 'word' && tokens[t + k].text === w));
+    if (phrase) {
+      const last = tokens[t + phrase[0].length - 1];
+      merged.push({ kind: 'keyword', text: phrase[0].join(' '), start: tokens[t].start, end: last.end, section: phrase[1] });
+      t += phrase[0].length - 1;
+    } else {
+      merged.push(tokens[t]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Parses a free-text server configuration such as "CPU: 8 core; RAM 16GB; storage: 100GB + 1TB",
+ * "4 core 8GB storage: 100GB" or "4C/8G/100G" and reports anything it could not read, with character
+ * positions into the original string. Unlabelled sizes after the vCPU count are RAM, then storage.
+ */
+export const parseServerConfig = (raw: string): ConfigParseResult => {
+  const input = raw || '';
+  const config: ParsedConfig = { cpu: 0, ram: 0, storage: 0, disks: [] };
+  const diagnostics: ConfigDiagnostic[] = [];
+  const report = (severity: DiagnosticSeverity, message: string, start: number, end: number) => diagnostics.push({ severity, message, start, end });
+
+  if (!input.trim()) {
+    report('error', 'Cấu hình trống, chi phí sẽ bằng 0.', 0, 0);
+    return { config, diagnostics };
+  }
+
+  const tokens = tokenize(input);
+  let cpuSet = false;
+  let ramSet = false;
+  let section: Section | null = null;
+
+  const assignCpu = (value: number, start: number, end: number) => {
+    if (cpuSet) { report('warning', 'vCPU được khai báo nhiều lần, giữ giá trị đầu tiên.', start, end); return; }
+    if (!Number.isInteger(value)) report('warning', 'Số vCPU không phải số nguyên.', start, end);
+    if (value <= 0) report('warning', 'Số vCPU phải lớn hơn 0.', start, end);
+    config.cpu = value;
+    cpuSet = true;
+  };
+  const assignRam = (gb: number, start: number, end: number) => {
+    if (ramSet) { report('warning', 'RAM được khai báo nhiều lần, giữ giá trị đầu tiên.', start, end); return; }
+    if (gb <= 0) report('warning', 'Dung lượng RAM phải lớn hơn 0.', start, end);
+    config.ram = gb;
+    ramSet = true;
+  };
+  const addDisks = (gb: number, count: number, start: number, end: number) => {
+    if (gb <= 0) report('warning', 'Dung lượng ổ đĩa phải lớn hơn 0.', start, end);
+    for (let k = 0; k < count; k++) config.disks.push(gb);
+  };
+
+  // A section keyword right after a size is a suffix label ("16GB RAM") unless it clearly opens the next clause.
+  const suffixSection = (idx: number): Section | null => {
+    const tok = tokens[idx];
+    if (tok?.kind !== 'keyword') return null;
+    const next = tokens[idx + 1];
+    if (next?.kind === 'colon') return null;
+    if (section && section !== tok.section && next?.kind === 'number') return null;
+    return tok.section!;
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    const tok = tokens[i];
+    const next = tokens[i + 1];
+
+    if (tok.kind === 'hardSep') { section = null; i++; continue; }
+    if (tok.kind === 'colon' || tok.kind === 'softSep') { i++; continue; }
+    if (tok.kind === 'keyword') { section = tok.section!; i++; continue; }
+    if (tok.kind === 'cpuUnit') { section = 'cpu'; i++; continue; }
+    if (tok.kind === 'word') { report('warning', `Không nhận diện được "${input.slice(tok.start, tok.end)}", bỏ qua.`, tok.start, tok.end); i++; continue; }
+    if (tok.kind !== 'number') {
+      report('warning', `"${input.slice(tok.start, tok.end)}" không đi kèm số lượng.`, tok.start, tok.end);
+      i++;
+      continue;
+    }
+
+    // "2 socket x 8 core"
+    if (next?.kind === 'socket') {
+      let j = i + 2;
+      if (tokens[j]?.kind === 'mult' || tokens[j]?.kind === 'softSep') j++;
+      if (tokens[j]?.kind === 'number' && tokens[j + 1]?.kind === 'cpuUnit') {
+        assignCpu(tok.value! * tokens[j].value!, tok.start, tokens[j + 1].end);
+        i = j + 2;
+      } else {
+        report('error', 'Thiếu số core cho mỗi socket.', tok.start, next.end);
+        i += 2;
+      }
+      continue;
+    }
+
+    // "2 x 8 core" / "2 x 500GB"
+    let count = 1;
+    let q = i;
+    if (next?.kind === 'mult' && tokens[i + 2]?.kind === 'number') {
+      count = tok.value!;
+      q = i + 2;
+      if (!Number.isInteger(count) || count <= 0) report('warning', 'Hệ số nhân phải là số nguyên dương.', tok.start, tokens[q].end);
+    }
+    const qty = tokens[q];
+    const unit = tokens[q + 1];
+
+    if (unit?.kind === 'cpuUnit') {
+      assignCpu(count * qty.value!, tok.start, unit.end);
+      i = q + 2;
+      continue;
+    }
+
+    if (unit?.kind === 'size') {
+      const gb = qty.value! * unit.value!;
+      const start = tok.start;
+      let end = unit.end;
+      let target = suffixSection(q + 2);
+      i = q + 2;
+      if (target) {
+        end = tokens[q + 2].end;
+        i++;
+      } else if (section === 'ram' || section === 'storage') {
+        target = section;
+      } else if (cpuSet) {
+        target = ramSet ? 'storage' : 'ram';
+      } else {
+        target = ramSet ? 'storage' : 'ram';
+        report('warning', target === 'ram'
+          ? 'Không rõ dung lượng này là RAM hay lưu trữ, đang giả định là RAM.'
+          : 'Không rõ dung lượng này là RAM hay lưu trữ, đang giả định là lưu trữ.', start, end);
+      }
+      if (target === 'ram') assignRam(count * gb, start, end);
+      else addDisks(gb, count, start, end);
+      continue;
+    }
+
+    if (q === i && section === 'cpu') {
+      assignCpu(tok.value!, tok.start, tok.end);
+    } else if (q === i && section === 'ram') {
+      report('warning', 'Thiếu đơn vị, đang giả định là GB.', tok.start, tok.end);
+      assignRam(tok.value!, tok.start, tok.end);
+    } else if (q === i && section === 'storage') {
+      report('warning', 'Thiếu đơn vị, đang giả định là GB.', tok.start, tok.end);
+      addDisks(tok.value!, 1, tok.start, tok.end);
+    } else {
+      report('warning', `Số "${input.slice(tok.start, qty.end)}" không có đơn vị, bỏ qua.`, tok.start, qty.end);
+    }
+    i = q + 1;
+  }
+
+  config.storage = config.disks.reduce((sum, d) => sum + d, 0);
+
+  if (!cpuSet && !ramSet && config.disks.length === 0) {
+    report('error', 'Không đọc được cấu hình, chi phí sẽ bằng 0.', 0, input.length);
+  } else {
+    if (!cpuSet) report('error', 'Thiếu số vCPU.', 0, input.length);
+    if (!ramSet) report('error', 'Thiếu dung lượng RAM.', 0, input.length);
+  }
+
+  return { config, diagnostics };
+};
+
+export const hasConfigErrors = (result: { diagnostics: ConfigDiagnostic[] }) => result.diagnostics.some(d => d.severity === 'error');
@@ -1,5 +1,5 @@
 
-import { ServerItem, Category, UnitPrices, Role, LaborItem, TaskStatus, Priority, JournalEntry, JournalEntryType } from './types';
+import { ServerItem, Category, UnitPrices, Role, LaborItem, TaskStatus, Priority, JournalEntry, JournalEntryType, StorageType, BillingCycle, BillingCycles, QuotationSettings, TierMode, ServerTemplate, ServerStack, OverheadRule, OverheadPreset, ScheduleSettings, RoleDefinition, QuotationSection, RiskStatus, BoardSettings, Swimlane, TaskHistoryField, ViewFilters, CalendarEventKind, JournalFilters, StorageConfig, StorageProviderKind, SyncState, MergeSection } from './types';
 
 export const INITIAL_UNIT_PRICES: UnitPrices = {
   cpu: 166000,
@@ -18,6 +18,100 @@ export const INITIAL_UNIT_PRICES: UnitPrices = {
   osLinux: 0
 };
 
+export const UNIT_PRICE_LABELS: { [key in keyof UnitPrices]: string } = {
+  cpu: 'vCPU',
+  ram: 'RAM (GB)',
+  diskSanAllFlash: 'SAN All-Flash (1GB)',
+  diskSanAllFlashSme: 'SAN All-Flash SME (1GB)',
+  diskVsan: 'vSAN (1GB)',
+  diskSanHdd: 'SAN HDD (1GB)',
+  storageMinio: 'MinIO (1GB)',
+  storageSmb3: 'SMB3 (1GB)',
+  storageNfsVsan: 'NFS vSAN (1GB)',
+  storageCeph: 'Ceph (1GB)',
+  bandwidthQt: 'Băng thông quốc tế (Mbps)',
+  bandwidthInternal: 'Băng thông trong nước (Mbps)',
+  osWindows: 'Bản quyền Windows',
+  osLinux: 'Hệ điều hành Linux'
+};
+
+export const PRICE_UNITS: { [key in keyof UnitPrices]: string } = {
+  cpu: 'vCPU',
+  ram: 'GB',
+  diskSanAllFlash: 'GB',
+  diskSanAllFlashSme: 'GB',
+  diskVsan: 'GB',
+  diskSanHdd: 'GB',
+  storageMinio: 'GB',
+  storageSmb3: 'GB',
+  storageNfsVsan: 'GB',
+  storageCeph: 'GB',
+  bandwidthQt: 'Mbps',
+  bandwidthInternal: 'Mbps',
+  osWindows: 'license',
+  osLinux: 'license'
+};
+
+export const TIER_MODE_LABELS: { [key in TierMode]: string } = {
+  graduated: 'Lũy tiến',
+  allUnits: 'Toàn phần'
+};
+
+export const BILLING_CYCLE_LABELS: { [key in BillingCycle]: string } = {
+  oneTime: 'Một lần',
+  monthly: 'Hàng tháng',
+  yearly: 'Hàng năm'
+};
+
+export const INITIAL_BILLING_CYCLES: BillingCycles = {
+  cpu: 'monthly',
+  ram: 'monthly',
+  diskSanAllFlash: 'monthly',
+  diskSanAllFlashSme: 'monthly',
+  diskVsan: 'monthly',
+  diskSanHdd: 'monthly',
+  storageMinio: 'monthly',
+  storageSmb3: 'monthly',
+  storageNfsVsan: 'monthly',
+  storageCeph: 'monthly',
+  bandwidthQt: 'monthly',
+  bandwidthInternal: 'monthly',
+  osWindows: 'monthly',
+  osLinux: 'monthly'
+};
+
+export const INITIAL_QUOTATION_SETTINGS: QuotationSettings = {
+  vatRate: 10,
+  currency: 'VND',
+  exchangeRates: {
+    USD: 25400,
+    EUR: 27500
+  },
+  lineDiscounts: {}
+};
+
+export const STORAGE_TYPE_LABELS: { [key in StorageType]: string } = {
+  diskSanAllFlash: 'SAN All-Flash',
+  diskSanAllFlashSme: 'SAN All-Flash (SME)',
+  diskVsan: 'vSAN',
+  diskSanHdd: 'SAN HDD',
+  storageMinio: 'MinIO (Object)',
+  storageSmb3: 'SMB3 Share',
+  storageNfsVsan: 'NFS trên vSAN',
+  storageCeph: 'Ceph'
+};
+
+/** The built-in roles; their codes are the `Role` values stored by older projects. */
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  { code: Role.PM, name: 'Project Manager', aliases: ['pm', 'quản lý dự án', 'project management'] },
+  { code: Role.BA, name: 'Business Analyst', aliases: ['ba', 'phân tích nghiệp vụ', 'analyst'] },
+  { code: Role.SeniorDev, name: 'Senior Developer', aliases: ['senior', 'senior dev', 'lập trình viên chính', 'tech lead'] },
+  { code: Role.JuniorDev, name: 'Junior Developer', aliases: ['junior', 'junior dev', 'lập trình viên'] },
+  { code: Role.Tester, name: 'Tester', aliases: ['test', 'kiểm thử'] },
+  { code: Role.QC, name: 'Quality Control', aliases: ['qc', 'qa', 'kiểm soát chất lượng'] },
+  { code: Role.Designer, name: 'UI/UX Designer', aliases: ['design', 'designer', 'ui', 'ux', 'thiết kế'] }
+];
+
 export const INITIAL_LABOR_PRICES: { [key: string]: number } = {
   [Role.PM]: 2500000,
   [Role.BA]: 2000000,
@@ -37,12 +131,86 @@ export const INITIAL_SERVERS: ServerItem[] = [
     quantity: 1,
     content: 'K8s Master Node',
     note: '',
-    storageType: 'diskSanAllFlash',
+    volumes: [
+      { id: 'v1', label: 'OS', sizeGb: 100, storageType: 'diskSanAllFlash' }
+    ],
     bwQt: 0,
     bwInternal: 10
   }
 ];
 
+const builtInTemplate = (id: string, name: string, server: ServerTemplate['server']): ServerTemplate => ({ id, name, builtIn: true, server, lastModified: 0 });
+
+export const BUILT_IN_SERVER_TEMPLATES: ServerTemplate[] = [
+  builtInTemplate('tpl-k8s-master', 'K8s Master', {
+    category: Category.AppServer, os: 'Ubuntu Linux (64 bit)', configRaw: 'CPU: 4 core; RAM 8GB', quantity: 1, content: 'K8s Master Node', note: '',
+    volumes: [{ id: 'v1', label: 'OS', sizeGb: 100, storageType: 'diskSanAllFlash' }], bwQt: 0, bwInternal: 10
+  }),
+  builtInTemplate('tpl-k8s-worker', 'K8s Worker', {
+    category: Category.AppServer, os: 'Ubuntu Linux (64 bit)', configRaw: 'CPU: 8 core; RAM 16GB', quantity: 1, content: 'K8s Worker Node', note: '',
+    volumes: [{ id: 'v1', label: 'OS', sizeGb: 100, storageType: 'diskSanAllFlash' }, { id: 'v2', label: 'Data', sizeGb: 200, storageType: 'diskSanAllFlash' }], bwQt: 0, bwInternal: 10
+  }),
+  builtInTemplate('tpl-lb', 'Load Balancer', {
+    category: Category.AppServer, os: 'Ubuntu Linux (64 bit)', configRaw: 'CPU: 2 core; RAM 4GB', quantity: 1, content: 'Load Balancer (HAProxy)', note: '',
+    volumes: [{ id: 'v1', label: 'OS', sizeGb: 50, storageType: 'diskSanAllFlash' }], bwQt: 50, bwInternal: 10
+  }),
+  builtInTemplate('tpl-app', 'App Server', {
+    category: Category.AppServer, os: 'Ubuntu Linux (64 bit)', configRaw: 'CPU: 4 core; RAM 8GB', quantity: 1, content: 'App Server', note: '',
+    volumes: [{ id: 'v1', label: 'OS', sizeGb: 100, storageType: 'diskSanAllFlash' }], bwQt: 0, bwInternal: 10
+  }),
+  builtInTemplate('tpl-pg-primary', 'PostgreSQL Primary', {
+    category: Category.DbServer, os: 'Ubuntu Linux (64 bit)', configRaw: 'CPU: 8 core; RAM 32GB', quantity: 1, content: 'PostgreSQL Primary', note: '',
+    volumes: [{ id: 'v1', label: 'OS', sizeGb: 100, storageType: 'diskSanAllFlash' }, { id: 'v2', label: 'Data', sizeGb: 500, storageType: 'diskSanAllFlash' }], bwQt: 0, bwInternal: 10
+  }),
+  builtInTemplate('tpl-pg-replica', 'PostgreSQL Replica', {
+    category: Category.DbServer, os: 'Ubuntu Linux (64 bit)', configRaw: 'CPU: 8 core; RAM 32GB', quantity: 1, content: 'PostgreSQL Replica', note: '',
+    volumes: [{ id: 'v1', label: 'OS', sizeGb: 100, storageType: 'diskSanAllFlash' }, { id: 'v2', label: 'Data', sizeGb: 500, storageType: 'diskSanAllFlash' }], bwQt: 0, bwInternal: 10
+  }),
+  builtInTemplate('tpl-redis', 'Redis Cache', {
+    category: Category.Other, os: 'Ubuntu Linux (64 bit)', configRaw: 'CPU: 2 core; RAM 8GB', quantity: 1, content: 'Redis Cache', note: '',
+    volumes: [{ id: 'v1', label: 'OS', sizeGb: 50, storageType: 'diskVsan' }], bwQt: 0, bwInternal: 10
+  }),
+  builtInTemplate('tpl-win-ad', 'Windows AD', {
+    category: Category.Other, os: 'Windows Server 2022', configRaw: 'CPU: 4 core; RAM 8GB', quantity: 1, content: 'Windows AD Domain Controller', note: '',
+    volumes: [{ id: 'v1', label: 'OS', sizeGb: 100, storageType: 'diskSanAllFlash' }], bwQt: 0, bwInternal: 10
+  })
+];
+
+export const SERVER_STACKS: ServerStack[] = [
+  { id: 'stack-k8s', name: 'Cụm K8s chuẩn', description: '3 master + 3 worker + load balancer', items: [{ templateId: 'tpl-k8s-master', quantity: 3 }, { templateId: 'tpl-k8s-worker', quantity: 3 }, { templateId: 'tpl-lb', quantity: 1 }] },
+  { id: 'stack-pg-ha', name: 'PostgreSQL HA', description: '1 primary + 1 replica', items: [{ templateId: 'tpl-pg-primary', quantity: 1 }, { templateId: 'tpl-pg-replica', quantity: 1 }] },
+  { id: 'stack-web', name: 'Web 3 lớp', description: 'Load balancer, 2 app server, PostgreSQL primary/replica, Redis', items: [{ templateId: 'tpl-lb', quantity: 1 }, { templateId: 'tpl-app', quantity: 2 }, { templateId: 'tpl-pg-primary', quantity: 1 }, { templateId: 'tpl-pg-replica', quantity: 1 }, { templateId: 'tpl-redis', quantity: 1 }] },
+  { id: 'stack-ad', name: 'Active Directory', description: '2 domain controller Windows', items: [{ templateId: 'tpl-win-ad', quantity: 2 }] }
+];
+
+const DEV_ROLES = [Role.SeniorDev, Role.JuniorDev];
+
+export const DEFAULT_OVERHEAD_RULES: OverheadRule[] = [
+  { id: 'oh-pm', label: 'Quản lý dự án', sourceRoles: DEV_ROLES, targetRole: Role.PM, mode: 'ratio', value: 1 / 3 },
+  { id: 'oh-ba', label: 'Phân tích nghiệp vụ', sourceRoles: DEV_ROLES, targetRole: Role.BA, mode: 'ratio', value: 1 / 3 },
+  { id: 'oh-qc', label: 'Kiểm soát chất lượng', sourceRoles: DEV_ROLES, targetRole: Role.QC, mode: 'ratio', value: 1 / 3 }
+];
+
+export const OVERHEAD_PRESETS: OverheadPreset[] = [
+  { id: 'default', name: 'Mặc định (1:3)', description: 'PM, BA và QC mỗi vai trò bằng 1/3 công Dev', rules: DEFAULT_OVERHEAD_RULES },
+  {
+    id: 'fixed-price', name: 'Trọn gói', description: 'PM 1:5, BA và QC 1:3 công Dev', rules: [
+      { id: 'oh-pm', label: 'Quản lý dự án', sourceRoles: DEV_ROLES, targetRole: Role.PM, mode: 'ratio', value: 1 / 5, min: 5 },
+      { id: 'oh-ba', label: 'Phân tích nghiệp vụ', sourceRoles: DEV_ROLES, targetRole: Role.BA, mode: 'ratio', value: 1 / 3 },
+      { id: 'oh-qc', label: 'Kiểm soát chất lượng', sourceRoles: DEV_ROLES, targetRole: Role.QC, mode: 'ratio', value: 1 / 3 }
+    ]
+  },
+  { id: 'staff-aug', name: 'Thuê nhân sự', description: 'Không tính công gián tiếp', rules: [] },
+  {
+    id: 'security', name: 'Dự án bảo mật', description: 'Như mặc định, QC 1:2 cộng 10 công kiểm thử bảo mật', rules: [
+      { id: 'oh-pm', label: 'Quản lý dự án', sourceRoles: DEV_ROLES, targetRole: Role.PM, mode: 'ratio', value: 1 / 3 },
+      { id: 'oh-ba', label: 'Phân tích nghiệp vụ', sourceRoles: DEV_ROLES, targetRole: Role.BA, mode: 'ratio', value: 1 / 3 },
+      { id: 'oh-qc', label: 'Kiểm soát chất lượng', sourceRoles: DEV_ROLES, targetRole: Role.QC, mode: 'ratio', value: 1 / 2 },
+      { id: 'oh-sec', label: 'Kiểm thử bảo mật', sourceRoles: [], targetRole: Role.QC, mode: 'fixed', value: 10 }
+    ]
+  }
+];
+
 export const INITIAL_LABOR_ITEMS: LaborItem[] = [
   {
     id: 'l1',
@@ -84,3 +252,101 @@ export const INITIAL_JOURNAL: JournalEntry[] = [
     content: 'Khách hàng duyệt thiết kế giao diện mobile app và web admin.'
   }
 ];
+
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [],
+  headcount: {}
+};
+
+/** Default share of a task done in each status, used when no percentage is entered. */
+export const STATUS_PROGRESS: { [key in TaskStatus]: number } = {
+  [TaskStatus.Todo]: 0,
+  [TaskStatus.Doing]: 50,
+  [TaskStatus.Review]: 90,
+  [TaskStatus.Done]: 100
+};
+
+export const WEEKDAY_LABELS = ['CN', 'T2', 'T3', 'T4', 'T5', 'T6', 'T7'];
+
+export const QUOTATION_SECTION_LABELS: { [key in QuotationSection]: string } = {
+  infra: 'Hạ tầng',
+  labor: 'Nhân sự',
+  contingency: 'Dự phòng rủi ro'
+};
+
+export const RISK_STATUS_STYLES: { [key in RiskStatus]: string } = {
+  [RiskStatus.Open]: 'bg-amber-100 text-amber-700',
+  [RiskStatus.Mitigating]: 'bg-indigo-100 text-indigo-700',
+  [RiskStatus.Closed]: 'bg-slate-100 text-slate-400'
+};
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = { wipLimits: {}, swimlane: 'none' };
+
+export const SWIMLANE_LABELS: { [key in Swimlane]: string } = {
+  none: 'Không chia',
+  assignee: 'Người thực hiện',
+  role: 'Vai trò',
+  priority: 'Độ ưu tiên'
+};
+
+export const TASK_HISTORY_LABELS: { [key in TaskHistoryField]: string } = {
+  created: 'Tạo đầu việc',
+  taskName: 'Tên',
+  description: 'Mô tả',
+  role: 'Vai trò',
+  mandays: 'Số công',
+  status: 'Trạng thái',
+  priority: 'Độ ưu tiên',
+  assignee: 'Người thực hiện',
+  dueDate: 'Hạn hoàn thành',
+  percentComplete: '% hoàn thành',
+  parentId: 'Module'
+};
+
+export const EMPTY_VIEW_FILTERS: ViewFilters = {
+  query: '',
+  roles: [],
+  statuses: [],
+  priorities: [],
+  assignees: [],
+  overdueOnly: false,
+  categories: [],
+  os: [],
+  storageTypes: []
+};
+
+export const EMPTY_JOURNAL_FILTERS: JournalFilters = { query: '', types: [], from: '', to: '' };
+
+export const CALENDAR_EVENT_LABELS: { [key in CalendarEventKind]: string } = {
+  task: 'Hạn đầu việc',
+  milestone: 'Mốc quan trọng',
+  meeting: 'Cuộc họp'
+};
+
+export const STORAGE_PROVIDER_LABELS: { [key in StorageProviderKind]: string } = {
+  local: 'Trình duyệt (localStorage)',
+  indexedDb: 'Trình duyệt (IndexedDB)',
+  supabase: 'Supabase',
+  rest: 'REST API'
+};
+
+export const DEFAULT_STORAGE_CONFIG: StorageConfig = { provider: 'local', url: '', key: '' };
+
+export const SYNC_STATE_LABELS: { [key in SyncState]: string } = {
+  local: 'Lưu trên trình duyệt',
+  synced: 'Đã đồng bộ',
+  pending: 'Chờ đồng bộ',
+  syncing: 'Đang đồng bộ...',
+  offline: 'Ngoại tuyến, sẽ đồng bộ khi có mạng',
+  error: 'Lỗi đồng bộ, sẽ thử lại',
+  conflict: 'Xung đột cần xử lý',
+  localCopy: 'Không tải được từ máy chủ, đang dùng bản trên máy'
+};
+
+export const MERGE_SECTION_LABELS: { [key in MergeSection]: string } = {
+  settings: 'Dự án',
+  servers: 'Hạ tầng',
+  labors: 'Đầu việc',
+  journal: 'Nhật ký'
+};
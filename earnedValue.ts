@@ -0,0 +1,74 @@
+import { ActualEntry, BurnUpPoint, EarnedValue, LaborItem, Project, ScheduleResult } from './types';
+import { STATUS_PROGRESS } from './constants';
+import { addDays, getScheduleSettings, getWorkingDates } from './schedule';
+import { calculateLaborCost, getLaborRate } from './utils';
+import { getLeafLabors } from './wbs';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const getPercentComplete = (item: LaborItem) =>
+  Math.min(100, Math.max(0, item.percentComplete ?? STATUS_PROGRESS[item.status] ?? 0));
+
+export const getActualMandays = (item: LaborItem, asOf?: string) =>
+  (item.actuals || []).filter(a => !asOf || a.date <= asOf).reduce((sum, a) => sum + (a.mandays || 0), 0);
+
+/** Logged minus estimated mandays; positive when the task ran over its estimate. */
+export const getMandayVariance = (item: LaborItem) => getActualMandays(item) - (item.mandays || 0);
+
+/** Project progress weighted by mandays, 0-100. */
+export const getWeightedProgress = (labors: LaborItem[]) => {
+  const leaves = getLeafLabors(labors);
+  const total = leaves.reduce((sum, l) => sum + (l.mandays || 0), 0);
+  if (total <= 0) return 0;
+  return leaves.reduce((sum, l) => sum + (l.mandays || 0) * getPercentComplete(l), 0) / total;
+};
+
+/** Cost of a logged entry: the person's own rate when they have one, otherwise the task's rate. */
+const getActualCost = (project: Project, item: LaborItem, entry: ActualEntry) => {
+  const member = (project.team || []).find(m => m.id === entry.memberId);
+  const rate = member ? member.rate ?? (project.laborPrices[item.role] || 0) : getLaborRate(item, project.laborPrices, project.team);
+  return (entry.mandays || 0) * rate;
+};
+
+/** Share of a task the schedule expects to be done by the end of `asOf`. */
+const getPlannedShare = (project: Project, schedule: ScheduleResult, id: string, asOf: string) => {
+  const task = schedule.tasks[id];
+  if (!task || asOf < task.startDate) return 0;
+  if (asOf >= task.finishDate) return 1;
+  const days = getWorkingDates(task.startDate, task.finishDate, getScheduleSettings(project));
+  return days.length > 0 ? days.filter(d => d <= asOf).length / days.length : 1;
+};
+
+export const calculateEarnedValue = (project: Project, schedule: ScheduleResult, asOf = today()): EarnedValue => {
+  const leaves = getLeafLabors(project.labors || []);
+  const budget = (l: LaborItem) => calculateLaborCost(l, project.laborPrices, project.team);
+  const bac = leaves.reduce((sum, l) => sum + budget(l), 0);
+  const pv = leaves.reduce((sum, l) => sum + budget(l) * getPlannedShare(project, schedule, l.id, asOf), 0);
+  const ev = leaves.reduce((sum, l) => sum + budget(l) * getPercentComplete(l) / 100, 0);
+  const ac = leaves.reduce((sum, l) => sum + (l.actuals || []).filter(a => a.date <= asOf).reduce((s, a) => s + getActualCost(project, l, a), 0), 0);
+  const cpi = ac > 0 ? ev / ac : null;
+  return { asOf, bac, pv, ev, ac, cpi, spi: pv > 0 ? ev / pv : null, eac: cpi ? bac / cpi : null };
+};
+
+/**
+ * Weekly cumulative planned and logged mandays from the first scheduled or logged day to the
+ * later of the scheduled finish and the project end date.
+ */
+export const buildBurnUp = (project: Project, schedule: ScheduleResult, asOf = today()): BurnUpPoint[] => {
+  const leaves = getLeafLabors(project.labors || []);
+  const scope = leaves.reduce((sum, l) => sum + (l.mandays || 0), 0);
+  const logged = leaves.flatMap(l => (l.actuals || []).map(a => a.date)).sort();
+  const start = [schedule.startDate, logged[0]].filter(Boolean).sort()[0];
+  const end = [schedule.finishDate, project.endDate || '', logged[logged.length - 1] || ''].sort().pop()!;
+
+  const dates: string[] = [];
+  for (let d = start; d < end; d = addDays(d, 7)) dates.push(d);
+  dates.push(end);
+  if (asOf > start && asOf < end && !dates.includes(asOf)) dates.splice(dates.findIndex(d => d > asOf), 0, asOf);
+  return dates.map(date => ({
+    date,
+    planned: leaves.reduce((sum, l) => sum + (l.mandays || 0) * getPlannedShare(project, schedule, l.id, date), 0),
+    actual: date <= asOf ? leaves.reduce((sum, l) => sum + getActualMandays(l, date), 0) : null,
+    scope
+  }));
+};
@@ -0,0 +1,140 @@
+import { HistogramBin, LaborItem, MonteCarloResult, Project, QuotePercentile, SimulationPercentiles, ThreePointEstimate } from './types';
+import { calculateOverhead, calculateOverheadCost, getOverheadRules } from './overhead';
+import { getLeafLabors } from './wbs';
+import { calculateLaborCost } from './utils';
+
+export const QUOTE_PERCENTILE_LABELS: { [key in QuotePercentile]: string } = {
+  p50: 'P50 (trung vị)',
+  p80: 'P80',
+  p90: 'P90 (thận trọng)'
+};
+
+const DEFAULT_ITERATIONS = 2000;
+const HISTOGRAM_BINS = 24;
+
+/** PERT expected value (O + 4M + P) / 6. */
+export const pertExpected = (e: ThreePointEstimate) => (e.optimistic + 4 * e.mostLikely + e.pessimistic) / 6;
+
+export const pertStdDev = (e: ThreePointEstimate) => (e.pessimistic - e.optimistic) / 6;
+
+/**
+ * Sorts the three values so optimistic ≤ most likely ≤ pessimistic, whatever order they were typed in.
+ */
+export const normalizeEstimate = (e: ThreePointEstimate): ThreePointEstimate => {
+  const [optimistic, mostLikely, pessimistic] = [e.optimistic, e.mostLikely, e.pessimistic].map(v => Math.max(0, v || 0)).sort((a, b) => a - b);
+  return { optimistic, mostLikely, pessimistic };
+};
+
+/** Labor item with a new three-point estimate and its mandays set to the PERT expected value. */
+export const withEstimate = (item: LaborItem, estimate?: ThreePointEstimate): LaborItem => {
+  if (!estimate) return { ...item, estimate: undefined };
+  return { ...item, estimate, mandays: Math.round(pertExpected(normalizeEstimate(estimate)) * 10) / 10 };
+};
+
+// Seeded so the same project always simulates to the same percentiles.
+const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const sampleNormal = (random: () => number) => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Marsaglia-Tsang; shape is always ≥ 1 for PERT.
+const sampleGamma = (shape: number, random: () => number): number => {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+};
+
+/** One draw from the Beta-PERT distribution of an estimate. */
+export const samplePert = (estimate: ThreePointEstimate, random: () => number) => {
+  const e = normalizeEstimate(estimate);
+  const range = e.pessimistic - e.optimistic;
+  if (range <= 0) return e.mostLikely;
+  const alpha = 1 + 4 * (e.mostLikely - e.optimistic) / range;
+  const beta = 1 + 4 * (e.pessimistic - e.mostLikely) / range;
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return e.optimistic + range * x / (x + y);
+};
+
+const percentiles = (values: number[]): SimulationPercentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))] || 0;
+  return { mean: sorted.reduce((sum, v) => sum + v, 0) / (sorted.length || 1), p50: at(0.5), p80: at(0.8), p90: at(0.9) };
+};
+
+const histogram = (values: number[], bins: number): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / bins || 1;
+  const result: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  values.forEach(v => { result[Math.min(bins - 1, Math.floor((v - min) / width))].count++; });
+  return result;
+};
+
+export const hasThreePointEstimates = (labors: LaborItem[]) => getLeafLabors(labors).some(l => l.estimate);
+
+/**
+ * Simulates total labour mandays and cost: each task with a three-point estimate is drawn from its
+ * Beta-PERT distribution, the others stay fixed, and the overhead rules are re-applied to every draw.
+ */
+export const runMonteCarlo = (project: Project, iterations = DEFAULT_ITERATIONS, seed = 42): MonteCarloResult => {
+  const random = createRandom(seed);
+  const labors = getLeafLabors(project.labors || []);
+  const rules = getOverheadRules(project);
+  const costOf = (items: LaborItem[]) => {
+    const overhead = calculateOverhead(items, rules);
+    const manual = items.reduce((sum, l) => sum + calculateLaborCost(l, project.laborPrices, project.team), 0);
+    const mandays = items.reduce((sum, l) => sum + l.mandays, 0) + overhead.reduce((sum, o) => sum + o.mandays, 0);
+    return { mandays, cost: manual + calculateOverheadCost(overhead, project.laborPrices) };
+  };
+
+  const mandays: number[] = [];
+  const costs: number[] = [];
+  const runs = hasThreePointEstimates(labors) ? iterations : 1;
+  for (let i = 0; i < runs; i++) {
+    const drawn = labors.map(l => l.estimate ? { ...l, mandays: samplePert(l.estimate, random) } : l);
+    const result = costOf(drawn);
+    mandays.push(result.mandays);
+    costs.push(result.cost);
+  }
+
+  return {
+    iterations: runs,
+    mandays: percentiles(mandays),
+    laborCost: percentiles(costs),
+    baselineLaborCost: costOf(labors).cost,
+    histogram: histogram(costs, HISTOGRAM_BINS)
+  };
+};
+
+/**
+ * Factor that scales the point-estimate labour cost up (or down) to the chosen percentile.
+ */
+export const getPercentileFactor = (result: MonteCarloResult, percentile?: QuotePercentile) => {
+  if (!percentile || result.baselineLaborCost <= 0) return 1;
+  return result.laborCost[percentile] / result.baselineLaborCost;
+};
@@ -0,0 +1,195 @@
+import * as XLSX from 'xlsx';
+import { CostComponent, Project } from './types';
+import { calculateContractSummary, calculateProjectItemCost, convertFromVnd, getProjectPricing, COST_COMPONENT_LABELS, getVolumesTotal, sumCostLines, formatCurrency } from './utils';
+import { buildQuotation, getQuotationSettings } from './quotation';
+import { QUOTE_PERCENTILE_LABELS, hasThreePointEstimates, runMonteCarlo } from './estimation';
+import { compareScenarios, getActiveScenarioId, getScenarioProject, getScenarios } from './scenarios';
+import { buildWbsTree, flattenWbs } from './wbs';
+import { formatScheduleDate, scheduleProject } from './schedule';
+import { getRoleName, getRoles } from './roles';
+import { getActualMandays, getPercentComplete } from './earnedValue';
+import { calculateRiskReserve, getRiskExposure } from './risks';
+import { getActionTask } from './minutes';
+import { QUOTATION_SECTION_LABELS } from './constants';
+
+export const exportProjectToExcel = (source: Project) => {
+  const workbook = XLSX.utils.book_new();
+  const project = getScenarioProject(source);
+  const scenarios = getScenarios(source);
+  const activeScenario = scenarios.find(sc => sc.id === getActiveScenarioId(source, scenarios));
+
+  // Tab Overview
+  const contract = calculateContractSummary(project);
+  const quotation = buildQuotation(project);
+  const settings = getQuotationSettings(project);
+  const simulation = hasThreePointEstimates(project.labors) ? runMonteCarlo(project) : null;
+  const reserve = calculateRiskReserve(project.risks);
+  const convert = (amount: number) => Math.round(convertFromVnd(amount, settings.currency, settings.exchangeRates) * 100) / 100;
+  const overviewData = [{
+    'Tên dự án': project.name,
+    'Phương án': activeScenario?.name || '',
+    'Ngày bắt đầu': project.startDate || 'Chưa đặt',
+    'Ngày kết thúc': project.endDate || 'Chưa đặt',
+    'Số tháng hợp đồng': contract.months !== null ? Number(contract.months.toFixed(2)) : 'Chưa đặt',
+    'Chi phí hạ tầng/tháng (VNĐ)': contract.monthlyRunRate,
+    'Phí hạ tầng một lần (VNĐ)': contract.oneTimeTotal,
+    'Giá trị hợp đồng hạ tầng (VNĐ)': contract.contractTotal,
+    'Dự phòng rủi ro (VNĐ)': Math.round(reserve.cost),
+    'Dự phòng tiến độ (ngày)': Number(reserve.days.toFixed(1)),
+    'Tiền tệ báo giá': settings.currency,
+    'Tạm tính': convert(quotation.totals.subtotal),
+    'Chiết khấu dòng': convert(quotation.totals.lineDiscounts),
+    'Chiết khấu tổng': convert(quotation.totals.overallDiscount),
+    [`VAT (${quotation.totals.vatRate}%)`]: convert(quotation.totals.vat),
+    'Tổng cộng': convert(quotation.totals.total),
+    'Nhân sự báo giá theo': settings.laborPercentile ? QUOTE_PERCENTILE_LABELS[settings.laborPercentile] : 'Ước lượng điểm',
+    ...(simulation ? {
+      'Tổng công P50 (MD)': Number(simulation.mandays.p50.toFixed(1)),
+      'Tổng công P80 (MD)': Number(simulation.mandays.p80.toFixed(1)),
+      'Tổng công P90 (MD)': Number(simulation.mandays.p90.toFixed(1)),
+      'Chi phí nhân sự P50 (VNĐ)': Math.round(simulation.laborCost.p50),
+      'Chi phí nhân sự P80 (VNĐ)': Math.round(simulation.laborCost.p80),
+      'Chi phí nhân sự P90 (VNĐ)': Math.round(simulation.laborCost.p90)
+    } : {}),
+    'Ngày tạo': new Date(project.createdAt).toLocaleDateString(),
+    'Cập nhật cuối': new Date(project.lastModified).toLocaleDateString()
+  }];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(overviewData), 'Tổng quan');
+
+  // Tab Infra
+  const pricing = getProjectPricing(project);
+  const serverData = project.servers.map(s => {
+    const cost = calculateProjectItemCost(s, project, pricing);
+    return {
+      'Tên dịch vụ': s.content,
+      'Cấu hình': s.configRaw,
+      'vCPU': cost.config.cpu,
+      'RAM (GB)': cost.config.ram,
+      'Lưu trữ (GB)': getVolumesTotal(s.volumes),
+      'Volume': (s.volumes || []).map(v => `${v.label}: ${v.sizeGb}GB ${v.storageType}`).join('\n'),
+      ...Object.fromEntries((Object.keys(COST_COMPONENT_LABELS) as CostComponent[]).map(c => [`${COST_COMPONENT_LABELS[c]} (VNĐ/đơn vị)`, sumCostLines(cost.lines, c)])),
+      'Đơn giá (VNĐ)': cost.unitPrice,
+      'Chi phí/tháng (VNĐ/đơn vị)': cost.monthlyPrice,
+      'Bậc giá áp dụng': cost.lines.filter(l => l.tier).map(l => `${l.label}: ${formatCurrency(l.unitRate)}/${l.unit}`).join('\n'),
+      'Phí một lần (VNĐ/đơn vị)': cost.oneTimePrice,
+      'Từ ngày': s.startDate || project.startDate || '',
+      'Đến ngày': s.endDate || project.endDate || '',
+      'Số lượng': s.quantity,
+      'Thành tiền (VNĐ)': cost.totalPrice,
+      'Cảnh báo cấu hình': cost.diagnostics.map(d => d.message).join('\n'),
+      'Ghi chú': s.note
+    };
+  });
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(serverData), 'Hạ tầng');
+
+  // Tab Quotation
+  const quotationData = [
+    ...quotation.lines.map(l => ({
+      'Hạng mục': l.derivedFrom ? 'Nhân sự gián tiếp (tự động)' : QUOTATION_SECTION_LABELS[l.section],
+      'Diễn giải': l.derivedFrom ? `${l.label} — ${l.derivedFrom}` : l.label,
+      'Khối lượng': Number(l.quantity.toFixed(2)),
+      'Đơn vị': l.unit,
+      [`Thành tiền (${settings.currency})`]: convert(l.amount),
+      [`Chiết khấu (${settings.currency})`]: convert(l.discount),
+      [`Còn lại (${settings.currency})`]: convert(l.net)
+    })),
+    { 'Diễn giải': 'Tạm tính', [`Còn lại (${settings.currency})`]: convert(quotation.totals.subtotal - quotation.totals.lineDiscounts) },
+    { 'Diễn giải': 'Chiết khấu tổng', [`Còn lại (${settings.currency})`]: -convert(quotation.totals.overallDiscount) },
+    { 'Diễn giải': `VAT ${quotation.totals.vatRate}%`, [`Còn lại (${settings.currency})`]: convert(quotation.totals.vat) },
+    { 'Diễn giải': 'Tổng cộng', [`Còn lại (${settings.currency})`]: convert(quotation.totals.total) }
+  ];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(quotationData), 'Báo giá');
+
+  // Tab Scenarios
+  if (scenarios.length > 1) {
+    const comparison = compareScenarios(source);
+    const baseline = comparison.find(c => c.scenario.id === activeScenario?.id) || comparison[0];
+    const scenarioData = comparison.map(c => ({
+      'Phương án': c.scenario.name,
+      'Ghi chú': c.scenario.note || '',
+      'Số VM': c.scenario.servers.reduce((sum, sv) => sum + (sv.quantity || 1), 0),
+      'Tổng công (MD)': Number(c.mandays.toFixed(1)),
+      'Hạ tầng (VNĐ)': c.infraTotal,
+      'Nhân sự (VNĐ)': c.laborTotal,
+      'Dự phòng rủi ro (VNĐ)': Math.round(c.contingencyTotal),
+      'Tổng trước thuế (VNĐ)': c.grandTotal,
+      [`Chênh lệch so với ${baseline.scenario.name} (VNĐ)`]: c.grandTotal - baseline.grandTotal,
+      [`Báo giá gồm VAT (${settings.currency})`]: convert(c.quotedTotal)
+    }));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(scenarioData), 'Phương án');
+  }
+
+  // Tab Planning: WBS order, grouped with Excel outline levels so modules can be collapsed
+  const wbsRows = flattenWbs(buildWbsTree(project.labors, project.laborPrices, project.team));
+  const wbsCodes = Object.fromEntries(wbsRows.map(r => [r.item.id, r.code]));
+  const schedule = scheduleProject(project);
+  const laborData = wbsRows.map(({ item: l, code, depth, children, mandays, cost }) => ({
+    'Mã WBS': code,
+    'Đầu việc': `${'    '.repeat(depth)}${l.taskName}`,
+    'Mô tả': l.description,
+    'Vai trò': children.length > 0 ? '' : getRoleName(getRoles(project), l.role),
+    'Số công (MD)': Number(mandays.toFixed(1)),
+    'Chi phí (VNĐ)': cost,
+    'Lạc quan (MD)': children.length > 0 ? '' : l.estimate?.optimistic ?? '',
+    'Khả dĩ nhất (MD)': children.length > 0 ? '' : l.estimate?.mostLikely ?? '',
+    'Bi quan (MD)': children.length > 0 ? '' : l.estimate?.pessimistic ?? '',
+    'Trạng thái': children.length > 0 ? '' : l.status,
+    'Hoàn thành (%)': children.length > 0 ? '' : getPercentComplete(l),
+    'Thực tế (MD)': children.length > 0 ? '' : Number(getActualMandays(l).toFixed(1)),
+    'Độ ưu tiên': l.priority,
+    'Người thực hiện': l.assignee,
+    'Hạn hoàn thành': l.dueDate,
+    'Phụ thuộc': (l.predecessorIds || []).filter(id => wbsCodes[id]).map(id => wbsCodes[id]).join(', '),
+    'Bắt đầu (dự kiến)': schedule.tasks[l.id] ? formatScheduleDate(schedule.tasks[l.id].startDate) : '',
+    'Kết thúc (dự kiến)': schedule.tasks[l.id] ? formatScheduleDate(schedule.tasks[l.id].finishDate) : '',
+    'Đường găng': schedule.tasks[l.id]?.critical && children.length === 0 ? 'x' : ''
+  }));
+  const wsLabor = XLSX.utils.json_to_sheet(laborData);
+  wsLabor['!rows'] = [{}, ...wbsRows.map(r => ({ level: r.depth }))];
+  XLSX.utils.book_append_sheet(workbook, wsLabor, 'Kế hoạch chi tiết');
+
+  // Tab Risks
+  if (project.risks && project.risks.length > 0) {
+    const linkNames = [...project.servers.map(s => [s.id, s.content]), ...project.labors.map(l => [l.id, wbsCodes[l.id] ? `${wbsCodes[l.id]} ${l.taskName}` : l.taskName])];
+    const nameOf = Object.fromEntries(linkNames);
+    const riskData = project.risks.map(r => ({
+      'Rủi ro': r.description,
+      'Xác suất (%)': r.probability,
+      'Ảnh hưởng chi phí (VNĐ)': r.costImpact,
+      'Ảnh hưởng tiến độ (ngày)': r.scheduleImpact,
+      'Giá trị kỳ vọng (VNĐ)': Math.round(getRiskExposure(r)),
+      'Người phụ trách': r.owner,
+      'Biện pháp giảm thiểu': r.mitigation,
+      'Trạng thái': r.status,
+      'Liên quan': [...(r.serverIds || []), ...(r.taskIds || [])].filter(id => nameOf[id]).map(id => nameOf[id]).join(', ')
+    }));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(riskData), 'Rủi ro');
+  }
+
+  // Tab Journal
+  if (project.journal && project.journal.length > 0) {
+    const journalData = project.journal.map(j => ({
+      'Ngày': j.date,
+      'Loại': j.type,
+      'Tiêu đề': j.title,
+      'Nội dung': j.content,
+      'Thành phần tham dự': (j.attendees || []).join(', '),
+      'Quyết định': (j.decisions || []).filter(Boolean).map(d => `- ${d}`).join('\n'),
+      'Việc cần làm': (j.actionItems || []).map(a => {
+        const task = getActionTask(a, project.labors || []);
+        const owner = task ? task.assignee : a.owner;
+        const due = task ? task.dueDate : a.dueDate;
+        const detail = [owner, due && `hạn ${due}`, task?.status].filter(Boolean).join(', ');
+        return `- ${a.text}${detail ? ` (${detail})` : ''}`;
+      }).join('\n'),
+      'Liên quan': [
+        ...(j.taskIds || []).map(id => project.labors?.find(l => l.id === id)?.taskName),
+        ...(j.serverIds || []).map(id => project.servers?.find(s => s.id === id)?.content)
+      ].filter(Boolean).join(', '),
+      'Tệp đính kèm': (j.attachments || []).map(a => a.name).join(', ')
+    }));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(journalData), 'Nhật ký dự án');
+  }
+
+  XLSX.writeFile(workbook, `${project.name.replace(/\s+/g, '_')}_EstimaCore.xlsx`);
+};
@@ -0,0 +1,145 @@
+import { Category, JournalEntry, JournalFilters, LaborItem, Priority, RoleDefinition, ServerItem, ServerSortKey, SortOrder, StorageType, TaskSortKey, TaskStatus, TeamMember, UrlState, ViewFilters } from './types';
+import { EMPTY_VIEW_FILTERS, STORAGE_TYPE_LABELS } from './constants';
+import { getRoleName, normalizeRoleText } from './roles';
+import { findAssignee } from './utils';
+
+const TASK_SORT_KEYS: TaskSortKey[] = ['taskName', 'role', 'mandays', 'cost', 'status', 'priority', 'dueDate'];
+const SERVER_SORT_KEYS: ServerSortKey[] = ['content', 'category', 'os', 'quantity', 'monthlyCost'];
+
+export const isTaskOverdue = (item: LaborItem, today: string) => !!item.dueDate && item.dueDate < today && item.status !== TaskStatus.Done;
+
+/** Facet value of a task's assignee: the roster member id, else the free-text name, else ''. */
+export const getAssigneeKey = (item: LaborItem, team: TeamMember[]) => findAssignee(item, team)?.id || item.assignee || '';
+
+/** Every word of the query appears somewhere in the fields, ignoring case and diacritics. */
+const matchesQuery = (query: string, fields: (string | undefined)[]) => {
+  const words = normalizeRoleText(query).split(' ').filter(Boolean);
+  const text = normalizeRoleText(fields.filter(Boolean).join(' '));
+  return words.every(w => text.includes(w));
+};
+
+const inFacet = <T>(selected: T[], value: T) => selected.length === 0 || selected.includes(value);
+
+export const hasTaskFilters = (f: ViewFilters) =>
+  !!f.query.trim() || f.roles.length > 0 || f.statuses.length > 0 || f.priorities.length > 0 || f.assignees.length > 0 || f.overdueOnly;
+
+export const hasServerFilters = (f: ViewFilters) =>
+  !!f.query.trim() || f.categories.length > 0 || f.os.length > 0 || f.storageTypes.length > 0;
+
+export const matchesTaskFilters = (item: LaborItem, f: ViewFilters, team: TeamMember[], roles: RoleDefinition[], today: string) =>
+  matchesQuery(f.query, [item.taskName, item.description, item.assignee, getRoleName(roles, item.role)]) &&
+  inFacet(f.roles, item.role) &&
+  inFacet(f.statuses, item.status) &&
+  inFacet(f.priorities, item.priority) &&
+  inFacet(f.assignees, getAssigneeKey(item, team)) &&
+  (!f.overdueOnly || isTaskOverdue(item, today));
+
+export const matchesServerFilters = (server: ServerItem, f: ViewFilters) =>
+  matchesQuery(f.query, [server.content, server.note, server.configRaw, server.os, server.category]) &&
+  inFacet(f.categories, server.category) &&
+  inFacet(f.os, server.os) &&
+  (f.storageTypes.length === 0 || (server.volumes || []).some(v => f.storageTypes.includes(v.storageType)));
+
+export const hasJournalFilters = (f: JournalFilters) => !!f.query.trim() || f.types.length > 0 || !!f.from || !!f.to;
+
+/** Searches the title, Markdown text, minutes and attachment names of an entry. */
+export const matchesJournalFilters = (entry: JournalEntry, f: JournalFilters) =>
+  matchesQuery(f.query, [
+    entry.title,
+    entry.content,
+    ...(entry.attendees || []),
+    ...(entry.decisions || []),
+    ...(entry.actionItems || []).map(a => `${a.text} ${a.owner}`),
+    ...(entry.attachments || []).map(a => a.name)
+  ]) &&
+  inFacet(f.types, entry.type) &&
+  (!f.from || entry.date >= f.from) &&
+  (!f.to || entry.date <= f.to);
+
+/** Stable sort by `value`; returns the items unchanged when there is no sort order. */
+export const sortItems = <T, K extends string>(items: T[], sort: SortOrder<K> | undefined, value: (item: T, key: K) => string | number) => {
+  if (!sort) return items;
+  const sign = sort.desc ? -1 : 1;
+  return items.map((item, index) => ({ item, index, v: value(item, sort.key) }))
+    .sort((a, b) => (typeof a.v === 'number' && typeof b.v === 'number' ? a.v - b.v : String(a.v).localeCompare(String(b.v), 'vi')) * sign || a.index - b.index)
+    .map(x => x.item);
+};
+
+/** Clicking a column header: ascending, then descending, then back to unsorted. */
+export const toggleSort = <K extends string>(sort: SortOrder<K> | undefined, key: K): SortOrder<K> | undefined => {
+  if (sort?.key !== key) return { key, desc: false };
+  return sort.desc ? undefined : { key, desc: true };
+};
+
+/** Sort value of a task; status and priority sort in workflow and urgency order. */
+export const getTaskSortValue = (item: LaborItem, key: TaskSortKey, roles: RoleDefinition[], cost: (item: LaborItem) => number): string | number => {
+  if (key === 'role') return getRoleName(roles, item.role);
+  if (key === 'mandays') return item.mandays || 0;
+  if (key === 'cost') return cost(item);
+  if (key === 'status') return Object.values(TaskStatus).indexOf(item.status);
+  if (key === 'priority') return Object.values(Priority).indexOf(item.priority);
+  if (key === 'dueDate') return item.dueDate || '9999-12-31';
+  return item.taskName;
+};
+
+export const getServerSortValue = (server: ServerItem, key: ServerSortKey, monthlyCost: (server: ServerItem) => number): string | number => {
+  if (key === 'quantity') return server.quantity || 0;
+  if (key === 'monthlyCost') return monthlyCost(server);
+  return server[key] || '';
+};
+
+const encodeSort = (sort?: SortOrder<string>) => sort ? `${sort.key}${sort.desc ? '-desc' : ''}` : null;
+
+const decodeSort = <K extends string>(raw: string | null, keys: K[]): SortOrder<K> | undefined => {
+  if (!raw) return undefined;
+  const key = raw.replace(/-desc$/, '') as K;
+  return keys.includes(key) ? { key, desc: raw.endsWith('-desc') } : undefined;
+};
+
+/** Reads the project, tab, saved view and filters from a query string such as `location.search`. */
+export const readUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const oneOf = <T extends string>(values: T[], raw: string[]) => raw.filter((v): v is T => values.includes(v as T));
+  return {
+    projectId: params.get('project'),
+    tab: params.get('tab'),
+    viewId: params.get('view'),
+    filters: {
+      ...EMPTY_VIEW_FILTERS,
+      query: params.get('q') || '',
+      roles: params.getAll('role'),
+      statuses: oneOf(Object.values(TaskStatus), params.getAll('status')),
+      priorities: oneOf(Object.values(Priority), params.getAll('priority')),
+      assignees: params.getAll('assignee'),
+      overdueOnly: params.get('overdue') === '1',
+      categories: oneOf(Object.values(Category), params.getAll('category')),
+      os: params.getAll('os'),
+      storageTypes: oneOf(Object.keys(STORAGE_TYPE_LABELS) as StorageType[], params.getAll('storage')),
+      taskSort: decodeSort(params.get('tsort'), TASK_SORT_KEYS),
+      serverSort: decodeSort(params.get('ssort'), SERVER_SORT_KEYS)
+    }
+  };
+};
+
+export const buildUrlSearch = (state: UrlState) => {
+  const params = new URLSearchParams();
+  const f = state.filters;
+  if (state.projectId) params.set('project', state.projectId);
+  if (state.tab) params.set('tab', state.tab);
+  if (state.viewId) params.set('view', state.viewId);
+  if (f.query.trim()) params.set('q', f.query.trim());
+  f.roles.forEach(v => params.append('role', v));
+  f.statuses.forEach(v => params.append('status', v));
+  f.priorities.forEach(v => params.append('priority', v));
+  f.assignees.forEach(v => params.append('assignee', v));
+  if (f.overdueOnly) params.set('overdue', '1');
+  f.categories.forEach(v => params.append('category', v));
+  f.os.forEach(v => params.append('os', v));
+  f.storageTypes.forEach(v => params.append('storage', v));
+  const taskSort = encodeSort(f.taskSort);
+  const serverSort = encodeSort(f.serverSort);
+  if (taskSort) params.set('tsort', taskSort);
+  if (serverSort) params.set('ssort', serverSort);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
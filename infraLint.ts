@@ -0,0 +1,150 @@
+import { Category, CustomLintRule, LintContext, LintFinding, LintMetric, LintOperator, LintRule, LintSettings, LintSeverity, ServerItem, StorageType } from './types';
+import { getVolumesTotal, parseConfig } from './utils';
+import { hasConfigErrors, parseServerConfig } from './configParser';
+import { STORAGE_TYPE_LABELS } from './constants';
+
+const isWindows = (s: ServerItem) => (s.os || '').toLowerCase().includes('window');
+
+const BLOCK_STORAGE: StorageType[] = ['diskSanAllFlash', 'diskSanAllFlashSme', 'diskVsan', 'diskSanHdd'];
+const DB_STORAGE: StorageType[] = ['diskSanAllFlash', 'diskSanAllFlashSme', 'diskVsan'];
+
+export const SEVERITY_ORDER: { [key in LintSeverity]: number } = { error: 0, warning: 1, info: 2 };
+
+export const LINT_SEVERITY_LABELS: { [key in LintSeverity]: string } = {
+  error: 'Lỗi',
+  warning: 'Cảnh báo',
+  info: 'Lưu ý'
+};
+
+export const BUILT_IN_LINT_RULES: LintRule[] = [
+  {
+    id: 'config-invalid',
+    name: 'Cấu hình đọc được',
+    severity: 'error',
+    check: ({ servers }) => servers
+      .filter(s => hasConfigErrors(parseServerConfig(s.configRaw)))
+      .map(s => ({ message: `"${s.content}": cấu hình không đọc được vCPU/RAM`, serverIds: [s.id] }))
+  },
+  {
+    id: 'db-replica',
+    name: 'Database có bản sao',
+    severity: 'warning',
+    check: ({ servers }) => {
+      const db = servers.filter(s => s.category === Category.DbServer);
+      const total = db.reduce((sum, s) => sum + (s.quantity || 1), 0);
+      if (db.length === 0 || total >= 2) return [];
+      return [{ message: `"${db[0].content}" là database duy nhất, chưa có replica`, serverIds: db.map(s => s.id) }];
+    }
+  },
+  {
+    id: 'windows-min-ram',
+    name: 'Windows tối thiểu 4 GB RAM',
+    severity: 'error',
+    check: ({ servers, configs }) => servers
+      .filter(s => isWindows(s) && configs[s.id].ram > 0 && configs[s.id].ram < 4)
+      .map(s => ({ message: `"${s.content}" chạy Windows với ${configs[s.id].ram} GB RAM (tối thiểu 4 GB)`, serverIds: [s.id] }))
+  },
+  {
+    id: 'db-storage-type',
+    name: 'Database dùng ổ SSD/vSAN',
+    severity: 'warning',
+    check: ({ servers }) => servers
+      .filter(s => s.category === Category.DbServer)
+      .flatMap(s => (s.volumes || [])
+        .filter(v => !DB_STORAGE.includes(v.storageType))
+        .map(v => ({ message: `"${s.content}": volume ${v.label} dùng ${STORAGE_TYPE_LABELS[v.storageType] || v.storageType}, nên dùng SAN All-Flash hoặc vSAN cho database`, serverIds: [s.id] })))
+  },
+  {
+    id: 'os-volume-block',
+    name: 'Ổ hệ điều hành là block storage',
+    severity: 'warning',
+    check: ({ servers }) => servers
+      .filter(s => (s.volumes || []).length > 0 && !BLOCK_STORAGE.includes(s.volumes[0].storageType))
+      .map(s => ({ message: `"${s.content}": volume đầu tiên (${s.volumes[0].label}) dùng ${STORAGE_TYPE_LABELS[s.volumes[0].storageType]}, không thể làm ổ hệ điều hành`, serverIds: [s.id] }))
+  },
+  {
+    id: 'storage-missing',
+    name: 'Có dung lượng lưu trữ',
+    severity: 'warning',
+    check: ({ servers }) => servers
+      .filter(s => getVolumesTotal(s.volumes) <= 0)
+      .map(s => ({ message: `"${s.content}" chưa có volume lưu trữ`, serverIds: [s.id] }))
+  },
+  {
+    id: 'app-internet-bandwidth',
+    name: 'Có băng thông quốc tế cho ứng dụng',
+    severity: 'warning',
+    check: ({ servers }) => {
+      const apps = servers.filter(s => s.category === Category.AppServer);
+      if (apps.length === 0 || servers.some(s => (s.bwQt || 0) > 0)) return [];
+      return [{ message: 'Có server ứng dụng nhưng chưa có băng thông quốc tế (Internet) nào', serverIds: [] }];
+    }
+  }
+];
+
+export const LINT_METRIC_LABELS: { [key in LintMetric]: string } = {
+  cpu: 'vCPU',
+  ram: 'RAM (GB)',
+  storage: 'Lưu trữ (GB)',
+  bwQt: 'BW quốc tế (Mbps)',
+  bwInternal: 'BW trong nước (Mbps)',
+  quantity: 'Số lượng'
+};
+
+export const LINT_OPERATOR_LABELS: { [key in LintOperator]: string } = {
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+  eq: '='
+};
+
+const readMetric = (s: ServerItem, context: LintContext, metric: LintMetric) => {
+  if (metric === 'cpu') return context.configs[s.id].cpu;
+  if (metric === 'ram') return context.configs[s.id].ram;
+  if (metric === 'storage') return getVolumesTotal(s.volumes);
+  if (metric === 'quantity') return s.quantity || 1;
+  return s[metric] || 0;
+};
+
+const compare = (actual: number, operator: LintOperator, expected: number) => {
+  if (operator === 'lt') return actual < expected;
+  if (operator === 'lte') return actual <= expected;
+  if (operator === 'gt') return actual > expected;
+  if (operator === 'gte') return actual >= expected;
+  return actual === expected;
+};
+
+export const compileCustomRule = (rule: CustomLintRule): LintRule => ({
+  id: rule.id,
+  name: rule.name,
+  severity: rule.severity,
+  check: (context) => context.servers
+    .filter(s => !rule.category || s.category === rule.category)
+    .filter(s => !rule.osContains || (s.os || '').toLowerCase().includes(rule.osContains.toLowerCase()))
+    .filter(s => !compare(readMetric(s, context, rule.metric), rule.operator, rule.value))
+    .map(s => ({
+      message: `"${s.content}": ${rule.message || `${rule.name} (${LINT_METRIC_LABELS[rule.metric]} ${LINT_OPERATOR_LABELS[rule.operator]} ${rule.value}, hiện tại ${readMetric(s, context, rule.metric)})`}`,
+      serverIds: [s.id]
+    }))
+});
+
+/**
+ * Runs the rules over a server list and returns findings, most severe first. Deterministic and
+ * offline: the same list and rules always give the same findings.
+ */
+export const runLintRules = (servers: ServerItem[], rules: LintRule[]): LintFinding[] => {
+  const context: LintContext = { servers, configs: Object.fromEntries(servers.map(s => [s.id, parseConfig(s.configRaw)])) };
+  return rules
+    .flatMap(rule => rule.check(context).map(f => ({ ...f, ruleId: rule.id, severity: rule.severity })))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
+
+export const getLintRules = (settings?: LintSettings) => {
+  const disabled = settings?.disabledRules || [];
+  return [...BUILT_IN_LINT_RULES, ...(settings?.customRules || []).map(compileCustomRule)].filter(r => !disabled.includes(r.id));
+};
+
+export const lintServers = (servers: ServerItem[], settings?: LintSettings) => runLintRules(servers, getLintRules(settings));
+
+export const getServerFindings = (findings: LintFinding[], serverId: string) => findings.filter(f => f.serverIds.includes(serverId));
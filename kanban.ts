@@ -0,0 +1,94 @@
+import { BoardLane, BoardSettings, LaborItem, Priority, Project, RoleDefinition, Swimlane, TaskHistoryEntry, TaskHistoryField, TaskStatus, TeamMember } from './types';
+import { DEFAULT_BOARD_SETTINGS } from './constants';
+import { assignTask } from './capacity';
+import { getRoleName } from './roles';
+import { findAssignee } from './utils';
+
+// Edits to the same field within this window (typing, dragging back and forth) share one entry.
+const HISTORY_MERGE_MS = 5 * 60 * 1000;
+
+const TRACKED_FIELDS: Exclude<TaskHistoryField, 'created'>[] = ['taskName', 'description', 'role', 'mandays', 'status', 'priority', 'assignee', 'dueDate', 'percentComplete', 'parentId'];
+
+export const getBoardSettings = (project: Project): BoardSettings => ({ ...DEFAULT_BOARD_SETTINGS, ...project.boardSettings });
+
+/** Cards of one column in board order; cards never dragged keep their WBS order after the ordered ones. */
+export const sortBoardColumn = (tasks: LaborItem[]) =>
+  tasks.map((task, index) => ({ task, index }))
+    .sort((a, b) => (a.task.boardOrder ?? Infinity) - (b.task.boardOrder ?? Infinity) || a.index - b.index)
+    .map(x => x.task);
+
+/**
+ * Moves a card into `status`, before `beforeId` or at the end of the column, and renumbers the
+ * column. `update` applies any other change the drop implies, such as a new swimlane.
+ */
+export const moveTask = (labors: LaborItem[], leaves: LaborItem[], taskId: string, status: TaskStatus, beforeId?: string, update: (item: LaborItem) => LaborItem = item => item) => {
+  const column = sortBoardColumn(leaves.filter(l => l.status === status && l.id !== taskId)).map(l => l.id);
+  const index = beforeId ? column.indexOf(beforeId) : -1;
+  column.splice(index >= 0 ? index : column.length, 0, taskId);
+  const order = new Map(column.map((id, i) => [id, i]));
+  return labors.map(l => {
+    if (l.id === taskId) return { ...update(l), status, boardOrder: order.get(l.id) };
+    return order.has(l.id) ? { ...l, boardOrder: order.get(l.id) } : l;
+  });
+};
+
+export const getLaneKey = (item: LaborItem, swimlane: Swimlane, team: TeamMember[]) => {
+  if (swimlane === 'assignee') return findAssignee(item, team)?.id || (item.assignee ? `name:${item.assignee}` : '');
+  if (swimlane === 'role') return item.role;
+  if (swimlane === 'priority') return item.priority;
+  return '';
+};
+
+/** Lanes in display order; lanes for free-text assignees and unknown roles come from the tasks. */
+export const getSwimlanes = (tasks: LaborItem[], swimlane: Swimlane, team: TeamMember[], roles: RoleDefinition[]): BoardLane[] => {
+  if (swimlane === 'none') return [{ key: '', label: '' }];
+  if (swimlane === 'priority') return [Priority.Urgent, Priority.High, Priority.Medium, Priority.Low].map(p => ({ key: p, label: p }));
+  const used = Array.from(new Set(tasks.map(t => getLaneKey(t, swimlane, team))));
+  if (swimlane === 'role') {
+    const codes = Array.from(new Set([...roles.map(r => r.code), ...used]));
+    return codes.filter(code => used.includes(code)).map(code => ({ key: code, label: getRoleName(roles, code) }));
+  }
+  return [
+    ...team.map(m => ({ key: m.id, label: m.name })),
+    ...used.filter(key => key.startsWith('name:')).map(key => ({ key, label: `${key.slice(5)} (ngoài đội)` })),
+    { key: '', label: 'Chưa giao' }
+  ];
+};
+
+/** The task as it would be after being dropped into a lane. */
+export const applyLane = (item: LaborItem, swimlane: Swimlane, key: string, team: TeamMember[]): LaborItem => {
+  if (getLaneKey(item, swimlane, team) === key) return item;
+  if (swimlane === 'assignee') return key.startsWith('name:') ? { ...assignTask(item, undefined), assignee: key.slice(5) } : assignTask(item, team.find(m => m.id === key));
+  if (swimlane === 'role') return { ...item, role: key };
+  if (swimlane === 'priority') return { ...item, priority: key as Priority };
+  return item;
+};
+
+const toText = (value: unknown) => value === undefined || value === null || value === '' ? undefined : String(value);
+
+/**
+ * Appends a history entry for every tracked field that changed between `before` and `after`, and a
+ * creation entry for new tasks.
+ */
+export const recordTaskHistory = (before: LaborItem[], after: LaborItem[], at = Date.now()) => {
+  const previous = new Map(before.map(l => [l.id, l]));
+  return after.map(item => {
+    const old = previous.get(item.id);
+    if (!old) return item.history ? item : { ...item, history: [{ at, field: 'created' as const }] };
+    if (old === item) return item;
+    const original = item.history || [];
+    let history = original;
+    TRACKED_FIELDS.forEach(field => {
+      const from = toText(old[field]);
+      const to = toText(item[field]);
+      if (from === to) return;
+      const last = history[history.length - 1];
+      if (last && last.field === field && at - last.at < HISTORY_MERGE_MS) {
+        history = last.from === to ? history.slice(0, -1) : [...history.slice(0, -1), { ...last, at, to }];
+      } else {
+        history = [...history, { at, field, from, to } as TaskHistoryEntry];
+      }
+    });
+    return history === original ? item : { ...item, history };
+  });
+};
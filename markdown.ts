@@ -0,0 +1,104 @@
+import { MarkdownBlock, MarkdownInline, MarkdownListItem } from './types';
+
+// Links and images outside these schemes (javascript:, data:, ...) are rendered as plain text.
+const SAFE_URL = /^(https?:\/\/|mailto:|\/|#)/i;
+
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|(!?)\[([^\]]*)\]\(([^)\s]+)\)|(https?:\/\/[^\s<>()]+)/g;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const out: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = out[out.length - 1];
+    if (last?.type === 'text') out[out.length - 1] = { type: 'text', text: last.text + value };
+    else out.push({ type: 'text', text: value });
+  };
+  let index = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [raw, code, strong, em, bang, label, url, bare] = match;
+    pushText(text.slice(index, match.index));
+    index = match.index! + raw.length;
+    if (code !== undefined) out.push({ type: 'code', text: code });
+    else if (strong !== undefined) out.push({ type: 'strong', children: parseInline(strong) });
+    else if (em !== undefined) out.push({ type: 'em', children: parseInline(em) });
+    else if (bare !== undefined) out.push({ type: 'link', href: bare, children: [{ type: 'text', text: bare }] });
+    else if (!SAFE_URL.test(url)) pushText(bang ? label : raw);
+    else if (bang) out.push({ type: 'image', src: url, alt: label });
+    else out.push({ type: 'link', href: url, children: parseInline(label) });
+  }
+  pushText(text.slice(index));
+  return out;
+};
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+
+/**
+ * Block structure of a Markdown text: ATX headings, paragraphs, block quotes, bullet, numbered and
+ * task lists, fenced code and horizontal rules. Raw HTML is kept as text.
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(/^\s*```\s*(\S*)/);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', lang: fence[1], text: code.join('\n') });
+      continue;
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      continue;
+    }
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      blocks.push({ type: 'hr' });
+      continue;
+    }
+    if (/^\s*>/.test(line)) {
+      flush();
+      const quote: string[] = [];
+      for (; i < lines.length && /^\s*>/.test(lines[i]); i++) quote.push(lines[i].replace(/^\s*>\s?/, ''));
+      i--;
+      blocks.push({ type: 'quote', children: parseInline(quote.join('\n')) });
+      continue;
+    }
+    const first = line.match(LIST_ITEM);
+    if (first) {
+      flush();
+      const ordered = !first[1];
+      const items: MarkdownListItem[] = [];
+      for (let m: RegExpMatchArray | null = first; i < lines.length && m && (!m[1]) === ordered; m = lines[++i]?.match(LIST_ITEM) ?? null) {
+        items.push({ checked: m[3] === undefined ? undefined : m[3] !== ' ', children: parseInline(m[4]) });
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+    if (!line.trim()) flush();
+    else paragraph.push(line);
+  }
+  flush();
+  return blocks;
+};
+
+/** The text of a Markdown source without its markup, for search and one-line summaries. */
+export const markdownToText = (source: string) => {
+  const inlineText = (nodes: MarkdownInline[]): string => nodes.map(n => 'text' in n ? n.text : n.type === 'image' ? n.alt : inlineText(n.children)).join('');
+  return parseMarkdown(source).map(b => {
+    if (b.type === 'code') return b.text;
+    if (b.type === 'hr') return '';
+    if (b.type === 'list') return b.items.map(item => inlineText(item.children)).join('\n');
+    return inlineText(b.children);
+  }).filter(Boolean).join('\n');
+};
@@ -0,0 +1,114 @@
+import { JournalEntry, LaborItem, MergeChoice, MergeItem, MergeSection, Project, ServerItem } from './types';
+
+type ItemSection = Exclude<MergeSection, 'settings'>;
+type Item = { id: string };
+
+const ITEM_SECTIONS: ItemSection[] = ['servers', 'labors', 'journal'];
+// Identity and sync bookkeeping, never merged.
+const IGNORED_FIELDS = ['id', 'revision', 'lastModified'];
+
+/** JSON with sorted keys and no empty values, so copies that went through a database compare equal. */
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).filter(k => record[k] != null).sort().map(k => `${JSON.stringify(k)}:${canonical(record[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const same = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+const settingsOf = (project: Project | null) =>
+  project ? Object.fromEntries(Object.entries(project).filter(([k]) => !IGNORED_FIELDS.includes(k) && !(ITEM_SECTIONS as string[]).includes(k))) : undefined;
+
+const itemsOf = (project: Project | null, section: ItemSection) => new Map(((project?.[section] || []) as Item[]).map(i => [i.id, i]));
+
+const changedFields = (a: unknown, b: unknown) => {
+  if (!a || !b) return [];
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  return Array.from(new Set([...Object.keys(left), ...Object.keys(right)])).filter(k => !same(left[k], right[k]));
+};
+
+/** The side to keep when only one side changed since `base`; undefined when both did. */
+const resolve = (base: unknown, local: unknown, remote: unknown): MergeChoice | undefined => {
+  if (same(local, base)) return 'remote';
+  if (same(remote, base)) return 'local';
+  return undefined;
+};
+
+const labelOf = (section: ItemSection, item: Item) => {
+  if (section === 'servers') return (item as ServerItem).content;
+  if (section === 'labors') return (item as LaborItem).taskName;
+  const entry = item as JournalEntry;
+  return `${entry.title} (${entry.date})`;
+};
+
+/**
+ * Three-way comparison of a project's local and remote copies against the copy both started from
+ * (`base`, null if it was never synced). Servers, tasks and journal entries are compared one by one;
+ * all other fields form a single `settings` item.
+ */
+export const diffProjects = (base: Project | null, local: Project, remote: Project): MergeItem[] => {
+  const items: MergeItem[] = [];
+  const add = (section: MergeSection, id: string, label: string, b: unknown, l: unknown, r: unknown) => {
+    if (same(l, r)) return;
+    items.push({ key: `${section}:${id}`, section, id, label, local: l, remote: r, fields: changedFields(l, r), resolution: resolve(b, l, r) });
+  };
+  add('settings', 'project', 'Thông tin & cài đặt dự án', settingsOf(base), settingsOf(local), settingsOf(remote));
+  ITEM_SECTIONS.forEach(section => {
+    const b = itemsOf(base, section);
+    const l = itemsOf(local, section);
+    const r = itemsOf(remote, section);
+    Array.from(new Set([...l.keys(), ...r.keys()])).forEach(id => {
+      add(section, id, labelOf(section, (l.get(id) || r.get(id))!), b.get(id), l.get(id), r.get(id));
+    });
+  });
+  return items;
+};
+
+export const hasUnresolvedItems = (items: MergeItem[]) => items.some(i => !i.resolution);
+
+/**
+ * The local copy with each differing item taken from the side it resolved to, or else the side in
+ * `choices` (local by default). Items only the remote copy has are appended in remote order. Keeps
+ * the local `lastModified` so callers can tell whether the local copy changed since.
+ */
+export const applyMerge = (local: Project, remote: Project, items: MergeItem[], choices: Record<string, MergeChoice> = {}): Project => {
+  const choose = (item: MergeItem) => item.resolution || choices[item.key] || 'local';
+  const settings = items.find(i => i.section === 'settings');
+  const base: Project = settings && choose(settings) === 'remote' ? remote : local;
+  const mergeSection = <T extends Item>(section: ItemSection, own: T[] = [], theirs: T[] = []): T[] => {
+    const decided = new Map(items.filter(i => i.section === section).map(i => [i.id, (choose(i) === 'local' ? i.local : i.remote) as T | undefined]));
+    const result = own.map(x => decided.has(x.id) ? decided.get(x.id) : x);
+    theirs.forEach(x => { if (!own.some(o => o.id === x.id)) result.push(decided.get(x.id)); });
+    return result.filter((x): x is T => !!x);
+  };
+  return {
+    ...base,
+    servers: mergeSection('servers', local.servers, remote.servers),
+    labors: mergeSection('labors', local.labors, remote.labors),
+    journal: local.journal || remote.journal ? mergeSection('journal', local.journal, remote.journal) : undefined,
+    lastModified: local.lastModified,
+    revision: local.revision
+  };
+};
+
+/** One-line description of a server, task or journal entry copy in the merge dialog. */
+export const summarizeMergeValue = (section: MergeSection, value: unknown) => {
+  if (value === undefined) return 'Đã xóa';
+  if (section === 'servers') {
+    const s = value as ServerItem;
+    return `${s.content} · ${s.configRaw} · SL ${s.quantity}`;
+  }
+  if (section === 'labors') {
+    const l = value as LaborItem;
+    return [l.taskName, l.status, l.assignee || 'Chưa giao', `${l.mandays} MD`, l.dueDate && `hạn ${l.dueDate}`].filter(Boolean).join(' · ');
+  }
+  if (section === 'journal') {
+    const j = value as JournalEntry;
+    return `${j.type} · ${j.date} · ${j.title}`;
+  }
+  return (value as Project).name;
+};
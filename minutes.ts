@@ -0,0 +1,50 @@
+import { ActionItem, JournalEntry, LaborItem, Priority, RoleDefinition, TaskStatus, TeamMember } from './types';
+import { assignTask } from './capacity';
+
+export const createActionItem = (): ActionItem => ({
+  id: 'a' + Date.now(),
+  text: '',
+  owner: '',
+  dueDate: ''
+});
+
+/** Owner from the roster when `value` is a member id, otherwise a free-text name. */
+export const setActionOwner = (action: ActionItem, value: string, team: TeamMember[]): ActionItem => {
+  const member = team.find(m => m.id === value);
+  return member ? { ...action, ownerId: member.id, owner: member.name } : { ...action, ownerId: undefined, owner: value };
+};
+
+/** The linked task, or undefined when none was created or it has been deleted since. */
+export const getActionTask = (action: ActionItem, labors: LaborItem[]) =>
+  action.taskId ? labors.find(l => l.id === action.taskId) : undefined;
+
+/**
+ * A board task for the action: the owner's role (else the project's first role) and assignment, the
+ * action's due date, linked back to the meeting. It has no mandays, so it costs nothing until estimated.
+ */
+export const actionToTask = (action: ActionItem, entry: JournalEntry, team: TeamMember[], roles: RoleDefinition[], id = 'l' + Date.now()): LaborItem => {
+  const member = team.find(m => m.id === action.ownerId);
+  const task: LaborItem = {
+    id,
+    taskName: action.text.trim() || 'Việc từ cuộc họp',
+    role: member?.role || roles[0].code,
+    mandays: 0,
+    description: `Từ cuộc họp "${entry.title}" ngày ${entry.date}`,
+    status: TaskStatus.Todo,
+    priority: Priority.Medium,
+    assignee: '',
+    dueDate: action.dueDate,
+    sourceEntryId: entry.id
+  };
+  return member ? assignTask(task, member) : { ...task, assignee: action.owner };
+};
+
+/** Journal entries that reference a task or server, newest first. */
+export const getJournalBacklinks = (journal: JournalEntry[] = [], id: string) =>
+  journal.filter(j => (j.taskIds || []).includes(id) || (j.serverIds || []).includes(id)).sort((a, b) => b.date.localeCompare(a.date));
+
+/** Actions of a meeting whose tasks are done, out of those that have a task. */
+export const getMinutesProgress = (entry: JournalEntry, labors: LaborItem[]) => {
+  const tasks = (entry.actionItems || []).map(a => getActionTask(a, labors)).filter((t): t is LaborItem => !!t);
+  return { done: tasks.filter(t => t.status === TaskStatus.Done).length, tracked: tasks.length, total: (entry.actionItems || []).length };
+};
@@ -0,0 +1,61 @@
+import { LaborItem, LaborPrices, OverheadLine, OverheadRule, Project, RoleDefinition } from './types';
+import { DEFAULT_OVERHEAD_RULES, DEFAULT_ROLES } from './constants';
+import { getLeafLabors } from './wbs';
+import { getRoleName } from './roles';
+
+export const getOverheadRules = (project: Project) => project.overheadRules || DEFAULT_OVERHEAD_RULES;
+
+const formatMd = (value: number) => Number(value.toFixed(1)).toString();
+
+export const describeRatio = (value: number) => {
+  const inverse = value > 0 ? 1 / value : 0;
+  const percent = `${Number((value * 100).toFixed(1))}%`;
+  return inverse > 0 && Math.abs(inverse - Math.round(inverse)) < 0.01 ? `1:${Math.round(inverse)}` : percent;
+};
+
+/**
+ * Human-readable form of a rule, e.g. "Project Manager = 1:5 công (Senior Developer, Junior Developer), tối thiểu 5 MD".
+ */
+export const describeOverheadRule = (rule: OverheadRule, roles: RoleDefinition[] = DEFAULT_ROLES) => {
+  const target = getRoleName(roles, rule.targetRole);
+  const base = rule.mode === 'fixed'
+    ? `${target} cố định ${formatMd(rule.value)} MD`
+    : `${target} = ${describeRatio(rule.value)} công ${rule.sourceRoles.length > 0 ? `(${rule.sourceRoles.map(r => getRoleName(roles, r)).join(', ')})` : '(chưa chọn vai trò nguồn)'}`;
+  const limits = [
+    rule.min !== undefined ? `tối thiểu ${formatMd(rule.min)} MD` : '',
+    rule.max !== undefined ? `tối đa ${formatMd(rule.max)} MD` : ''
+  ].filter(Boolean);
+  return limits.length > 0 ? `${base}, ${limits.join(', ')}` : base;
+};
+
+/**
+ * Overhead mandays derived from the manually estimated leaf tasks. Sources only count manual tasks,
+ * so rules never feed each other. The minimum of a ratio rule applies only when its sources have work.
+ */
+export const calculateOverhead = (labors: LaborItem[], rules: OverheadRule[], roles: RoleDefinition[] = DEFAULT_ROLES): OverheadLine[] => {
+  const leaves = getLeafLabors(labors);
+  return rules.map(rule => {
+    const sourceMandays = leaves
+      .filter(l => rule.sourceRoles.includes(l.role))
+      .reduce((sum, l) => sum + (l.mandays || 0), 0);
+    let mandays = rule.mode === 'fixed' ? rule.value : sourceMandays * rule.value;
+    const notes: string[] = [];
+    if (rule.min !== undefined && mandays < rule.min && (rule.mode === 'fixed' || sourceMandays > 0)) {
+      mandays = rule.min;
+      notes.push('áp mức tối thiểu');
+    }
+    if (rule.max !== undefined && mandays > rule.max) {
+      mandays = rule.max;
+      notes.push('áp mức tối đa');
+    }
+    const explanation = rule.mode === 'fixed'
+      ? `Cố định ${formatMd(rule.value)} MD`
+      : `${describeRatio(rule.value)} × ${formatMd(sourceMandays)} MD ${rule.sourceRoles.map(r => getRoleName(roles, r)).join(' + ') || 'nguồn'}`;
+    return { rule, sourceMandays, mandays: Math.max(0, mandays), explanation: notes.length > 0 ? `${explanation} (${notes.join(', ')})` : explanation };
+  });
+};
+
+export const calculateOverheadCost = (lines: OverheadLine[], prices: LaborPrices) =>
+  lines.reduce((sum, l) => sum + l.mandays * (prices[l.rule.targetRole] || 0), 0);
+
+export const getOverheadMandays = (lines: OverheadLine[]) => lines.reduce((sum, l) => sum + l.mandays, 0);
@@ -0,0 +1,96 @@
+import { PriceBook, PriceBookVersion, Project, RepriceDiffLine } from './types';
+import { INITIAL_BILLING_CYCLES, INITIAL_LABOR_PRICES, INITIAL_UNIT_PRICES } from './constants';
+import { buildQuotation } from './quotation';
+
+type PriceSet = Pick<PriceBookVersion, 'infraPrices' | 'billingCycles' | 'priceTiers' | 'laborPrices' | 'roles'>;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const createPriceBook = (name: string, prices?: PriceSet): PriceBook => {
+  const now = Date.now();
+  return {
+    id: 'pb' + now,
+    name,
+    versions: [{
+      id: 'pbv' + now,
+      version: 1,
+      effectiveDate: today(),
+      infraPrices: { ...(prices?.infraPrices || INITIAL_UNIT_PRICES) },
+      billingCycles: { ...(prices?.billingCycles || INITIAL_BILLING_CYCLES) },
+      priceTiers: { ...(prices?.priceTiers || {}) },
+      laborPrices: { ...(prices?.laborPrices || INITIAL_LABOR_PRICES) },
+      roles: prices?.roles?.map(r => ({ ...r, aliases: [...r.aliases] })),
+      note: 'Phiên bản đầu tiên',
+      createdAt: now
+    }],
+    lastModified: now
+  };
+};
+
+export const addPriceBookVersion = (book: PriceBook, prices: PriceSet, effectiveDate: string, note: string): PriceBook => {
+  const now = Date.now();
+  const version: PriceBookVersion = {
+    id: 'pbv' + now,
+    version: Math.max(0, ...book.versions.map(v => v.version)) + 1,
+    effectiveDate,
+    infraPrices: { ...prices.infraPrices },
+    billingCycles: { ...prices.billingCycles },
+    priceTiers: { ...(prices.priceTiers || {}) },
+    laborPrices: { ...prices.laborPrices },
+    roles: prices.roles?.map(r => ({ ...r, aliases: [...r.aliases] })),
+    note,
+    createdAt: now
+  };
+  return { ...book, versions: [...book.versions, version], lastModified: now };
+};
+
+/**
+ * The version in force on `asOf`: the latest effective date not after it, newest version number first.
+ */
+export const getEffectiveVersion = (book: PriceBook, asOf: string = today()): PriceBookVersion | null => {
+  const candidates = book.versions
+    .filter(v => v.effectiveDate <= asOf)
+    .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || b.version - a.version);
+  return candidates[0] || null;
+};
+
+export const findPriceBookVersion = (books: PriceBook[], project: Project) => {
+  const book = books.find(b => b.id === project.priceBookRef?.bookId) || null;
+  const version = book?.versions.find(v => v.id === project.priceBookRef?.versionId) || null;
+  return { book, version };
+};
+
+export const applyPriceBookVersion = (book: PriceBook, version: PriceBookVersion): Partial<Project> => ({
+  infraPrices: { ...version.infraPrices },
+  billingCycles: { ...version.billingCycles },
+  priceTiers: { ...(version.priceTiers || {}) },
+  laborPrices: { ...version.laborPrices },
+  ...(version.roles ? { roles: version.roles.map(r => ({ ...r, aliases: [...r.aliases] })) } : {}),
+  priceBookRef: { bookId: book.id, versionId: version.id }
+});
+
+/**
+ * True when the project's own prices have been edited away from the version it references.
+ */
+export const hasLocalPriceOverrides = (project: Project, version: PriceBookVersion) =>
+  JSON.stringify(project.infraPrices) !== JSON.stringify(version.infraPrices)
+  || JSON.stringify(project.billingCycles || INITIAL_BILLING_CYCLES) !== JSON.stringify(version.billingCycles)
+  || JSON.stringify(project.priceTiers || {}) !== JSON.stringify(version.priceTiers || {})
+  || JSON.stringify(project.laborPrices) !== JSON.stringify(version.laborPrices)
+  || (!!version.roles && JSON.stringify(project.roles) !== JSON.stringify(version.roles));
+
+/**
+ * Per quotation line cost before and after moving the project onto `version`, before discounts and tax.
+ */
+export const diffRepricing = (project: Project, book: PriceBook, version: PriceBookVersion) => {
+  const before = buildQuotation(project);
+  const after = buildQuotation({ ...project, ...applyPriceBookVersion(book, version) });
+  const keys = Array.from(new Set([...before.lines.map(l => l.key), ...after.lines.map(l => l.key)]));
+  const lines: RepriceDiffLine[] = keys.map(key => {
+    const b = before.lines.find(l => l.key === key);
+    const a = after.lines.find(l => l.key === key);
+    const ref = (a || b)!;
+    return { key, section: ref.section, label: ref.label, before: b?.amount || 0, after: a?.amount || 0, delta: (a?.amount || 0) - (b?.amount || 0) };
+  });
+  return { lines, totalBefore: before.totals.total, totalAfter: after.totals.total };
+};
@@ -0,0 +1,45 @@
+import { AppliedTiers, PriceTiers, TieredRate, UnitPrices } from './types';
+
+const sortTiers = (tiered: TieredRate) => [...tiered.tiers].filter(t => t.from >= 0).sort((a, b) => a.from - b.from);
+
+/**
+ * Cost of `quantity` units under a tier table. The base rate applies up to the first threshold.
+ * Graduated tiers price each band at its own rate; all-units tiers price every unit at the rate
+ * of the highest threshold the quantity exceeds.
+ */
+export const evaluateTieredCost = (baseRate: number, tiered: TieredRate, quantity: number) => {
+  const tiers = sortTiers(tiered);
+  if (quantity <= 0 || tiers.length === 0) return { cost: quantity * baseRate, rate: baseRate, bands: [] as { quantity: number, rate: number }[] };
+
+  if (tiered.mode === 'allUnits') {
+    const reached = tiers.filter(t => quantity > t.from);
+    const rate = reached.length > 0 ? reached[reached.length - 1].rate : baseRate;
+    return { cost: quantity * rate, rate, bands: [{ quantity, rate }] };
+  }
+
+  const bands: { quantity: number, rate: number }[] = [];
+  const edges = [{ from: 0, rate: baseRate }, ...tiers];
+  edges.forEach((edge, idx) => {
+    const upper = idx + 1 < edges.length ? edges[idx + 1].from : Infinity;
+    const inBand = Math.min(quantity, upper) - edge.from;
+    if (inBand > 0) bands.push({ quantity: inBand, rate: edge.rate });
+  });
+  const cost = bands.reduce((sum, b) => sum + b.quantity * b.rate, 0);
+  return { cost, rate: cost / quantity, bands };
+};
+
+/**
+ * Resolves project-wide quantities against the tier tables, returning the blended rate per resource.
+ */
+export const resolveTiers = (prices: UnitPrices, priceTiers: PriceTiers = {}, quantities: Partial<Record<keyof UnitPrices, number>>) => {
+  const applied: AppliedTiers = {};
+  (Object.keys(priceTiers) as (keyof UnitPrices)[]).forEach(key => {
+    const tiered = priceTiers[key];
+    if (!tiered || tiered.tiers.length === 0) return;
+    const quantity = quantities[key] || 0;
+    const baseRate = prices[key] || 0;
+    const result = evaluateTieredCost(baseRate, tiered, quantity);
+    applied[key] = { priceKey: key, mode: tiered.mode, quantity, baseRate, effectiveRate: result.rate, bands: result.bands };
+  });
+  return applied;
+};
@@ -0,0 +1,103 @@
+import { AppliedTier, Discount, Project, Quotation, QuotationLine, QuotationSettings } from './types';
+import { INITIAL_QUOTATION_SETTINGS } from './constants';
+import { calculateOverhead, getOverheadRules } from './overhead';
+import { getPercentileFactor, runMonteCarlo } from './estimation';
+import { buildWbsTree, getLeafLabors, getModuleIds } from './wbs';
+import { getRoleName, getRoles } from './roles';
+import { calculateRiskReserve } from './risks';
+import { calculateLaborCost, calculateServerContractCost, convertFromVnd, formatCurrency, getProjectPricing, hasExchangeRate } from './utils';
+
+/** The project's settings over the defaults; a currency without an exchange rate falls back to VND. */
+export const getQuotationSettings = (project: Project): QuotationSettings => {
+  const settings = { ...INITIAL_QUOTATION_SETTINGS, ...(project.quotationSettings || {}) };
+  return hasExchangeRate(settings.currency, settings.exchangeRates) ? settings : { ...settings, currency: 'VND' };
+};
+
+/**
+ * Amount taken off by a discount, never more than the amount itself.
+ */
+export const applyDiscount = (amount: number, discount?: Discount) => {
+  if (!discount || !discount.value || amount <= 0) return 0;
+  const off = discount.kind === 'percent' ? amount * discount.value / 100 : discount.value;
+  return Math.min(Math.max(off, 0), amount);
+};
+
+/**
+ * Builds the quotation lines (one per server, one per role or WBS module, one per overhead rule,
+ * one for the open risks' contingency reserve) and the subtotal, discount, VAT and total lines.
+ * All amounts are in VND; convert with `formatQuoteAmount` for display.
+ */
+export const buildQuotation = (project: Project): Quotation => {
+  const settings = getQuotationSettings(project);
+  const lines: QuotationLine[] = [];
+  const pushLine = (line: Omit<QuotationLine, 'discount' | 'net'>) => {
+    const discount = applyDiscount(line.amount, settings.lineDiscounts[line.key]);
+    lines.push({ ...line, discount, net: line.amount - discount });
+  };
+
+  const pricing = getProjectPricing(project);
+  (project.servers || []).forEach(s => {
+    const cost = calculateServerContractCost(s, project, pricing);
+    pushLine({ key: `server:${s.id}`, section: 'infra', label: s.content, quantity: s.quantity || 1, unit: 'VM', amount: cost.total });
+  });
+
+  const laborFactor = settings.laborPercentile ? getPercentileFactor(runMonteCarlo(project), settings.laborPercentile) : 1;
+  const leaves = getLeafLabors(project.labors || []);
+  const roles = getRoles(project);
+  if (settings.laborGrouping === 'module') {
+    const moduleIds = getModuleIds(project.labors || []);
+    buildWbsTree(project.labors || [], project.laborPrices, project.team).forEach(node => {
+      if (node.children.length === 0 || node.mandays <= 0) return;
+      pushLine({ key: `module:${node.item.id}`, section: 'labor', label: node.item.taskName, quantity: node.mandays * laborFactor, unit: 'MD', amount: node.cost * laborFactor });
+    });
+    const loose = leaves.filter(l => moduleIds.get(l.id) === l.id);
+    const looseMd = loose.reduce((sum, l) => sum + (l.mandays || 0), 0);
+    if (looseMd > 0) {
+      const looseCost = loose.reduce((sum, l) => sum + calculateLaborCost(l, project.laborPrices, project.team), 0);
+      pushLine({ key: 'module:_other', section: 'labor', label: 'Hạng mục khác', quantity: looseMd * laborFactor, unit: 'MD', amount: looseCost * laborFactor });
+    }
+  } else {
+    const roleCodes = Array.from(new Set([...roles.map(r => r.code), ...leaves.map(l => l.role)]));
+    roleCodes.forEach(role => {
+      const items = leaves.filter(l => l.role === role);
+      const md = laborFactor * items.reduce((sum, l) => sum + (l.mandays || 0), 0);
+      if (md <= 0) return;
+      const amount = laborFactor * items.reduce((sum, l) => sum + calculateLaborCost(l, project.laborPrices, project.team), 0);
+      pushLine({ key: `role:${role}`, section: 'labor', label: getRoleName(roles, role), quantity: md, unit: 'MD', amount });
+    });
+  }
+
+  calculateOverhead(project.labors || [], getOverheadRules(project), roles).forEach(o => {
+    if (o.mandays <= 0) return;
+    pushLine({
+      key: `overhead:${o.rule.id}`,
+      section: 'labor',
+      label: `${o.rule.label} (${getRoleName(roles, o.rule.targetRole)})`,
+      quantity: o.mandays * laborFactor,
+      unit: 'MD',
+      amount: o.mandays * laborFactor * (project.laborPrices[o.rule.targetRole] || 0),
+      derivedFrom: o.explanation
+    });
+  });
+
+  const reserve = calculateRiskReserve(project.risks);
+  if (reserve.cost > 0) {
+    pushLine({ key: 'contingency', section: 'contingency', label: `Dự phòng ${reserve.openCount} rủi ro đang mở (giá trị kỳ vọng)`, quantity: reserve.openCount, unit: 'rủi ro', amount: reserve.cost });
+  }
+
+  const subtotal = lines.reduce((sum, l) => sum + l.amount, 0);
+  const lineDiscounts = lines.reduce((sum, l) => sum + l.discount, 0);
+  const afterLines = subtotal - lineDiscounts;
+  const overallDiscount = applyDiscount(afterLines, settings.overallDiscount);
+  const taxable = afterLines - overallDiscount;
+  const vat = taxable * (settings.vatRate || 0) / 100;
+  return {
+    lines,
+    tiers: Object.values(pricing.tiers).filter((t): t is AppliedTier => !!t),
+    laborFactor,
+    totals: { subtotal, lineDiscounts, overallDiscount, taxable, vatRate: settings.vatRate || 0, vat, total: taxable + vat }
+  };
+};
+
+export const formatQuoteAmount = (amountVnd: number, settings: QuotationSettings) =>
+  formatCurrency(convertFromVnd(amountVnd, settings.currency, settings.exchangeRates), settings.currency);
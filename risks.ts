@@ -0,0 +1,36 @@
+import { Risk, RiskReserve, RiskStatus } from './types';
+
+export const createRisk = (): Risk => ({
+  id: 'rk' + Date.now(),
+  description: 'Rủi ro mới',
+  probability: 20,
+  costImpact: 0,
+  scheduleImpact: 0,
+  owner: '',
+  mitigation: '',
+  status: RiskStatus.Open,
+  serverIds: [],
+  taskIds: []
+});
+
+/** Closed risks release their reserve; every other status still holds it. */
+export const isRiskOpen = (risk: Risk) => risk.status !== RiskStatus.Closed;
+
+const getProbability = (risk: Risk) => Math.min(100, Math.max(0, risk.probability || 0)) / 100;
+
+/** Expected cost of a risk: probability × cost impact. */
+export const getRiskExposure = (risk: Risk) => getProbability(risk) * Math.max(0, risk.costImpact || 0);
+
+/** Contingency reserve held for the open risks, as expected values. */
+export const calculateRiskReserve = (risks: Risk[] = []): RiskReserve => {
+  const open = risks.filter(isRiskOpen);
+  return {
+    cost: open.reduce((sum, r) => sum + getRiskExposure(r), 0),
+    days: open.reduce((sum, r) => sum + getProbability(r) * Math.max(0, r.scheduleImpact || 0), 0),
+    openCount: open.length
+  };
+};
+
+/** Open risks linked to a server or task. */
+export const getLinkedRisks = (risks: Risk[] = [], id: string) =>
+  risks.filter(r => isRiskOpen(r) && ((r.serverIds || []).includes(id) || (r.taskIds || []).includes(id)));
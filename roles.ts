@@ -0,0 +1,49 @@
+import { LaborItem, LaborPrices, Project, RoleCode, RoleDefinition } from './types';
+import { DEFAULT_OVERHEAD_RULES, DEFAULT_ROLES } from './constants';
+
+export const getRoles = (project?: Pick<Project, 'roles'>) => project?.roles && project.roles.length > 0 ? project.roles : DEFAULT_ROLES;
+
+export const getRoleName = (roles: RoleDefinition[], code: RoleCode) => roles.find(r => r.code === code)?.name || code;
+
+/** Lower case without Vietnamese diacritics, so "Kiểm thử" matches "kiem thu". */
+export const normalizeRoleText = (value: string) =>
+  (value || '').toLowerCase().replace(/đ/g, 'd').normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim();
+
+export const createRoleCode = (name: string, roles: RoleDefinition[]) => {
+  const base = normalizeRoleText(name).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'role';
+  let code = base;
+  for (let i = 2; roles.some(r => r.code === code); i++) code = `${base}-${i}`;
+  return code;
+};
+
+/** Role codes referenced by the project's tasks (in every scenario), overhead rules and team. */
+export const getUsedRoleCodes = (project: Project) => new Set<RoleCode>([
+  ...(project.labors || []).map(l => l.role),
+  ...(project.scenarios || []).flatMap(s => s.labors.map(l => l.role)),
+  ...(project.overheadRules || DEFAULT_OVERHEAD_RULES).flatMap(r => [r.targetRole, ...r.sourceRoles]),
+  ...(project.team || []).map(m => m.role)
+]);
+
+const renameKey = (prices: LaborPrices | undefined, from: RoleCode, to: RoleCode) => {
+  if (!prices || !(from in prices)) return prices;
+  const { [from]: value, ...rest } = prices;
+  return { ...rest, [to]: value };
+};
+
+/**
+ * Changes a role's code and moves every reference to it: prices, tasks, scenarios, overhead
+ * rules, team members and headcount.
+ */
+export const renameRoleCode = (project: Project, from: RoleCode, to: RoleCode): Partial<Project> => {
+  const swap = (code: RoleCode) => code === from ? to : code;
+  const relabel = (labors: LaborItem[]) => labors.map(l => l.role === from ? { ...l, role: to } : l);
+  return {
+    roles: getRoles(project).map(r => r.code === from ? { ...r, code: to } : r),
+    laborPrices: renameKey(project.laborPrices, from, to)!,
+    labors: relabel(project.labors || []),
+    scenarios: project.scenarios?.map(s => ({ ...s, labors: relabel(s.labors), laborPrices: renameKey(s.laborPrices, from, to) })),
+    overheadRules: (project.overheadRules || DEFAULT_OVERHEAD_RULES).map(r => ({ ...r, targetRole: swap(r.targetRole), sourceRoles: r.sourceRoles.map(swap) })),
+    team: project.team?.map(m => ({ ...m, role: swap(m.role) })),
+    scheduleSettings: project.scheduleSettings && { ...project.scheduleSettings, headcount: renameKey(project.scheduleSettings.headcount, from, to)! }
+  };
+};
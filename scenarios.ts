@@ -0,0 +1,89 @@
+import { Project, Scenario, ScenarioComparison } from './types';
+import { buildQuotation } from './quotation';
+import { calculateContractSummary } from './utils';
+
+const MAIN_SCENARIO_ID = 'sc-main';
+
+/**
+ * All scenarios of a project with the active one refreshed from the project's working servers and
+ * labors. Projects created before scenarios existed get a single implicit main scenario.
+ */
+export const getScenarios = (project: Project): Scenario[] => {
+  const scenarios = project.scenarios && project.scenarios.length > 0
+    ? project.scenarios
+    : [{ id: MAIN_SCENARIO_ID, name: 'Phương án chính', servers: [], labors: [] }];
+  const activeId = getActiveScenarioId(project, scenarios);
+  return scenarios.map(s => s.id === activeId ? { ...s, servers: project.servers, labors: project.labors } : s);
+};
+
+export const getActiveScenarioId = (project: Project, scenarios: Scenario[] = project.scenarios || []) =>
+  scenarios.find(s => s.id === project.activeScenarioId)?.id || scenarios[0]?.id || MAIN_SCENARIO_ID;
+
+/**
+ * The project as it would be estimated under `scenario`: its servers, labors and price overrides.
+ */
+export const applyScenario = (project: Project, scenario: Scenario): Project => ({
+  ...project,
+  servers: scenario.servers,
+  labors: scenario.labors,
+  infraPrices: { ...project.infraPrices, ...(scenario.infraPrices || {}) },
+  laborPrices: { ...project.laborPrices, ...(scenario.laborPrices || {}) }
+});
+
+/** The project with the active scenario's price overrides applied, used for every estimate shown. */
+export const getScenarioProject = (project: Project) => {
+  const scenarios = getScenarios(project);
+  const active = scenarios.find(s => s.id === getActiveScenarioId(project, scenarios))!;
+  return applyScenario(project, active);
+};
+
+export const switchScenario = (project: Project, scenarioId: string): Partial<Project> => {
+  const scenarios = getScenarios(project);
+  const target = scenarios.find(s => s.id === scenarioId);
+  if (!target) return {};
+  return { scenarios, activeScenarioId: target.id, servers: target.servers, labors: target.labors };
+};
+
+/**
+ * Adds a scenario copied from `fromId` (or the active one) and makes it active.
+ */
+export const addScenario = (project: Project, name: string, fromId?: string): Partial<Project> => {
+  const scenarios = getScenarios(project);
+  const source = scenarios.find(s => s.id === fromId) || scenarios.find(s => s.id === getActiveScenarioId(project, scenarios))!;
+  const copy: Scenario = JSON.parse(JSON.stringify({ ...source, id: 'sc' + Date.now(), name }));
+  return { scenarios: [...scenarios, copy], activeScenarioId: copy.id, servers: copy.servers, labors: copy.labors };
+};
+
+export const updateScenario = (project: Project, scenarioId: string, updates: Partial<Scenario>): Partial<Project> => ({
+  scenarios: getScenarios(project).map(s => s.id === scenarioId ? { ...s, ...updates } : s)
+});
+
+export const deleteScenario = (project: Project, scenarioId: string): Partial<Project> => {
+  const scenarios = getScenarios(project);
+  if (scenarios.length <= 1) return {};
+  const remaining = scenarios.filter(s => s.id !== scenarioId);
+  const quotationScenarioIds = (project.quotationScenarioIds || []).filter(id => id !== scenarioId);
+  if (getActiveScenarioId(project, scenarios) !== scenarioId) return { scenarios: remaining, quotationScenarioIds };
+  return { scenarios: remaining, quotationScenarioIds, activeScenarioId: remaining[0].id, servers: remaining[0].servers, labors: remaining[0].labors };
+};
+
+export const compareScenarios = (project: Project, scenarioIds?: string[]): ScenarioComparison[] => {
+  const scenarios = getScenarios(project).filter(s => !scenarioIds || scenarioIds.includes(s.id));
+  return scenarios.map(scenario => {
+    const scoped = applyScenario(project, scenario);
+    const quotation = buildQuotation(scoped);
+    const laborLines = quotation.lines.filter(l => l.section === 'labor');
+    const infraTotal = calculateContractSummary(scoped).contractTotal;
+    const laborTotal = laborLines.reduce((sum, l) => sum + l.amount, 0);
+    const contingencyTotal = quotation.lines.filter(l => l.section === 'contingency').reduce((sum, l) => sum + l.amount, 0);
+    return {
+      scenario,
+      infraTotal,
+      laborTotal,
+      contingencyTotal,
+      mandays: laborLines.reduce((sum, l) => sum + l.quantity, 0),
+      grandTotal: infraTotal + laborTotal + contingencyTotal,
+      quotedTotal: quotation.totals.total
+    };
+  });
+};
@@ -0,0 +1,247 @@
+import { JournalEntryType, LaborItem, Project, TeamMember, ScheduleResult, ScheduleSettings, ScheduledTask, ScheduleWarning } from './types';
+import { DEFAULT_SCHEDULE_SETTINGS } from './constants';
+import { getAncestorIds, getDescendantIds, getLeafLabors } from './wbs';
+import { findAssignee } from './utils';
+
+const DAY_MS = 86400000;
+
+const parseDate = (value?: string): Date | null => {
+  if (!value) return null;
+  const d = new Date(`${value}T00:00:00Z`);
+  return isNaN(d.getTime()) ? null : d;
+};
+
+const toIsoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+/** YYYY-MM-DD as DD/MM/YYYY. */
+export const formatScheduleDate = (iso: string) => iso.split('-').reverse().join('/');
+
+/** Calendar days from `from` to `to`; negative when `to` is earlier. */
+export const calendarDaysBetween = (from: string, to: string) => {
+  const a = parseDate(from);
+  const b = parseDate(to);
+  return a && b ? Math.round((b.getTime() - a.getTime()) / DAY_MS) : 0;
+};
+
+export const getScheduleSettings = (project: Project): ScheduleSettings => ({ ...DEFAULT_SCHEDULE_SETTINGS, ...project.scheduleSettings });
+
+/** Working days a task takes: one person works its mandays, rounded up to whole days. */
+export const getTaskDuration = (item: LaborItem) => {
+  if (!(item.mandays > 0)) return 0;
+  return Math.max(1, Math.ceil(Math.round(item.mandays * 100) / 100));
+};
+
+const EPSILON = 1e-6;
+
+/**
+ * Person-days each pool can give on a working day (by index). `member:<id>` is the member's
+ * availability, nothing on their days off. `role:<code>` adds up the role's members, or is the role's
+ * headcount when the team has nobody available in that role.
+ */
+const createCapacity = (team: TeamMember[], settings: ScheduleSettings, day: (index: number) => string) => {
+  const available = team.filter(m => m.availability > 0);
+  const share = (member: TeamMember, index: number) => member.daysOff.includes(day(index)) ? 0 : member.availability / 100;
+  return (pool: string, index: number) => {
+    const [kind, key] = [pool.slice(0, pool.indexOf(':')), pool.slice(pool.indexOf(':') + 1)];
+    if (kind === 'member') {
+      const member = available.find(m => m.id === key);
+      return member ? share(member, index) : 0;
+    }
+    const members = available.filter(m => m.role === key);
+    if (members.length === 0) return Math.max(1, settings.headcount[key] || 1);
+    return members.reduce((sum, m) => sum + share(m, index), 0);
+  };
+};
+
+/** Backward pass: the latest finish of each task in `sequence` (predecessors first) that keeps `end`. */
+const getLateFinishes = (sequence: string[], successors: Map<string, string[]>, duration: Map<string, number>, end: number) => {
+  const lateFinish = new Map<string, number>();
+  [...sequence].reverse().forEach(id => {
+    lateFinish.set(id, Math.min(end, ...successors.get(id)!.map(s => lateFinish.get(s)! - duration.get(s)!)));
+  });
+  return lateFinish;
+};
+
+export const addDays = (iso: string, days: number) => toIsoDate(new Date(parseDate(iso)!.getTime() + days * DAY_MS));
+
+const getWorkingWeekdays = (settings: ScheduleSettings) => {
+  const valid = settings.workingDays.filter(d => d >= 0 && d <= 6);
+  return valid.length > 0 ? valid : DEFAULT_SCHEDULE_SETTINGS.workingDays;
+};
+
+export const isWorkingDay = (iso: string, settings: ScheduleSettings) =>
+  getWorkingWeekdays(settings).includes(parseDate(iso)!.getUTCDay()) && !settings.holidays.includes(iso);
+
+/** Working dates from `from` to `to`, both inclusive. */
+export const getWorkingDates = (from: string, to: string, settings: ScheduleSettings) => {
+  const dates: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) if (isWorkingDay(d, settings)) dates.push(d);
+  return dates;
+};
+
+/**
+ * Lazily generated working dates: index 0 is the first working day on or after `start`.
+ */
+const createCalendar = (start: Date, settings: ScheduleSettings) => {
+  const workingDays = getWorkingWeekdays(settings);
+  const holidays = new Set(settings.holidays);
+  const days: string[] = [];
+  let cursor = start.getTime();
+  return (index: number) => {
+    while (days.length <= index) {
+      const d = new Date(cursor);
+      if (workingDays.includes(d.getUTCDay()) && !holidays.has(toIsoDate(d))) days.push(toIsoDate(d));
+      cursor += DAY_MS;
+    }
+    return days[index];
+  };
+};
+
+/** Items a task may depend on: anything but itself and the modules above or below it. */
+export const getPredecessorCandidates = (labors: LaborItem[], id: string) => {
+  const excluded = new Set([id, ...getAncestorIds(labors, id), ...getDescendantIds(labors, id)]);
+  return labors.filter(l => !excluded.has(l.id));
+};
+
+/**
+ * Critical path schedule of the leaf tasks. A module's predecessors apply to every task inside it,
+ * and depending on a module means waiting for all of its tasks. Tasks start on `project.startDate`
+ * (today when unset) and are laid out on the working calendar; links that form a cycle are dropped
+ * and reported.
+ *
+ * Each task is worked by at most one person-day a day, taken from its role and, when assigned, from
+ * its assignee (see `createCapacity`), so availability and days off stretch it. A task whose people
+ * are fully booked waits, least slack first; waiting for a person counts as a link when finding the
+ * critical path.
+ */
+export const scheduleProject = (project: Project, today = toIsoDate(new Date())): ScheduleResult => {
+  const settings = getScheduleSettings(project);
+  const labors = project.labors || [];
+  const byId = new Map(labors.map(l => [l.id, l]));
+  const leaves = getLeafLabors(labors);
+  const leafIds = new Set(leaves.map(l => l.id));
+  const expand = (id: string) => leafIds.has(id) ? [id] : getDescendantIds(labors, id).filter(d => leafIds.has(d));
+  const preds = new Map(leaves.map(l => {
+    const declared = [l.id, ...getAncestorIds(labors, l.id)].flatMap(id => byId.get(id)?.predecessorIds || []);
+    return [l.id, Array.from(new Set(declared.flatMap(expand))).filter(p => p !== l.id)];
+  }));
+  const duration = new Map(leaves.map(l => [l.id, getTaskDuration(l)]));
+
+  const order: string[] = [];
+  const placed = new Set<string>();
+  let progress = true;
+  while (progress) {
+    progress = false;
+    leaves.forEach(l => {
+      if (placed.has(l.id) || !preds.get(l.id)!.every(p => placed.has(p))) return;
+      placed.add(l.id);
+      order.push(l.id);
+      progress = true;
+    });
+  }
+  const cyclic = leaves.filter(l => !placed.has(l.id));
+  cyclic.forEach(l => {
+    preds.set(l.id, preds.get(l.id)!.filter(p => placed.has(p)));
+    order.push(l.id);
+  });
+
+  // Unlimited people: the latest start of each task sets the order in which tasks get a person.
+  const successors = new Map(order.map(id => [id, [] as string[]]));
+  order.forEach(id => preds.get(id)!.forEach(p => successors.get(p)!.push(id)));
+  const unlevelledFinish = new Map<string, number>();
+  order.forEach(id => unlevelledFinish.set(id, Math.max(0, ...preds.get(id)!.map(p => unlevelledFinish.get(p)!)) + duration.get(id)!));
+  const unlevelledLate = getLateFinishes(order, successors, duration, Math.max(0, ...unlevelledFinish.values()));
+  const latestStart = (id: string) => unlevelledLate.get(id)! - duration.get(id)!;
+
+  const day = createCalendar(parseDate(project.startDate) || parseDate(today)!, settings);
+  const team = project.team || [];
+  const capacity = createCapacity(team, settings, day);
+  const booked = new Map<string, number[]>();
+  const poolsOf = (item: LaborItem) => {
+    const member = findAssignee(item, team);
+    return [`role:${item.role}`, ...(member && member.availability > 0 ? [`member:${member.id}`] : [])];
+  };
+  // Share of a person-day the task can get on `index`: one person at most, less when its pools are booked.
+  const rateOn = (pools: string[], index: number) =>
+    Math.min(1, ...pools.map(p => capacity(p, index) - (booked.get(p)?.[index] || 0)));
+
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  const sequence: string[] = [];
+  const waiting = [...order];
+  while (waiting.length > 0) {
+    const ready = waiting.filter(id => preds.get(id)!.every(p => earlyFinish.has(p)));
+    const id = ready.reduce((best, c) => latestStart(c) < latestStart(best) ? c : best);
+    waiting.splice(waiting.indexOf(id), 1);
+    const pools = poolsOf(byId.get(id)!);
+    const free = Math.max(0, ...preds.get(id)!.map(p => earlyFinish.get(p)!));
+    let start = free;
+    let finish = free;
+    let remaining = duration.get(id)! > 0 ? Math.round(byId.get(id)!.mandays * 100) / 100 : 0;
+    if (remaining > 0) {
+      while (rateOn(pools, start) <= EPSILON) start++;
+      for (finish = start; remaining > EPSILON; finish++) {
+        const share = Math.min(remaining, rateOn(pools, finish));
+        if (share <= EPSILON) continue;
+        pools.forEach(p => {
+          if (!booked.has(p)) booked.set(p, []);
+          booked.get(p)![finish] = (booked.get(p)![finish] || 0) + share;
+        });
+        remaining -= share;
+      }
+    }
+    if (start > free) {
+      sequence.filter(o => earlyFinish.get(o) === start && poolsOf(byId.get(o)!).some(p => pools.includes(p))).forEach(o => successors.get(o)!.push(id));
+    }
+    earlyStart.set(id, start);
+    earlyFinish.set(id, finish);
+    sequence.push(id);
+  }
+  const projectDuration = Math.max(0, ...order.map(id => earlyFinish.get(id)!));
+  const span = new Map(order.map(id => [id, earlyFinish.get(id)! - earlyStart.get(id)!]));
+  const lateFinish = getLateFinishes(sequence, successors, span, projectDuration);
+
+  const toTask = (id: string, start: number, finish: number, slack: number): ScheduledTask => ({
+    id,
+    earlyStart: start,
+    earlyFinish: finish,
+    duration: finish - start,
+    slack,
+    critical: projectDuration > 0 && slack === 0,
+    startDate: day(start),
+    finishDate: day(Math.max(start, finish - 1))
+  });
+
+  const tasks: Record<string, ScheduledTask> = {};
+  order.forEach(id => {
+    tasks[id] = toTask(id, earlyStart.get(id)!, earlyFinish.get(id)!, lateFinish.get(id)! - earlyFinish.get(id)!);
+  });
+  labors.filter(l => !leafIds.has(l.id)).forEach(l => {
+    const inside = getDescendantIds(labors, l.id).filter(id => tasks[id] && leafIds.has(id)).map(id => tasks[id]);
+    if (inside.length === 0) return;
+    tasks[l.id] = toTask(l.id, Math.min(...inside.map(t => t.earlyStart)), Math.max(...inside.map(t => t.earlyFinish)), Math.min(...inside.map(t => t.slack)));
+  });
+
+  const startDate = day(0);
+  const finishDate = day(Math.max(0, projectDuration - 1));
+  const criticalPath = order.filter(id => tasks[id].critical).sort((a, b) => tasks[a].earlyStart - tasks[b].earlyStart);
+  const nameOf = (id: string) => `"${byId.get(id)?.taskName || id}"`;
+
+  const warnings: ScheduleWarning[] = [];
+  if (cyclic.length > 0) {
+    warnings.push({ kind: 'cycle', message: `Phụ thuộc vòng tròn giữa ${cyclic.map(l => nameOf(l.id)).join(', ')}; các liên kết vòng bị bỏ qua khi lập lịch`, taskIds: cyclic.map(l => l.id) });
+  }
+  if (project.endDate && projectDuration > 0 && finishDate > project.endDate) {
+    warnings.push({ kind: 'projectEnd', message: `Dự kiến hoàn thành ${formatScheduleDate(finishDate)}, trễ ${calendarDaysBetween(project.endDate, finishDate)} ngày so với ngày kết thúc dự án ${formatScheduleDate(project.endDate)}`, taskIds: criticalPath });
+  }
+  (project.journal || []).filter(j => j.type === JournalEntryType.Milestone && j.date).forEach(m => {
+    const late = labors.filter(l => l.milestoneId === m.id && tasks[l.id] && tasks[l.id].finishDate > m.date);
+    if (late.length === 0) return;
+    warnings.push({ kind: 'milestone', message: `Mốc "${m.title}" (${formatScheduleDate(m.date)}): ${late.map(l => `${nameOf(l.id)} dự kiến xong ${formatScheduleDate(tasks[l.id].finishDate)}`).join(', ')}`, taskIds: late.map(l => l.id) });
+  });
+  labors.filter(l => l.dueDate && tasks[l.id] && tasks[l.id].finishDate > l.dueDate).forEach(l => {
+    warnings.push({ kind: 'dueDate', message: `${nameOf(l.id)} dự kiến xong ${formatScheduleDate(tasks[l.id].finishDate)}, sau hạn ${formatScheduleDate(l.dueDate)}`, taskIds: [l.id] });
+  });
+
+  return { startDate, finishDate, duration: projectDuration, tasks, criticalPath, warnings };
+};
@@ -0,0 +1,36 @@
+import { ServerItem, ServerStack, ServerTemplate } from './types';
+import { BUILT_IN_SERVER_TEMPLATES } from './constants';
+
+let idSeq = 0;
+const nextId = (prefix: string) => `${prefix}${Date.now()}-${idSeq++}`;
+
+export const getAllServerTemplates = (custom: ServerTemplate[]) => [...BUILT_IN_SERVER_TEMPLATES, ...custom];
+
+/**
+ * A new project server from a template, with fresh server and volume ids.
+ */
+export const instantiateTemplate = (template: ServerTemplate, quantity = template.server.quantity || 1): ServerItem => ({
+  ...JSON.parse(JSON.stringify(template.server)),
+  id: nextId('s'),
+  quantity,
+  volumes: (template.server.volumes || []).map(v => ({ ...v, id: nextId('v') }))
+});
+
+/**
+ * Servers for every item of a stack, in stack order. Items whose template no longer exists are skipped.
+ */
+export const instantiateStack = (stack: ServerStack, templates: ServerTemplate[]): ServerItem[] =>
+  stack.items.flatMap(item => {
+    const template = templates.find(t => t.id === item.templateId);
+    return template ? [instantiateTemplate(template, item.quantity)] : [];
+  });
+
+export const templateFromServer = (server: ServerItem, name: string): ServerTemplate => {
+  const { id, storageType, startDate, endDate, ...rest } = server;
+  return {
+    id: 'tpl' + Date.now(),
+    name,
+    server: { ...JSON.parse(JSON.stringify(rest)), quantity: 1 },
+    lastModified: Date.now()
+  };
+};
@@ -0,0 +1,414 @@
+import { createClient } from '@supabase/supabase-js';
+import { PriceBook, Project, ServerTemplate, StorageConfig, StorageProvider } from './types';
+import { DEFAULT_STORAGE_CONFIG } from './constants';
+import { migrateProject } from './utils';
+
+const STORAGE_CONFIG_KEY = 'estimacore_storage_config';
+// Supabase settings saved before storage providers existed.
+const LEGACY_CLOUD_CONFIG_KEY = 'estimacore_cloud_config';
+
+const PROJECTS_KEY = 'estimator_projects';
+const PRICE_BOOKS_KEY = 'estimacore_price_books';
+const SERVER_TEMPLATES_KEY = 'estimacore_server_templates';
+
+const ATTACHMENT_BUCKET = 'attachments';
+
+const IDB_NAME = 'estimacore';
+const IDB_STORES = ['projects', 'priceBooks', 'serverTemplates', 'attachments', 'pendingAttachments', 'syncBases'] as const;
+type IdbStore = typeof IDB_STORES[number];
+
+const openIndexedDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(IDB_NAME, 2);
+  request.onupgradeneeded = () => IDB_STORES.filter(name => !request.result.objectStoreNames.contains(name)).forEach(name => request.result.createObjectStore(name));
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/** Runs one request against an IndexedDB object store of this app. */
+export const runIndexedDb = async <T>(store: IdbStore, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openIndexedDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(store, mode).objectStore(store));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const byName = <T extends { name: string }>(items: T[]) => [...items].sort((a, b) => a.name.localeCompare(b.name, 'vi'));
+
+// Attachments of the browser providers: localStorage is too small for files, so both use IndexedDB.
+const indexedDbAttachments: Pick<StorageProvider, 'putAttachment' | 'getAttachmentUrl' | 'deleteAttachment'> = {
+  putAttachment: async (path, file) => { await runIndexedDb('attachments', 'readwrite', store => store.put(file, path)); },
+  getAttachmentUrl: async path => {
+    const file = await runIndexedDb<Blob | undefined>('attachments', 'readonly', store => store.get(path));
+    return file ? URL.createObjectURL(file) : null;
+  },
+  deleteAttachment: async path => { await runIndexedDb('attachments', 'readwrite', store => store.delete(path)); }
+};
+
+const readLocal = <T>(key: string): T[] => {
+  const data = localStorage.getItem(key);
+  return data ? JSON.parse(data) : [];
+};
+
+const upsertLocal = <T extends { id: string }>(key: string, item: T) => {
+  const items = readLocal<T>(key);
+  const index = items.findIndex(i => i.id === item.id);
+  if (index >= 0) items[index] = item;
+  else items.push(item);
+  localStorage.setItem(key, JSON.stringify(items));
+};
+
+const removeLocal = <T extends { id: string }>(key: string, id: string) =>
+  localStorage.setItem(key, JSON.stringify(readLocal<T>(key).filter(i => i.id !== id)));
+
+/** `saveProjectIfRevision` for stores only this browser writes to. */
+const saveIfRevision = (provider: Pick<StorageProvider, 'getProject' | 'saveProject'>) => async (project: Project, expected: number | null) => {
+  const current = await provider.getProject(project.id);
+  if ((current ? current.revision || 0 : null) !== expected) return false;
+  await provider.saveProject(project);
+  return true;
+};
+
+export const createLocalStorageProvider = (): StorageProvider => {
+  const provider: StorageProvider = {
+    kind: 'local',
+    checkConnection: async () => { localStorage.getItem(PROJECTS_KEY); },
+    listProjects: async () => readLocal<Project>(PROJECTS_KEY).map(migrateProject),
+    getProject: async id => {
+      const project = readLocal<Project>(PROJECTS_KEY).find(p => p.id === id);
+      return project ? migrateProject(project) : null;
+    },
+    saveProject: async project => upsertLocal(PROJECTS_KEY, project),
+    saveProjectIfRevision: (project, expected) => saveIfRevision(provider)(project, expected),
+    deleteProject: async id => removeLocal<Project>(PROJECTS_KEY, id),
+    listPriceBooks: async () => readLocal<PriceBook>(PRICE_BOOKS_KEY),
+    savePriceBook: async book => upsertLocal(PRICE_BOOKS_KEY, book),
+    listServerTemplates: async () => readLocal<ServerTemplate>(SERVER_TEMPLATES_KEY),
+    saveServerTemplate: async template => upsertLocal(SERVER_TEMPLATES_KEY, template),
+    deleteServerTemplate: async id => removeLocal<ServerTemplate>(SERVER_TEMPLATES_KEY, id),
+    ...indexedDbAttachments
+  };
+  return provider;
+};
+
+export const createIndexedDbProvider = (): StorageProvider => {
+  const list = <T>(store: IdbStore) => runIndexedDb<T[]>(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+  const put = async (store: IdbStore, item: { id: string }) => { await runIndexedDb(store, 'readwrite', s => s.put(item, item.id)); };
+  const remove = async (store: IdbStore, id: string) => { await runIndexedDb(store, 'readwrite', s => s.delete(id)); };
+  const provider: StorageProvider = {
+    kind: 'indexedDb',
+    checkConnection: async () => { await runIndexedDb('projects', 'readonly', s => s.count()); },
+    listProjects: async () => (await list<Project>('projects')).map(migrateProject).sort((a, b) => b.lastModified - a.lastModified),
+    getProject: async id => {
+      const project = await runIndexedDb<Project | undefined>('projects', 'readonly', s => s.get(id));
+      return project ? migrateProject(project) : null;
+    },
+    saveProject: project => put('projects', project),
+    saveProjectIfRevision: (project, expected) => saveIfRevision(provider)(project, expected),
+    deleteProject: id => remove('projects', id),
+    listPriceBooks: async () => byName(await list<PriceBook>('priceBooks')),
+    savePriceBook: book => put('priceBooks', book),
+    listServerTemplates: async () => byName(await list<ServerTemplate>('serverTemplates')),
+    saveServerTemplate: template => put('serverTemplates', template),
+    deleteServerTemplate: id => remove('serverTemplates', id),
+    ...indexedDbAttachments
+  };
+  return provider;
+};
+
+type Nullable<T> = { [K in keyof T]?: T[K] | null };
+
+/** A `projects` row: snake_case columns, null where a field was never set. */
+interface ProjectRow extends Nullable<{
+  start_date: Project['startDate'];
+  end_date: Project['endDate'];
+  servers: Project['servers'];
+  labors: Project['labors'];
+  journal: Project['journal'];
+  billing_cycles: Project['billingCycles'];
+  price_tiers: Project['priceTiers'];
+  price_book_ref: Project['priceBookRef'];
+  quotation_settings: Project['quotationSettings'];
+  scenarios: Project['scenarios'];
+  active_scenario_id: Project['activeScenarioId'];
+  quotation_scenario_ids: Project['quotationScenarioIds'];
+  lint_settings: Project['lintSettings'];
+  overhead_rules: Project['overheadRules'];
+  schedule_settings: Project['scheduleSettings'];
+  team: Project['team'];
+  roles: Project['roles'];
+  risks: Project['risks'];
+  board_settings: Project['boardSettings'];
+  saved_views: Project['savedViews'];
+  revision: Project['revision'];
+}> {
+  id: string;
+  name: string;
+  infra_prices: Project['infraPrices'];
+  labor_prices: Project['laborPrices'];
+  created_at: number;
+  last_modified: number;
+}
+
+const projectToRow = (project: Project): ProjectRow => ({
+  id: project.id,
+  name: project.name,
+  start_date: project.startDate,
+  end_date: project.endDate,
+  servers: project.servers,
+  labors: project.labors,
+  journal: project.journal,
+  infra_prices: project.infraPrices,
+  billing_cycles: project.billingCycles,
+  price_tiers: project.priceTiers,
+  labor_prices: project.laborPrices,
+  price_book_ref: project.priceBookRef,
+  quotation_settings: project.quotationSettings,
+  scenarios: project.scenarios,
+  active_scenario_id: project.activeScenarioId,
+  quotation_scenario_ids: project.quotationScenarioIds,
+  lint_settings: project.lintSettings,
+  overhead_rules: project.overheadRules,
+  schedule_settings: project.scheduleSettings,
+  team: project.team,
+  roles: project.roles,
+  risks: project.risks,
+  board_settings: project.boardSettings,
+  saved_views: project.savedViews,
+  created_at: project.createdAt,
+  last_modified: project.lastModified,
+  revision: project.revision
+});
+
+const rowToProject = (p: ProjectRow): Project => migrateProject({
+  id: p.id,
+  name: p.name,
+  startDate: p.start_date || undefined,
+  endDate: p.end_date || undefined,
+  servers: p.servers || [],
+  labors: p.labors || [],
+  journal: p.journal || [],
+  infraPrices: p.infra_prices,
+  billingCycles: p.billing_cycles || undefined,
+  priceTiers: p.price_tiers || undefined,
+  laborPrices: p.labor_prices,
+  priceBookRef: p.price_book_ref || undefined,
+  quotationSettings: p.quotation_settings || undefined,
+  scenarios: p.scenarios || undefined,
+  activeScenarioId: p.active_scenario_id || undefined,
+  quotationScenarioIds: p.quotation_scenario_ids || undefined,
+  lintSettings: p.lint_settings || undefined,
+  overheadRules: p.overhead_rules || undefined,
+  scheduleSettings: p.schedule_settings || undefined,
+  team: p.team || undefined,
+  roles: p.roles || undefined,
+  risks: p.risks || undefined,
+  boardSettings: p.board_settings || undefined,
+  savedViews: p.saved_views || undefined,
+  createdAt: p.created_at,
+  lastModified: p.last_modified,
+  revision: p.revision ?? undefined
+});
+
+// Postgres error code of an insert whose id already exists.
+const UNIQUE_VIOLATION = '23505';
+
+/** Tables `projects`, `price_books` and `server_templates` with snake_case columns, and an `attachments` bucket. */
+export const createSupabaseProvider = (config: StorageConfig): StorageProvider => {
+  const client = createClient(config.url, config.key);
+  const check = <T>({ data, error }: { data: T | null, error: { message: string } | null }) => {
+    if (error) throw new Error(error.message);
+    return data;
+  };
+  return {
+    kind: 'supabase',
+    checkConnection: async () => { check(await client.from('projects').select('id').limit(1)); },
+    listProjects: async () => (check(await client.from('projects').select('*').order('last_modified', { ascending: false })) || []).map(rowToProject),
+    getProject: async id => {
+      const row = check(await client.from('projects').select('*').eq('id', id).maybeSingle());
+      return row ? rowToProject(row) : null;
+    },
+    saveProject: async project => { check(await client.from('projects').upsert(projectToRow(project))); },
+    saveProjectIfRevision: async (project, expected) => {
+      if (expected === null) {
+        const { error } = await client.from('projects').insert(projectToRow(project));
+        if (error?.code === UNIQUE_VIOLATION) return false;
+        check({ data: null, error });
+        return true;
+      }
+      const rows = check(await client.from('projects').update(projectToRow(project)).eq('id', project.id).eq('revision', expected).select('id'));
+      return (rows || []).length > 0;
+    },
+    deleteProject: async id => { check(await client.from('projects').delete().eq('id', id)); },
+    listPriceBooks: async () => (check(await client.from('price_books').select('*').order('name', { ascending: true })) || []).map(b => ({
+      id: b.id,
+      name: b.name,
+      versions: b.versions || [],
+      lastModified: b.last_modified
+    })),
+    savePriceBook: async book => { check(await client.from('price_books').upsert({ id: book.id, name: book.name, versions: book.versions, last_modified: book.lastModified })); },
+    listServerTemplates: async () => (check(await client.from('server_templates').select('*').order('name', { ascending: true })) || []).map(t => ({
+      id: t.id,
+      name: t.name,
+      server: t.server,
+      lastModified: t.last_modified
+    })),
+    saveServerTemplate: async template => { check(await client.from('server_templates').upsert({ id: template.id, name: template.name, server: template.server, last_modified: template.lastModified })); },
+    deleteServerTemplate: async id => { check(await client.from('server_templates').delete().eq('id', id)); },
+    putAttachment: async (path, file, mimeType) => { check(await client.storage.from(ATTACHMENT_BUCKET).upload(path, file, { contentType: mimeType, upsert: true })); },
+    getAttachmentUrl: async path => check(await client.storage.from(ATTACHMENT_BUCKET).createSignedUrl(path, 3600))?.signedUrl || null,
+    deleteAttachment: async path => { check(await client.storage.from(ATTACHMENT_BUCKET).remove([path])); }
+  };
+};
+
+/**
+ * JSON over HTTP: `GET /projects`, `GET /projects/:id`, `PUT /projects/:id` (falling back to `POST /projects` when the
+ * server answers 404, as json-server does for new items), `DELETE /projects/:id`, the same for
+ * `/price-books` and `/server-templates`, and raw bodies at `/attachments/:path`. The key, if any,
+ * is sent as a bearer token. Synced project pushes carry `If-Match: "<revision>"` (or
+ * `If-None-Match: *` for a new project); the server answers 409 or 412 when it no longer matches.
+ */
+export const createRestProvider = (config: StorageConfig): StorageProvider => {
+  const base = config.url.trim().replace(/\/+$/, '');
+  const send = async (path: string, init: RequestInit = {}, allowed: number[] = []) => {
+    const response = await fetch(`${base}/${path}`, {
+      ...init,
+      headers: { ...(config.key ? { Authorization: `Bearer ${config.key}` } : {}), ...init.headers }
+    });
+    if (!response.ok && !allowed.includes(response.status)) throw new Error(`${init.method || 'GET'} /${path}: HTTP ${response.status}`);
+    return response;
+  };
+  const list = async <T>(collection: string): Promise<T[]> => (await send(collection)).json();
+  const upsert = async (collection: string, item: { id: string }) => {
+    const init = { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(item) };
+    const response = await send(`${collection}/${encodeURIComponent(item.id)}`, { ...init, method: 'PUT' }, [404]);
+    if (response.status === 404) await send(collection, { ...init, method: 'POST' });
+  };
+  const remove = async (collection: string, id: string) => { await send(`${collection}/${encodeURIComponent(id)}`, { method: 'DELETE' }, [404]); };
+  return {
+    kind: 'rest',
+    checkConnection: async () => { await send('projects'); },
+    listProjects: async () => (await list<Project>('projects')).map(migrateProject).sort((a, b) => b.lastModified - a.lastModified),
+    getProject: async id => {
+      const response = await send(`projects/${encodeURIComponent(id)}`, {}, [404]);
+      return response.ok ? migrateProject(await response.json()) : null;
+    },
+    saveProject: project => upsert('projects', project),
+    saveProjectIfRevision: async (project, expected) => {
+      const body = JSON.stringify(project);
+      const precondition = expected === null ? { 'If-None-Match': '*' } : { 'If-Match': `"${expected}"` };
+      const headers = { 'Content-Type': 'application/json', ...precondition };
+      const response = await send(`projects/${encodeURIComponent(project.id)}`, { method: 'PUT', headers, body }, [404, 409, 412]);
+      if (response.status !== 404) return response.ok;
+      if (expected !== null) return false;
+      return (await send('projects', { method: 'POST', headers, body }, [409, 412])).ok;
+    },
+    deleteProject: id => remove('projects', id),
+    listPriceBooks: async () => byName(await list<PriceBook>('price-books')),
+    savePriceBook: book => upsert('price-books', book),
+    listServerTemplates: async () => byName(await list<ServerTemplate>('server-templates')),
+    saveServerTemplate: template => upsert('server-templates', template),
+    deleteServerTemplate: id => remove('server-templates', id),
+    putAttachment: async (path, file, mimeType) => { await send(`attachments/${encodeURIComponent(path)}`, { method: 'PUT', headers: { 'Content-Type': mimeType }, body: file }); },
+    getAttachmentUrl: async path => {
+      const response = await send(`attachments/${encodeURIComponent(path)}`, {}, [404]);
+      return response.ok ? URL.createObjectURL(await response.blob()) : null;
+    },
+    deleteAttachment: path => remove('attachments', path)
+  };
+};
+
+export const isRemoteProvider = (config: StorageConfig) => config.provider === 'supabase' || config.provider === 'rest';
+
+/**
+ * A remote backend that also keeps every saved record in localStorage. A save reaches the local copy
+ * before the backend, so a failing backend still throws but loses nothing in this browser.
+ */
+const withLocalCopy = (remote: StorageProvider): StorageProvider => {
+  const local = createLocalStorageProvider();
+  const both = <A extends unknown[]>(save: (p: StorageProvider) => (...args: A) => Promise<void>) => async (...args: A) => {
+    await save(local)(...args);
+    await save(remote)(...args);
+  };
+  return {
+    ...remote,
+    saveProject: both(p => p.saveProject),
+    deleteProject: both(p => p.deleteProject),
+    savePriceBook: both(p => p.savePriceBook),
+    saveServerTemplate: both(p => p.saveServerTemplate),
+    deleteServerTemplate: both(p => p.deleteServerTemplate)
+  };
+};
+
+export const createStorageProvider = (config: StorageConfig): StorageProvider => {
+  if (config.provider === 'indexedDb') return createIndexedDbProvider();
+  if (!config.url.trim()) return createLocalStorageProvider();
+  if (config.provider === 'supabase') return withLocalCopy(createSupabaseProvider(config));
+  if (config.provider === 'rest') return withLocalCopy(createRestProvider(config));
+  return createLocalStorageProvider();
+};
+
+export const getStorageConfig = (): StorageConfig => {
+  const saved = localStorage.getItem(STORAGE_CONFIG_KEY);
+  if (saved) return { ...DEFAULT_STORAGE_CONFIG, ...JSON.parse(saved) };
+  const legacy = localStorage.getItem(LEGACY_CLOUD_CONFIG_KEY);
+  if (legacy) return { ...DEFAULT_STORAGE_CONFIG, ...JSON.parse(legacy), provider: 'supabase' };
+  return DEFAULT_STORAGE_CONFIG;
+};
+
+let activeProvider: StorageProvider | null = null;
+let activeRemote: StorageProvider | null | undefined;
+
+/** The configured remote backend on its own, without the local copy; null for the browser providers. */
+export const getRemoteProvider = () => {
+  if (activeRemote !== undefined) return activeRemote;
+  const config = getStorageConfig();
+  if (!isRemoteProvider(config) || !config.url.trim()) return activeRemote = null;
+  return activeRemote = config.provider === 'supabase' ? createSupabaseProvider(config) : createRestProvider(config);
+};
+
+export const getStorageProvider = () => {
+  if (activeProvider) return activeProvider;
+  const remote = getRemoteProvider();
+  return activeProvider = remote ? withLocalCopy(remote) : createStorageProvider(getStorageConfig());
+};
+
+export const saveStorageConfig = (config: StorageConfig) => {
+  localStorage.setItem(STORAGE_CONFIG_KEY, JSON.stringify(config));
+  activeProvider = null;
+  activeRemote = undefined;
+};
+
+/**
+ * Copies every price book, server template and attachment file from one provider to another, with
+ * `projects` (by default the ones `from` has stored); returns the names of files that could not be copied.
+ */
+export const copyStorageData = async (from: StorageProvider, to: StorageProvider, projects?: Project[]) => {
+  projects = projects || await from.listProjects();
+  for (const book of await from.listPriceBooks()) await to.savePriceBook(book);
+  for (const template of await from.listServerTemplates()) await to.saveServerTemplate(template);
+  const failed: string[] = [];
+  for (const project of projects) {
+    await to.saveProject(project);
+    for (const attachment of (project.journal || []).flatMap(j => j.attachments || [])) {
+      if (!attachment.storagePath) continue;
+      try {
+        const url = await from.getAttachmentUrl(attachment.storagePath);
+        if (!url) throw new Error('missing');
+        await to.putAttachment(attachment.storagePath, await (await fetch(url)).blob(), attachment.mimeType);
+      } catch (err) {
+        failed.push(attachment.name);
+      }
+    }
+  }
+  return failed;
+};
+
+export const savePriceBookToStorage = (book: PriceBook) => getStorageProvider().savePriceBook(book);
+export const saveServerTemplateToStorage = (template: ServerTemplate) => getStorageProvider().saveServerTemplate(template);
+export const deleteServerTemplateFromStorage = (id: string) => getStorageProvider().deleteServerTemplate(id);
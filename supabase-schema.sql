@@ -0,0 +1,51 @@
+-- Tables used by the Supabase storage provider. Safe to run again on an existing project:
+-- it only creates what is missing.
+
+create table if not exists projects (
+  id text primary key,
+  name text not null,
+  start_date text,
+  end_date text,
+  servers jsonb not null default '[]',
+  labors jsonb not null default '[]',
+  journal jsonb,
+  infra_prices jsonb,
+  labor_prices jsonb,
+  created_at bigint,
+  last_modified bigint
+);
+
+alter table projects
+  add column if not exists billing_cycles jsonb,
+  add column if not exists price_tiers jsonb,
+  add column if not exists price_book_ref jsonb,
+  add column if not exists quotation_settings jsonb,
+  add column if not exists scenarios jsonb,
+  add column if not exists active_scenario_id text,
+  add column if not exists quotation_scenario_ids jsonb,
+  add column if not exists lint_settings jsonb,
+  add column if not exists overhead_rules jsonb,
+  add column if not exists schedule_settings jsonb,
+  add column if not exists team jsonb,
+  add column if not exists roles jsonb,
+  add column if not exists risks jsonb,
+  add column if not exists board_settings jsonb,
+  add column if not exists saved_views jsonb,
+  add column if not exists revision integer not null default 0;
+
+create table if not exists price_books (
+  id text primary key,
+  name text not null,
+  versions jsonb not null default '[]',
+  last_modified bigint
+);
+
+create table if not exists server_templates (
+  id text primary key,
+  name text not null,
+  server jsonb not null,
+  last_modified bigint
+);
+
+-- Journal attachment files.
+insert into storage.buckets (id, name) values ('attachments', 'attachments') on conflict (id) do nothing;
@@ -0,0 +1,234 @@
+import { MergeChoice, Project, StorageProvider, SyncConflict, SyncOutcome, SyncQueueEntry, SyncState } from './types';
+import { applyMerge, diffProjects, hasUnresolvedItems } from './merge';
+import { createLocalStorageProvider, getRemoteProvider, getStorageProvider, runIndexedDb } from './storage';
+
+const SYNC_QUEUE_KEY = 'estimacore_sync_queue';
+// Delay before retrying a failed push, by number of failed attempts; the last one repeats.
+const RETRY_DELAYS_MS = [5, 15, 30, 60, 120, 300].map(s => s * 1000);
+
+// Remote projects always keep a copy in localStorage; it holds the latest local edits until they are pushed.
+const localCopy = createLocalStorageProvider();
+
+export const readSyncQueue = (): SyncQueueEntry[] => {
+  const data = localStorage.getItem(SYNC_QUEUE_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+// Why the data on screen came from the local copy rather than the backend, until the next reload.
+let loadError: string | null = null;
+
+export const getLoadError = () => loadError;
+
+export const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+const writeSyncQueue = (queue: SyncQueueEntry[]) => localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+
+const enqueue = (projectId: string, kind: SyncQueueEntry['kind']) => {
+  const now = Date.now();
+  writeSyncQueue([...readSyncQueue().filter(e => e.projectId !== projectId), { projectId, kind, queuedAt: now, attempts: 0, nextAttemptAt: now }]);
+};
+
+/** Replaces the queue entry unless the project was queued again while it was being pushed. */
+const updateEntry = (entry: SyncQueueEntry, next: SyncQueueEntry | null) =>
+  writeSyncQueue(readSyncQueue().flatMap(e => e.projectId !== entry.projectId || e.queuedAt !== entry.queuedAt ? [e] : next ? [next] : []));
+
+// The copy of each project as last pushed or pulled: the common ancestor for three-way merges.
+const readBase = async (id: string) => (await runIndexedDb<Project | undefined>('syncBases', 'readonly', s => s.get(id))) || null;
+const writeBase = async (project: Project) => { await runIndexedDb('syncBases', 'readwrite', s => s.put(project, project.id)); };
+const deleteBase = async (id: string) => { await runIndexedDb('syncBases', 'readwrite', s => s.delete(id)); };
+
+/**
+ * Projects to open with: the remote ones, except that projects with unpushed local changes (or
+ * created offline) come from the local copy. Falls back to the local copy when offline.
+ */
+export const loadProjects = async (): Promise<Project[]> => {
+  const remote = getRemoteProvider();
+  if (!remote) return getStorageProvider().listProjects();
+  const local = await localCopy.listProjects();
+  let remoteProjects: Project[];
+  try {
+    remoteProjects = await remote.listProjects();
+  } catch (err) {
+    console.error(err);
+    loadError = errorMessage(err);
+    return local.filter(p => readSyncQueue().every(e => e.projectId !== p.id || e.kind !== 'delete'));
+  }
+  const queue = new Map(readSyncQueue().map(e => [e.projectId, e]));
+  const projects: Project[] = [];
+  for (const project of remoteProjects) {
+    const entry = queue.get(project.id);
+    if (entry?.kind === 'delete') continue;
+    if (entry) {
+      projects.push(local.find(p => p.id === project.id) || project);
+      continue;
+    }
+    projects.push(project);
+    await localCopy.saveProject(project);
+    await writeBase(project);
+  }
+  local.filter(p => queue.get(p.id)?.kind === 'save' && !remoteProjects.some(r => r.id === p.id)).forEach(p => projects.push(p));
+  return projects;
+};
+
+/** Lists from the backend, or from the local copy (recording why) when the backend cannot be reached. */
+const listOrLocalCopy = async <T>(list: (provider: StorageProvider) => Promise<T[]>) => {
+  const remote = getRemoteProvider();
+  if (!remote) return list(getStorageProvider());
+  try {
+    return await list(remote);
+  } catch (err) {
+    console.error(err);
+    loadError = errorMessage(err);
+    return list(localCopy);
+  }
+};
+
+export const loadPriceBooks = () => listOrLocalCopy(p => p.listPriceBooks());
+
+export const loadServerTemplates = () => listOrLocalCopy(p => p.listServerTemplates());
+
+/** Saves locally right away and queues the push; browser providers save directly. */
+export const queueProjectSave = async (project: Project) => {
+  if (!getRemoteProvider()) return getStorageProvider().saveProject(project);
+  await localCopy.saveProject(project);
+  enqueue(project.id, 'save');
+};
+
+export const queueProjectDelete = async (id: string) => {
+  if (!getRemoteProvider()) return getStorageProvider().deleteProject(id);
+  await localCopy.deleteProject(id);
+  enqueue(id, 'delete');
+};
+
+const retryLater = (entry: SyncQueueEntry, err: unknown) => {
+  const attempts = entry.attempts + 1;
+  const delay = RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1];
+  updateEntry(entry, { ...entry, attempts, nextAttemptAt: Date.now() + delay, lastError: errorMessage(err) });
+};
+
+// Pushes that find the server changed again since it was read are retried this many times in a row.
+const MAX_PUSH_RACES = 3;
+
+/**
+ * Pushes `project` as the next revision after `remote`, unless the server moved on from `remote` in
+ * the meantime (null then), and records it as the new common base.
+ */
+const push = async (project: Project, remote: Project | null) => {
+  const pushed = { ...project, revision: (remote?.revision || 0) + 1 };
+  if (!await getRemoteProvider()!.saveProjectIfRevision(pushed, remote ? remote.revision || 0 : null)) return null;
+  const current = await localCopy.getProject(project.id);
+  // Edits saved while the push was in flight stay local; they are queued and pushed next.
+  if (!current || current.lastModified === project.lastModified) await localCopy.saveProject(pushed);
+  await writeBase(pushed);
+  return pushed;
+};
+
+const pushEntry = async (entry: SyncQueueEntry, outcome: SyncOutcome) => {
+  const remote = getRemoteProvider()!;
+  if (entry.kind === 'delete') {
+    await remote.deleteProject(entry.projectId);
+    await deleteBase(entry.projectId);
+    updateEntry(entry, null);
+    return;
+  }
+  const local = await localCopy.getProject(entry.projectId);
+  if (!local) {
+    updateEntry(entry, null);
+    return;
+  }
+  for (let race = 0; race < MAX_PUSH_RACES; race++) {
+    const [remoteProject, base] = await Promise.all([remote.getProject(entry.projectId), readBase(entry.projectId)]);
+    // Synced before but gone now: someone deleted it on the server.
+    if (!remoteProject && base) {
+      outcome.conflicts.push({ projectId: local.id, local, remote: null, items: [] });
+      updateEntry(entry, { ...entry, conflict: true, lastError: undefined });
+      return;
+    }
+    let toPush = local;
+    if (remoteProject && (remoteProject.revision || 0) !== (base?.revision || 0)) {
+      const items = diffProjects(base, local, remoteProject);
+      if (hasUnresolvedItems(items)) {
+        outcome.conflicts.push({ projectId: local.id, local, remote: remoteProject, items });
+        updateEntry(entry, { ...entry, conflict: true, lastError: undefined });
+        return;
+      }
+      toPush = applyMerge(local, remoteProject, items);
+    }
+    const pushed = await push(toPush, remoteProject);
+    if (pushed) {
+      outcome.synced.push({ from: local, pushed });
+      updateEntry(entry, null);
+      return;
+    }
+  }
+  throw new Error('Dự án liên tục thay đổi trên máy chủ, sẽ thử lại sau.');
+};
+
+let running: Promise<SyncOutcome> | null = null;
+
+/**
+ * Pushes queued changes that are due (all of them with `force`). A project whose remote copy moved on
+ * since the last sync is merged when the two sides changed different items, and reported as a
+ * conflict otherwise; failed pushes are retried later with increasing delays.
+ */
+export const flushSyncQueue = (force = false): Promise<SyncOutcome> => {
+  if (running) return running;
+  running = (async () => {
+    const outcome: SyncOutcome = { synced: [], conflicts: [] };
+    if (!getRemoteProvider()) return outcome;
+    for (const entry of readSyncQueue()) {
+      if (!force && (entry.conflict || entry.nextAttemptAt > Date.now())) continue;
+      try {
+        await pushEntry(entry, outcome);
+      } catch (err) {
+        console.error(err);
+        retryLater(entry, err);
+      }
+    }
+    return outcome;
+  })().finally(() => { running = null; });
+  return running;
+};
+
+/**
+ * Saves the merge of a conflict as the local copy, based on the remote revision it was merged with,
+ * and pushes it.
+ */
+export const resolveConflict = async (conflict: SyncConflict, choices: Record<string, MergeChoice>) => {
+  const merged = { ...applyMerge(conflict.local, conflict.remote, conflict.items, choices), lastModified: Date.now() };
+  await writeBase(conflict.remote);
+  await queueProjectSave(merged);
+  const outcome = await flushSyncQueue(true);
+  return { merged, outcome };
+};
+
+/** Forgets queued pushes and sync bases; they belong to the previous server when switching storage. */
+export const clearSyncState = async () => {
+  writeSyncQueue([]);
+  await runIndexedDb('syncBases', 'readwrite', s => s.clear());
+};
+
+/**
+ * Settles a project deleted on the server while it had local changes: `keep` pushes the local copy
+ * as a new project, otherwise it is deleted here too.
+ */
+export const resolveDeletedConflict = async (conflict: SyncConflict, keep: boolean) => {
+  await deleteBase(conflict.projectId);
+  if (!keep) {
+    await localCopy.deleteProject(conflict.projectId);
+    writeSyncQueue(readSyncQueue().filter(e => e.projectId !== conflict.projectId));
+    return null;
+  }
+  await queueProjectSave({ ...conflict.local, revision: undefined, lastModified: Date.now() });
+  return flushSyncQueue(true);
+};
+
+export const getSyncState = (busy: boolean): SyncState => {
+  if (!getRemoteProvider()) return 'local';
+  if (busy) return 'syncing';
+  const queue = readSyncQueue();
+  if (queue.some(e => e.conflict)) return 'conflict';
+  if (queue.length === 0) return loadError ? 'localCopy' : 'synced';
+  if (!navigator.onLine) return 'offline';
+  return queue.some(e => e.lastError) ? 'error' : 'pending';
+};
@@ -5,6 +5,7 @@ export enum Category {
   Other = "Dịch vụ khác"
 }
 
+/** Built-in role codes. Projects and price books may define more; see `RoleDefinition`. */
 export enum Role {
   PM = "Project Manager",
   SeniorDev = "Senior Developer",
@@ -15,6 +16,19 @@ export enum Role {
   BA = "Business Analyst"
 }
 
+/** A built-in `Role` value or the code of a project-defined role. */
+export type RoleCode = string;
+
+/**
+ * A labour role. Its rate is `laborPrices[code]`; aliases are matched when importing tasks,
+ * e.g. "devops" or "sre" for a DevOps role.
+ */
+export interface RoleDefinition {
+  code: RoleCode;
+  name: string;
+  aliases: string[];
+}
+
 export enum TaskStatus {
   Todo = "Chờ thực hiện",
   Doing = "Đang làm",
@@ -35,12 +49,77 @@ export enum JournalEntryType {
   Note = "Ghi chú"
 }
 
+export enum RiskStatus {
+  Open = "Đang theo dõi",
+  Mitigating = "Đang xử lý",
+  Closed = "Đã đóng"
+}
+
 export interface JournalEntry {
   id: string;
   type: JournalEntryType;
   date: string;
   title: string;
   content: string;
+  /** Minutes of a meeting; other entry types leave them unset. */
+  attendees?: string[];
+  decisions?: string[];
+  actionItems?: ActionItem[];
+  attachments?: JournalAttachment[];
+  /** Tasks and servers the entry is about; they show the entry as a back-link. */
+  taskIds?: string[];
+  serverIds?: string[];
+}
+
+export interface JournalAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
+  /** Path in the cloud storage bucket; unset while the file is only kept in this browser. */
+  storagePath?: string;
+}
+
+export interface JournalFilters {
+  query: string;
+  types: JournalEntryType[];
+  /** Inclusive date range (YYYY-MM-DD); empty for no bound. */
+  from: string;
+  to: string;
+}
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string };
+
+export interface MarkdownListItem {
+  /** Set for task list items (`- [ ]`, `- [x]`). */
+  checked?: boolean;
+  children: MarkdownInline[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownListItem[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'hr' };
+
+export interface ActionItem {
+  id: string;
+  text: string;
+  /** Display name; kept in sync with the roster member when `ownerId` is set. */
+  owner: string;
+  ownerId?: string;
+  dueDate: string;
+  /** Board task created from this action; the task's status tells whether it is done. */
+  taskId?: string;
 }
 
 export interface UnitPrices {
@@ -60,6 +139,36 @@ export interface UnitPrices {
   osLinux: number;
 }
 
+export type BillingCycle = 'oneTime' | 'monthly' | 'yearly';
+
+export type BillingCycles = { [key in keyof UnitPrices]: BillingCycle };
+
+export type TierMode = 'graduated' | 'allUnits';
+
+export interface PriceTier {
+  /** Project-wide quantity above which `rate` applies. */
+  from: number;
+  rate: number;
+}
+
+export interface TieredRate {
+  mode: TierMode;
+  tiers: PriceTier[];
+}
+
+export type PriceTiers = { [key in keyof UnitPrices]?: TieredRate };
+
+export interface AppliedTier {
+  priceKey: keyof UnitPrices;
+  mode: TierMode;
+  quantity: number;
+  baseRate: number;
+  effectiveRate: number;
+  bands: { quantity: number, rate: number }[];
+}
+
+export type AppliedTiers = { [key in keyof UnitPrices]?: AppliedTier };
+
 export interface LaborPrices {
   [key: string]: number;
 }
@@ -74,6 +183,51 @@ export type StorageType =
   | 'storageNfsVsan' 
   | 'storageCeph';
 
+export interface StorageVolume {
+  id: string;
+  label: string;
+  sizeGb: number;
+  storageType: StorageType;
+}
+
+export interface PriceBookVersion {
+  id: string;
+  version: number;
+  /** ISO date from which this version applies. */
+  effectiveDate: string;
+  infraPrices: UnitPrices;
+  billingCycles: BillingCycles;
+  priceTiers?: PriceTiers;
+  laborPrices: LaborPrices;
+  /** Roles the labour prices are keyed by; projects keep their own roles when unset. */
+  roles?: RoleDefinition[];
+  note: string;
+  createdAt: number;
+}
+
+export interface PriceBook {
+  id: string;
+  name: string;
+  versions: PriceBookVersion[];
+  lastModified: number;
+}
+
+export interface PriceBookRef {
+  bookId: string;
+  versionId: string;
+}
+
+export type QuotationSection = 'infra' | 'labor' | 'contingency';
+
+export interface RepriceDiffLine {
+  key: string;
+  section: QuotationSection;
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
 export interface ServerItem {
   id: string;
   category: Category;
@@ -82,21 +236,166 @@ export interface ServerItem {
   quantity: number;
   content: string;
   note: string;
-  storageType: StorageType;
+  volumes: StorageVolume[];
+  /** Legacy single storage type, only read when migrating old projects into `volumes`. */
+  storageType?: StorageType;
   bwQt: number;
   bwInternal: number;
+  /** Optional phased rollout window; defaults to the project dates. */
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * A reusable server preset. Inserting it copies `server` into the project with fresh ids.
+ */
+export interface ServerTemplate {
+  id: string;
+  name: string;
+  /** Built-in templates ship with the app and cannot be edited or deleted. */
+  builtIn?: boolean;
+  server: Omit<ServerItem, 'id' | 'storageType' | 'startDate' | 'endDate'>;
+  lastModified: number;
+}
+
+export interface ServerStackItem {
+  templateId: string;
+  quantity: number;
+}
+
+/** A group of templates inserted together, e.g. a K8s cluster. */
+export interface ServerStack {
+  id: string;
+  name: string;
+  description: string;
+  items: ServerStackItem[];
+}
+
+export type OverheadMode = 'ratio' | 'fixed';
+
+/**
+ * Derives overhead mandays for `targetRole` from the mandays of `sourceRoles`, e.g. one PM
+ * manday per five developer mandays.
+ */
+export interface OverheadRule {
+  id: string;
+  label: string;
+  sourceRoles: RoleCode[];
+  targetRole: RoleCode;
+  mode: OverheadMode;
+  /** Target mandays per source manday for 'ratio'; mandays for 'fixed'. */
+  value: number;
+  min?: number;
+  max?: number;
+}
+
+export interface OverheadLine {
+  rule: OverheadRule;
+  sourceMandays: number;
+  mandays: number;
+  explanation: string;
+}
+
+export interface OverheadPreset {
+  id: string;
+  name: string;
+  description: string;
+  rules: OverheadRule[];
+}
+
+export interface WbsNode {
+  item: LaborItem;
+  /** Outline number such as "2.1.3". */
+  code: string;
+  depth: number;
+  children: WbsNode[];
+  /** Own mandays for leaves, the sum of the children for modules. */
+  mandays: number;
+  cost: number;
+}
+
+export interface ThreePointEstimate {
+  optimistic: number;
+  mostLikely: number;
+  pessimistic: number;
 }
 
 export interface LaborItem {
   id: string;
   taskName: string;
-  role: Role;
+  role: RoleCode;
+  /** Point estimate; kept equal to the PERT expected value when `estimate` is set. */
   mandays: number;
+  estimate?: ThreePointEstimate;
+  /** Parent module in the work breakdown structure; root items have none. */
+  parentId?: string;
+  /** Tasks that must finish before this one starts. */
+  predecessorIds?: string[];
+  /** Journal milestone this task has to be finished by. */
+  milestoneId?: string;
+  /** Meeting whose action item this task was created from. */
+  sourceEntryId?: string;
   description: string;
   status: TaskStatus;
   priority: Priority;
+  /** Display name; kept in sync with the roster member when `assigneeId` is set. */
   assignee: string;
+  assigneeId?: string;
   dueDate: string;
+  /** Share of the task done, 0-100; derived from `status` when unset. */
+  percentComplete?: number;
+  actuals?: ActualEntry[];
+  /** Position within its board column; lower comes first. */
+  boardOrder?: number;
+  history?: TaskHistoryEntry[];
+}
+
+export type TaskHistoryField = 'created' | 'taskName' | 'description' | 'role' | 'mandays' | 'status' | 'priority' | 'assignee' | 'dueDate' | 'percentComplete' | 'parentId';
+
+/** One change to a task; values are stored as display text. */
+export interface TaskHistoryEntry {
+  at: number;
+  field: TaskHistoryField;
+  from?: string;
+  to?: string;
+}
+
+/** Mandays actually spent on a task on one day by one person. */
+export interface ActualEntry {
+  id: string;
+  date: string;
+  mandays: number;
+  /** Roster member; `person` holds the name either way. */
+  memberId?: string;
+  person: string;
+  note?: string;
+}
+
+/**
+ * One named estimate option of a project. The active scenario's servers and labors live on the
+ * project itself while it is being edited; the copy kept here is refreshed when switching away.
+ */
+export interface Scenario {
+  id: string;
+  name: string;
+  note?: string;
+  servers: ServerItem[];
+  labors: LaborItem[];
+  /** Overrides on top of the project prices; missing keys use the project price. */
+  infraPrices?: Partial<UnitPrices>;
+  laborPrices?: LaborPrices;
+}
+
+export interface ScenarioComparison {
+  scenario: Scenario;
+  infraTotal: number;
+  laborTotal: number;
+  /** Expected cost of the open risks. */
+  contingencyTotal: number;
+  mandays: number;
+  grandTotal: number;
+  /** Quotation total after discounts and VAT. */
+  quotedTotal: number;
 }
 
 export interface Project {
@@ -108,18 +407,486 @@ export interface Project {
   labors: LaborItem[];
   journal?: JournalEntry[];
   infraPrices: UnitPrices;
+  billingCycles?: BillingCycles;
+  priceTiers?: PriceTiers;
   laborPrices: LaborPrices;
+  /** Roles the project prices and imports with; the built-in roles apply when unset. */
+  roles?: RoleDefinition[];
+  /** Price book version the prices above were copied from. */
+  priceBookRef?: PriceBookRef;
+  quotationSettings?: QuotationSettings;
+  scenarios?: Scenario[];
+  activeScenarioId?: string;
+  /** Scenarios presented side by side as options in the quotation. */
+  quotationScenarioIds?: string[];
+  lintSettings?: LintSettings;
+  /** Overhead staffing rules; the default 1:3 PM/BA/QC rules apply when unset. */
+  overheadRules?: OverheadRule[];
+  scheduleSettings?: ScheduleSettings;
+  team?: TeamMember[];
+  risks?: Risk[];
+  boardSettings?: BoardSettings;
+  savedViews?: SavedView[];
   createdAt: number;
   lastModified: number;
+  /** Bumped on every push to a remote storage provider; a copy based on an older revision is in conflict. */
+  revision?: number;
+}
+
+export type QuotePercentile = 'p50' | 'p80' | 'p90';
+
+export interface SimulationPercentiles {
+  mean: number;
+  p50: number;
+  p80: number;
+  p90: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  mandays: SimulationPercentiles;
+  /** Labour cost including overhead rules, in VND. */
+  laborCost: SimulationPercentiles;
+  /** Point-estimate labour cost the percentiles are compared with. */
+  baselineLaborCost: number;
+  histogram: HistogramBin[];
+}
+
+export type DiscountKind = 'percent' | 'fixed';
+
+export interface Discount {
+  kind: DiscountKind;
+  /** Percentage (0-100) or a fixed amount in VND. */
+  value: number;
+}
+
+export interface QuotationSettings {
+  vatRate: number;
+  currency: string;
+  /** VND per one unit of each foreign currency. */
+  exchangeRates: { [currency: string]: number };
+  overallDiscount?: Discount;
+  /** Keyed by quotation line key, e.g. `server:s1` or `role:Project Manager`. */
+  lineDiscounts: { [lineKey: string]: Discount };
+  /** Monte Carlo percentile the labour lines are quoted at; the point estimates when unset. */
+  laborPercentile?: QuotePercentile;
+  /** Summarise manual labour lines by top-level WBS module instead of by role. */
+  laborGrouping?: 'role' | 'module';
+}
+
+export interface QuotationLine {
+  key: string;
+  section: QuotationSection;
+  label: string;
+  quantity: number;
+  unit: string;
+  amount: number;
+  discount: number;
+  net: number;
+  /** Set on overhead lines derived from other roles by an overhead rule. */
+  derivedFrom?: string;
+}
+
+export interface QuotationTotals {
+  subtotal: number;
+  lineDiscounts: number;
+  overallDiscount: number;
+  taxable: number;
+  vatRate: number;
+  vat: number;
+  total: number;
+}
+
+export interface Quotation {
+  lines: QuotationLine[];
+  tiers: AppliedTier[];
+  /** Multiplier applied to labour lines to reach the chosen percentile; 1 for point estimates. */
+  laborFactor: number;
+  totals: QuotationTotals;
+}
+
+export interface ContractSummary {
+  /** Contract length in (prorated) months, or null when the project has no dates. */
+  months: number | null;
+  monthlyRunRate: number;
+  oneTimeTotal: number;
+  contractTotal: number;
 }
 
 export interface ParsedConfig {
   cpu: number;
   ram: number;
   storage: number;
+  disks: number[];
+}
+
+export type DiagnosticSeverity = 'warning' | 'error';
+
+export interface ConfigDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ConfigParseResult {
+  config: ParsedConfig;
+  diagnostics: ConfigDiagnostic[];
+}
+
+export type CostComponent = 'cpu' | 'ram' | 'storage' | 'os' | 'bandwidthQt' | 'bandwidthInternal';
+
+export interface CostLine {
+  component: CostComponent;
+  priceKey: keyof UnitPrices;
+  billingCycle: BillingCycle;
+  label: string;
+  quantity: number;
+  unit: string;
+  unitRate: number;
+  subtotal: number;
+  /** Set when the rate comes from a project-wide volume tier. */
+  tier?: AppliedTier;
 }
 
 export interface CalculationResult {
+  /** Cost lines for a single unit of the server; they add up to `unitPrice`. */
+  lines: CostLine[];
   unitPrice: number;
   totalPrice: number;
+  /** Recurring cost of one unit normalised to a month, and its one-off charges. */
+  monthlyPrice: number;
+  oneTimePrice: number;
+  config: ParsedConfig;
+  diagnostics: ConfigDiagnostic[];
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  /** Servers the finding points at; empty for findings about the list as a whole. */
+  serverIds: string[];
+}
+
+export interface LintContext {
+  servers: ServerItem[];
+  /** Parsed config per server id. */
+  configs: Record<string, ParsedConfig>;
+}
+
+export interface LintRule {
+  id: string;
+  name: string;
+  severity: LintSeverity;
+  check: (context: LintContext) => Omit<LintFinding, 'ruleId' | 'severity'>[];
+}
+
+export type LintMetric = 'cpu' | 'ram' | 'storage' | 'bwQt' | 'bwInternal' | 'quantity';
+export type LintOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq';
+
+/**
+ * A user-defined rule: every server matching the filters whose metric fails the comparison
+ * is reported, e.g. "database servers must have at least 16 GB RAM".
+ */
+export interface CustomLintRule {
+  id: string;
+  name: string;
+  severity: LintSeverity;
+  category?: Category;
+  /** Case-insensitive substring of the OS name. */
+  osContains?: string;
+  metric: LintMetric;
+  /** The condition servers must satisfy. */
+  operator: LintOperator;
+  value: number;
+  message?: string;
+}
+
+export interface LintSettings {
+  disabledRules: string[];
+  customRules: CustomLintRule[];
+}
+
+/** Working calendar and staffing the scheduler uses to turn mandays into dates. */
+export interface ScheduleSettings {
+  /** Working weekdays, 0 = Sunday. */
+  workingDays: number[];
+  /** Non-working dates (YYYY-MM-DD). */
+  holidays: string[];
+  /** People per role for roles nobody in the team is available for; 1 when unset. */
+  headcount: { [role: RoleCode]: number };
+}
+
+export interface ScheduledTask {
+  id: string;
+  /** Working-day offsets from the project start; `finish` is exclusive. */
+  earlyStart: number;
+  earlyFinish: number;
+  duration: number;
+  /** Working days the task can slip without delaying the project. */
+  slack: number;
+  critical: boolean;
+  startDate: string;
+  finishDate: string;
+}
+
+export type ScheduleWarningKind = 'projectEnd' | 'milestone' | 'dueDate' | 'cycle';
+
+export interface ScheduleWarning {
+  kind: ScheduleWarningKind;
+  message: string;
+  taskIds: string[];
+}
+
+export interface ScheduleResult {
+  startDate: string;
+  finishDate: string;
+  /** Length of the project in working days. */
+  duration: number;
+  /** Keyed by labour item id, modules included. */
+  tasks: Record<string, ScheduledTask>;
+  /** Critical leaf tasks in start order. */
+  criticalPath: string[];
+  warnings: ScheduleWarning[];
+}
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  role: RoleCode;
+  /** Share of each working day spent on this project, 0-100. */
+  availability: number;
+  /** Personal days off (YYYY-MM-DD). */
+  daysOff: string[];
+  /** Personal daily rate; the role rate applies when unset. */
+  rate?: number;
+}
+
+export interface WeeklyLoad {
+  /** Monday of the week (YYYY-MM-DD). */
+  weekStart: string;
+  /** Mandays of assigned work scheduled in the week. */
+  allocated: number;
+  /** Mandays the member can work in the week. */
+  capacity: number;
+  overAllocated: boolean;
+  taskIds: string[];
+}
+
+export interface MemberUtilisation {
+  member: TeamMember;
+  weeks: WeeklyLoad[];
+  allocated: number;
+  overAllocatedWeeks: number;
+}
+
+/** Earned value metrics in VND as of a date. */
+export interface EarnedValue {
+  asOf: string;
+  /** Budget at completion: the estimated cost of all tasks. */
+  bac: number;
+  /** Planned value: budgeted cost of the work scheduled up to `asOf`. */
+  pv: number;
+  /** Earned value: budgeted cost of the work done. */
+  ev: number;
+  /** Actual cost of the mandays logged up to `asOf`. */
+  ac: number;
+  /** Cost performance index EV / AC; null before anything is logged. */
+  cpi: number | null;
+  /** Schedule performance index EV / PV; null before anything is planned. */
+  spi: number | null;
+  /** Estimate at completion BAC / CPI. */
+  eac: number | null;
+}
+
+export interface BurnUpPoint {
+  date: string;
+  /** Cumulative mandays planned by the schedule. */
+  planned: number;
+  /** Cumulative mandays logged; null for dates after `asOf`. */
+  actual: number | null;
+  /** Total estimated mandays. */
+  scope: number;
+}
+
+export interface Risk {
+  id: string;
+  description: string;
+  /** Chance the risk occurs, 0-100. */
+  probability: number;
+  /** Cost if it occurs (VND). */
+  costImpact: number;
+  /** Working days lost if it occurs. */
+  scheduleImpact: number;
+  owner: string;
+  mitigation: string;
+  status: RiskStatus;
+  serverIds?: string[];
+  taskIds?: string[];
+}
+
+export interface RiskReserve {
+  /** Probability-weighted cost of the risks still open (VND). */
+  cost: number;
+  /** Probability-weighted schedule impact of the risks still open, in working days. */
+  days: number;
+  openCount: number;
+}
+
+export type Swimlane = 'none' | 'assignee' | 'role' | 'priority';
+
+export interface BoardSettings {
+  /** Maximum cards per status column; no limit when unset. */
+  wipLimits: { [key in TaskStatus]?: number };
+  swimlane: Swimlane;
+}
+
+export interface BoardLane {
+  key: string;
+  label: string;
+}
+
+export type TaskSortKey = 'taskName' | 'role' | 'mandays' | 'cost' | 'status' | 'priority' | 'dueDate';
+export type ServerSortKey = 'content' | 'category' | 'os' | 'quantity' | 'monthlyCost';
+
+export interface SortOrder<K extends string> {
+  key: K;
+  desc: boolean;
+}
+
+/** Search text and facets applied to the task and server lists; empty facets match everything. */
+export interface ViewFilters {
+  query: string;
+  roles: RoleCode[];
+  statuses: TaskStatus[];
+  priorities: Priority[];
+  /** Roster member ids, or plain names for assignees outside the roster; '' means unassigned. */
+  assignees: string[];
+  overdueOnly: boolean;
+  categories: Category[];
+  os: string[];
+  storageTypes: StorageType[];
+  /** Tasks keep their WBS order when unset. */
+  taskSort?: SortOrder<TaskSortKey>;
+  serverSort?: SortOrder<ServerSortKey>;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: ViewFilters;
+}
+
+/** What the address bar carries so a link opens the same project, tab and filtered view. */
+export interface UrlState {
+  projectId: string | null;
+  tab: string | null;
+  viewId: string | null;
+  filters: ViewFilters;
+}
+
+export type CalendarEventKind = 'task' | 'milestone' | 'meeting';
+
+/** A dated item shown on the calendar and exported to .ics; `sourceId` is the task or journal entry. */
+export interface CalendarEvent {
+  id: string;
+  sourceId: string;
+  kind: CalendarEventKind;
+  date: string;
+  title: string;
+  description: string;
+  /** Facet key of the task's assignee; unset for journal entries. */
+  assigneeKey?: string;
+  overdue: boolean;
+}
+
+export type StorageProviderKind = 'local' | 'indexedDb' | 'supabase' | 'rest';
+
+export interface StorageConfig {
+  provider: StorageProviderKind;
+  /** Supabase project URL or REST API base URL; unused by the browser providers. */
+  url: string;
+  /** Supabase anon key or REST bearer token. */
+  key: string;
+}
+
+/** Where projects, price books, server templates and journal attachments are persisted. */
+export interface StorageProvider {
+  kind: StorageProviderKind;
+  /** Rejects with a readable message when the backend is unreachable or refuses the credentials. */
+  checkConnection: () => Promise<void>;
+  listProjects: () => Promise<Project[]>;
+  getProject: (id: string) => Promise<Project | null>;
+  saveProject: (project: Project) => Promise<void>;
+  /**
+   * Saves only while the stored copy is still at revision `expected` (0 when it has none), or, with
+   * null, only when there is no stored copy. Resolves false when another save got there first.
+   */
+  saveProjectIfRevision: (project: Project, expected: number | null) => Promise<boolean>;
+  deleteProject: (id: string) => Promise<void>;
+  listPriceBooks: () => Promise<PriceBook[]>;
+  savePriceBook: (book: PriceBook) => Promise<void>;
+  listServerTemplates: () => Promise<ServerTemplate[]>;
+  saveServerTemplate: (template: ServerTemplate) => Promise<void>;
+  deleteServerTemplate: (id: string) => Promise<void>;
+  putAttachment: (path: string, file: Blob, mimeType: string) => Promise<void>;
+  /** A URL to open the file with; signed links and object URLs only stay valid for a while. */
+  getAttachmentUrl: (path: string) => Promise<string | null>;
+  deleteAttachment: (path: string) => Promise<void>;
+}
+
+export type SyncState = 'local' | 'synced' | 'pending' | 'syncing' | 'offline' | 'error' | 'conflict' | 'localCopy';
+
+/** A project change waiting to be pushed to the remote provider; one per project, the latest wins. */
+export interface SyncQueueEntry {
+  projectId: string;
+  kind: 'save' | 'delete';
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  /** Set when the push found remote changes that need a manual merge. */
+  conflict?: boolean;
+}
+
+export type MergeSection = 'settings' | 'servers' | 'labors' | 'journal';
+export type MergeChoice = 'local' | 'remote';
+
+/**
+ * One server, task or journal entry (or the rest of the project as `settings`) that differs between
+ * the local and remote copies. `resolution` is set when only one side changed it since the last sync.
+ */
+export interface MergeItem {
+  key: string;
+  section: MergeSection;
+  id: string;
+  label: string;
+  local?: unknown;
+  remote?: unknown;
+  /** Fields that differ between the two copies. */
+  fields: string[];
+  resolution?: MergeChoice;
+}
+
+/** Local changes that could not be pushed; `remote` is null when the project was deleted on the server. */
+export interface SyncConflict {
+  projectId: string;
+  local: Project;
+  remote: Project | null;
+  items: MergeItem[];
+}
+
+export interface SyncOutcome {
+  /** Each pushed project, with any remote changes merged in, and the local copy it was pushed from. */
+  synced: { from: Project, pushed: Project }[];
+  conflicts: SyncConflict[];
 }
@@ -0,0 +1,120 @@
+import { LaborItem, LaborPrices, TeamMember, WbsNode } from './types';
+import { calculateLaborCost } from './utils';
+
+/**
+ * Parent id of an item, or undefined when it is a root item. Parents that no longer exist and
+ * parent chains that loop back on themselves are treated as roots.
+ */
+const resolveParent = (byId: Map<string, LaborItem>, item: LaborItem) => {
+  if (!item.parentId || !byId.has(item.parentId)) return undefined;
+  const seen = new Set([item.id]);
+  let cursor: LaborItem | undefined = byId.get(item.parentId);
+  while (cursor) {
+    if (seen.has(cursor.id)) return undefined;
+    seen.add(cursor.id);
+    cursor = cursor.parentId ? byId.get(cursor.parentId) : undefined;
+  }
+  return item.parentId;
+};
+
+const indexParents = (labors: LaborItem[]) => {
+  const byId = new Map(labors.map(l => [l.id, l]));
+  return new Map(labors.map(l => [l.id, resolveParent(byId, l)]));
+};
+
+export const hasChildren = (labors: LaborItem[], id: string) => labors.some(l => l.parentId === id && l.id !== id);
+
+/**
+ * Tasks that carry the estimate. Items with children are modules whose mandays are rolled up
+ * from their children, so only leaves count toward totals.
+ */
+export const getLeafLabors = (labors: LaborItem[]) => {
+  const parents = indexParents(labors);
+  const withChildren = new Set(Array.from(parents.values()).filter(Boolean));
+  return labors.filter(l => !withChildren.has(l.id));
+};
+
+export const buildWbsTree = (labors: LaborItem[], prices: LaborPrices, team: TeamMember[] = []): WbsNode[] => {
+  const parents = indexParents(labors);
+  const build = (parentId: string | undefined, depth: number, prefix: string): WbsNode[] =>
+    labors
+      .filter(l => parents.get(l.id) === parentId)
+      .map((item, idx) => {
+        const code = prefix ? `${prefix}.${idx + 1}` : `${idx + 1}`;
+        const children = build(item.id, depth + 1, code);
+        const isLeaf = children.length === 0;
+        return {
+          item,
+          code,
+          depth,
+          children,
+          mandays: isLeaf ? (item.mandays || 0) : children.reduce((sum, c) => sum + c.mandays, 0),
+          cost: isLeaf ? calculateLaborCost(item, prices, team) : children.reduce((sum, c) => sum + c.cost, 0)
+        };
+      });
+  return build(undefined, 0, '');
+};
+
+/** Depth-first rows of the tree, skipping the descendants of collapsed nodes. */
+export const flattenWbs = (nodes: WbsNode[], collapsed: string[] = []): WbsNode[] =>
+  nodes.flatMap(n => [n, ...(collapsed.includes(n.item.id) ? [] : flattenWbs(n.children, collapsed))]);
+
+export const getDescendantIds = (labors: LaborItem[], id: string): string[] => {
+  const parents = indexParents(labors);
+  const collect = (parentId: string): string[] =>
+    labors.filter(l => parents.get(l.id) === parentId).flatMap(c => [c.id, ...collect(c.id)]);
+  return collect(id);
+};
+
+/** Ancestors of an item, nearest first. */
+export const getAncestorIds = (labors: LaborItem[], id: string) => {
+  const parents = indexParents(labors);
+  const result: string[] = [];
+  for (let parentId = parents.get(id); parentId; parentId = parents.get(parentId)) result.push(parentId);
+  return result;
+};
+
+export const removeLaborSubtree = (labors: LaborItem[], id: string) => {
+  const removed = new Set([id, ...getDescendantIds(labors, id)]);
+  return labors.filter(l => !removed.has(l.id));
+};
+
+/**
+ * Inserts `item` as the last child of `parentId`, after the parent's existing subtree so the
+ * list stays in tree order.
+ */
+export const insertLaborChild = (labors: LaborItem[], parentId: string, item: LaborItem) => {
+  const subtree = new Set([parentId, ...getDescendantIds(labors, parentId)]);
+  const lastIdx = labors.reduce((last, l, idx) => subtree.has(l.id) ? idx : last, -1);
+  const next = [...labors];
+  next.splice(lastIdx + 1, 0, { ...item, parentId });
+  return next;
+};
+
+/** Makes an item a child of the sibling right above it. */
+export const indentLabor = (labors: LaborItem[], id: string) => {
+  const parents = indexParents(labors);
+  const item = labors.find(l => l.id === id);
+  if (!item) return labors;
+  const siblings = labors.filter(l => parents.get(l.id) === parents.get(id));
+  const prev = siblings[siblings.findIndex(l => l.id === id) - 1];
+  return prev ? labors.map(l => l.id === id ? { ...l, parentId: prev.id } : l) : labors;
+};
+
+/** Moves an item up one level, next to its former parent. */
+export const outdentLabor = (labors: LaborItem[], id: string) => {
+  const parents = indexParents(labors);
+  const parentId = parents.get(id);
+  if (!parentId) return labors;
+  return labors.map(l => l.id === id ? { ...l, parentId: parents.get(parentId) } : l);
+};
+
+/** Top-level ancestor of every item, keyed by item id. */
+export const getModuleIds = (labors: LaborItem[]) => {
+  const parents = indexParents(labors);
+  const rootOf = (id: string): string => {
+    const parentId = parents.get(id);
+    return parentId ? rootOf(parentId) : id;
+  };
+  return new Map(labors.map(l => [l.id, rootOf(l.id)]));
+};